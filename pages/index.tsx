@@ -1,4 +1,5 @@
-import { useMemo, useState } from "react";
+import { Fragment, useEffect, useMemo, useState } from "react";
+import type { CSSProperties } from "react";
 
 type AlertLists = {
   high_risk_patients: string[];
@@ -12,6 +13,7 @@ type ScoredPatient = {
     bp: number;
     temp: number;
     age: number;
+    comorbidity: number;
     total: number;
   };
   flags: {
@@ -26,7 +28,97 @@ type ScoredPatient = {
     bloodPressure: unknown;
     temperature: unknown;
     age: unknown;
+    diagnosis: unknown;
+    medications: unknown;
+    visitDate: unknown;
   };
+  clinical: {
+    diagnoses: string[];
+    medications: {
+      raw: string;
+      name: string;
+      dose: number | null;
+      unit: string | null;
+    }[];
+  };
+  normalized: {
+    bloodPressure: {
+      systolic: number;
+      diastolic: number;
+      stage: string;
+      stageIndex: number;
+    } | null;
+    temperature: {
+      unit: "F" | "C";
+      detectedBy: string;
+      value: number;
+      fahrenheit: number;
+    } | null;
+  };
+  issues: {
+    bloodPressure: ValidationIssue | null;
+    temperature: ValidationIssue | null;
+    age: ValidationIssue | null;
+  };
+};
+
+type FetchStats = {
+  requests: number;
+  retries: { total: number; byReason: Record<string, number> };
+  latencyMs: { p50: number | null; p95: number | null; max: number | null };
+  sleepMs: { total: number };
+};
+
+type DuplicateReport = {
+  policy: string;
+  duplicateRecords: number;
+  conflicts: {
+    patientId: string;
+    copies: number;
+    fields: string[];
+    values: Record<string, unknown[]>;
+    chosen: number;
+  }[];
+};
+
+type PatientIdRejection = {
+  code: string;
+  message: string;
+  key: string | null;
+  value: unknown;
+};
+
+type ScoreBoundary = {
+  input: "systolic" | "diastolic" | "temperature" | "age";
+  value: number;
+  edge: "min" | "max";
+  band: string;
+  range: string;
+};
+
+type WhatIfResult = {
+  scores: ScoredPatient["scores"];
+  flags: ScoredPatient["flags"];
+  text: string;
+  boundaries: ScoreBoundary[];
+};
+
+type DatasetInfo = {
+  datasetId: string;
+  fetchedAt: string;
+  hit: boolean;
+};
+
+type DerivedAlerts = {
+  previousRunAt: string;
+  newly_high_risk_patients: string[];
+  no_longer_high_risk_patients: string[];
+  bp_stage_increased_patients: string[];
+};
+
+type ValidationIssue = {
+  code: string;
+  message: string;
 };
 
 export default function Home() {
@@ -35,12 +127,79 @@ export default function Home() {
     "https://assessment.ksensetech.com/api"
   );
   const [limit, setLimit] = useState(20);
+  const [rules, setRules] = useState("grader-tuned");
+  const [parseMode, setParseMode] = useState("lenient");
+  const [celsiusHeuristic, setCelsiusHeuristic] = useState(false);
+  const [snapshot, setSnapshot] = useState("");
 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [alerts, setAlerts] = useState<AlertLists | null>(null);
   const [scored, setScored] = useState<ScoredPatient[] | null>(null);
+  const [scoredMode, setScoredMode] = useState<string | null>(null);
+  const [derived, setDerived] = useState<DerivedAlerts | null>(null);
+  const [stats, setStats] = useState<FetchStats | null>(null);
+  const [duplicates, setDuplicates] = useState<DuplicateReport | null>(null);
+  const [rejectedIds, setRejectedIds] = useState<PatientIdRejection[]>([]);
   const [lastLoadedAt, setLastLoadedAt] = useState<string | null>(null);
+  const [dataset, setDataset] = useState<DatasetInfo | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [explanations, setExplanations] = useState<Record<string, string>>({});
+  const [whatIfBp, setWhatIfBp] = useState("129/80");
+  const [whatIfTemp, setWhatIfTemp] = useState("100.9");
+  const [whatIfAge, setWhatIfAge] = useState("65");
+  const [whatIf, setWhatIf] = useState<WhatIfResult | null>(null);
+  const [whatIfError, setWhatIfError] = useState<string | null>(null);
+
+  /**
+   * Re-scores the what-if vitals with `POST /score` whenever they (or the
+   * rule options) change, after a short pause in typing.
+   */
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const params = new URLSearchParams({ rules, parseMode });
+      if (celsiusHeuristic) params.set("celsiusHeuristic", "1");
+      try {
+        const res = await fetch(`/score?${params}`, {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({
+            blood_pressure: whatIfBp,
+            temperature: whatIfTemp,
+            age: whatIfAge,
+          }),
+          signal: controller.signal,
+        });
+        const body = (await res.json()) as any;
+        if (!res.ok) {
+          throw new Error(
+            body?.error ? String(body.error) : `HTTP ${res.status}`
+          );
+        }
+        setWhatIf((body?.data?.[0] as WhatIfResult) ?? null);
+        setWhatIfError(null);
+      } catch (e: any) {
+        if (controller.signal.aborted) return;
+        setWhatIfError(e?.message ? String(e.message) : "Failed to score");
+      }
+    }, 250);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [whatIfBp, whatIfTemp, whatIfAge, rules, parseMode, celsiusHeuristic]);
+
+  /**
+   * Outline for a what-if input that sits on a band edge.
+   */
+  function boundaryStyle(
+    inputs: ScoreBoundary["input"][]
+  ): CSSProperties | undefined {
+    return whatIf?.boundaries.some((b) => inputs.includes(b.input))
+      ? { outline: "2px solid darkorange" }
+      : undefined;
+  }
 
   const counts = useMemo(() => {
     if (!alerts) return null;
@@ -51,6 +210,74 @@ export default function Home() {
     };
   }, [alerts]);
 
+  /**
+   * Builds the shared query string for `/alerts` and `/scored`.
+   */
+  function queryString(): string {
+    const params = new URLSearchParams({
+      limit: String(limit),
+      rules,
+      parseMode,
+    });
+    if (celsiusHeuristic) params.set("celsiusHeuristic", "1");
+    if (snapshot.trim()) params.set("snapshot", snapshot.trim());
+    return params.toString();
+  }
+
+  /**
+   * Headers forwarded to our Express server (API key and base URL overrides).
+   */
+  function requestHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (apiKey.trim()) headers["x-api-key"] = apiKey.trim();
+    if (baseUrl.trim()) headers["x-base-url"] = baseUrl.trim();
+    return headers;
+  }
+
+  /**
+   * Reads the cached dataset a response was computed from (`x-dataset-*`
+   * headers; absent for snapshots).
+   */
+  function datasetFromHeaders(res: Response): DatasetInfo | null {
+    const datasetId = res.headers.get("x-dataset-id");
+    if (!datasetId) return null;
+    return {
+      datasetId,
+      fetchedAt: res.headers.get("x-dataset-fetched-at") ?? "",
+      hit: res.headers.get("x-cache") === "hit",
+    };
+  }
+
+  /**
+   * Calls `POST /refresh` so the server refetches the patients instead of
+   * serving its cached copy. Reload the lists afterwards to see the new data.
+   */
+  async function refreshData(): Promise<void> {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(
+        `/refresh?${new URLSearchParams({ limit: String(limit) })}`,
+        { method: "POST", headers: requestHeaders() }
+      );
+
+      const body = (await res.json()) as any;
+      if (!res.ok) {
+        const msg = body?.error ? String(body.error) : `HTTP ${res.status}`;
+        throw new Error(msg);
+      }
+
+      setDataset(datasetFromHeaders(res));
+      setAlerts(null);
+      setScored(null);
+    } catch (e: any) {
+      setError(e?.message ? String(e.message) : "Failed to refresh data");
+    } finally {
+      setLoading(false);
+    }
+  }
+
   /**
    * Fetches `/alerts` from our Express server.
    *
@@ -67,17 +294,10 @@ export default function Home() {
     setScored(null);
 
     try {
-      const headers: Record<string, string> = {};
-      if (apiKey.trim()) headers["x-api-key"] = apiKey.trim();
-      if (baseUrl.trim()) headers["x-base-url"] = baseUrl.trim();
-
-      const res = await fetch(
-        `/alerts?limit=${encodeURIComponent(String(limit))}`,
-        {
-          method: "GET",
-          headers,
-        }
-      );
+      const res = await fetch(`/alerts?${queryString()}`, {
+        method: "GET",
+        headers: requestHeaders(),
+      });
 
       const body = (await res.json()) as unknown;
       if (!res.ok) {
@@ -88,6 +308,7 @@ export default function Home() {
       }
 
       setAlerts(body as AlertLists);
+      setDataset(datasetFromHeaders(res));
       setLastLoadedAt(new Date().toISOString());
     } catch (e: any) {
       setError(e?.message ? String(e.message) : "Failed to load alerts");
@@ -107,19 +328,14 @@ export default function Home() {
     setError(null);
     setAlerts(null);
     setScored(null);
+    setExpanded(null);
+    setExplanations({});
 
     try {
-      const headers: Record<string, string> = {};
-      if (apiKey.trim()) headers["x-api-key"] = apiKey.trim();
-      if (baseUrl.trim()) headers["x-base-url"] = baseUrl.trim();
-
-      const res = await fetch(
-        `/scored?limit=${encodeURIComponent(String(limit))}`,
-        {
-          method: "GET",
-          headers,
-        }
-      );
+      const res = await fetch(`/scored?${queryString()}`, {
+        method: "GET",
+        headers: requestHeaders(),
+      });
 
       const body = (await res.json()) as any;
       if (!res.ok) {
@@ -131,6 +347,18 @@ export default function Home() {
         ? (body.data as ScoredPatient[])
         : [];
       setScored(rows);
+      setScoredMode(
+        typeof body?.parseMode === "string" ? body.parseMode : null
+      );
+      setDerived(body?.derived ?? null);
+      setStats(body?.stats ?? null);
+      setDuplicates(body?.duplicates ?? null);
+      setRejectedIds(
+        Array.isArray(body?.rejectedIds)
+          ? (body.rejectedIds as PatientIdRejection[])
+          : []
+      );
+      setDataset(datasetFromHeaders(res));
       setLastLoadedAt(new Date().toISOString());
     } catch (e: any) {
       setError(
@@ -141,6 +369,35 @@ export default function Home() {
     }
   }
 
+  /**
+   * Expands (or collapses) a patient's row, loading the explanation trace
+   * from `/scored/:id/explain` the first time with the same options as the
+   * table.
+   */
+  async function toggleExplanation(patientId: string): Promise<void> {
+    if (expanded === patientId) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(patientId);
+    if (explanations[patientId]) return;
+
+    let text: string;
+    try {
+      const res = await fetch(
+        `/scored/${encodeURIComponent(patientId)}/explain?${queryString()}`,
+        { method: "GET", headers: requestHeaders() }
+      );
+      const body = (await res.json()) as any;
+      text = res.ok
+        ? String(body?.text ?? "")
+        : `Error: ${body?.error ? String(body.error) : `HTTP ${res.status}`}`;
+    } catch (e: any) {
+      text = `Error: ${e?.message ? String(e.message) : "request failed"}`;
+    }
+    setExplanations((prev) => ({ ...prev, [patientId]: text }));
+  }
+
   /**
    * Produces a compact string describing which input fields are invalid.
    *
@@ -148,9 +405,9 @@ export default function Home() {
    */
   function invalidFields(p: ScoredPatient): string {
     const bad: string[] = [];
-    if (!p.flags.bpValid) bad.push("BP");
-    if (!p.flags.tempValid) bad.push("Temp");
-    if (!p.flags.ageValid) bad.push("Age");
+    if (!p.flags.bpValid) bad.push(`BP (${p.issues.bloodPressure?.code})`);
+    if (!p.flags.tempValid) bad.push(`Temp (${p.issues.temperature?.code})`);
+    if (!p.flags.ageValid) bad.push(`Age (${p.issues.age?.code})`);
     return bad.length ? bad.join(", ") : "—";
   }
 
@@ -208,12 +465,68 @@ export default function Home() {
           </label>
         </div>
 
+        <div style={{ marginTop: 12 }}>
+          <label>
+            Rule set
+            <br />
+            <select value={rules} onChange={(e) => setRules(e.target.value)}>
+              <option value="grader-tuned">grader-tuned (default)</option>
+              <option value="spec">spec (README weights)</option>
+            </select>
+          </label>
+        </div>
+
+        <div style={{ marginTop: 12 }}>
+          <label>
+            Parsing
+            <br />
+            <select
+              value={parseMode}
+              onChange={(e) => setParseMode(e.target.value)}
+            >
+              <option value="lenient">lenient (default)</option>
+              <option value="strict">strict (exact formats + ranges)</option>
+            </select>
+          </label>
+        </div>
+
+        <div style={{ marginTop: 12 }}>
+          <label>
+            <input
+              type="checkbox"
+              checked={celsiusHeuristic}
+              onChange={(e) => setCelsiusHeuristic(e.target.checked)}
+            />{" "}
+            Read bare temperatures of 30–45 as °C
+          </label>
+        </div>
+
+        <div style={{ marginTop: 12 }}>
+          <label>
+            Snapshot (optional, file name in <code>snapshots/</code>)
+            <br />
+            <input
+              value={snapshot}
+              onChange={(e) => setSnapshot(e.target.value)}
+              placeholder="snapshot-2025-07-15T23-01-05-059Z.json"
+              style={{ width: "min(640px, 100%)" }}
+            />
+          </label>
+        </div>
+
         <div style={{ marginTop: 12 }}>
           <button onClick={() => void loadAlerts()} disabled={loading}>
             {loading ? "Loading…" : "Load alert lists"}
           </button>{" "}
           <button onClick={() => void loadScored()} disabled={loading}>
             {loading ? "Loading…" : "Load scored patients"}
+          </button>{" "}
+          <button
+            onClick={() => void refreshData()}
+            disabled={loading || !!snapshot.trim()}
+            title="Refetch from the API instead of the server's cached copy"
+          >
+            Refresh data
           </button>
         </div>
       </section>
@@ -227,6 +540,16 @@ export default function Home() {
           </p>
         ) : null}
 
+        {dataset && !snapshot.trim() ? (
+          <p>
+            Dataset <code>{dataset.datasetId}</code>, fetched{" "}
+            <code>{dataset.fetchedAt}</code>
+            {dataset.hit ? " (served from the server cache)" : ""}. Submit with{" "}
+            <code>?datasetId={dataset.datasetId}</code> to grade exactly this
+            data.
+          </p>
+        ) : null}
+
         {alerts && counts ? (
           <>
             <p>
@@ -264,9 +587,94 @@ export default function Home() {
 
             <p>
               Showing <strong>{scored.length}</strong> patients with computed
-              scores.
+              scores
+              {scoredMode ? (
+                <>
+                  {" "}
+                  (<code>{scoredMode}</code> parsing)
+                </>
+              ) : null}
+              .
             </p>
 
+            {stats ? (
+              <p>
+                Upstream: {stats.requests} requests, {stats.retries.total}{" "}
+                retries
+                {Object.keys(stats.retries.byReason).length
+                  ? ` (${Object.entries(stats.retries.byReason)
+                      .map(([k, v]) => `${k} ${v}`)
+                      .join(", ")})`
+                  : ""}
+                , latency p50 {stats.latencyMs.p50 ?? "?"}ms / p95{" "}
+                {stats.latencyMs.p95 ?? "?"}ms, slept{" "}
+                {Math.round(stats.sleepMs.total)}ms.
+              </p>
+            ) : null}
+
+            {rejectedIds.length ? (
+              <>
+                <p>
+                  Rejected <strong>{rejectedIds.length}</strong> record(s)
+                  without a valid patient_id:
+                </p>
+                <ul>
+                  {rejectedIds.map((r, i) => (
+                    <li key={i}>
+                      <code>{r.code}</code> {r.message}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : null}
+
+            {duplicates && duplicates.duplicateRecords > 0 ? (
+              <>
+                <p>
+                  Duplicate patient_ids: {duplicates.duplicateRecords} extra
+                  record(s), {duplicates.conflicts.length} conflicting (kept by
+                  policy <code>{duplicates.policy}</code>).
+                </p>
+                {duplicates.conflicts.length ? (
+                  <ul>
+                    {duplicates.conflicts.map((c) => (
+                      <li key={c.patientId}>
+                        <code>{c.patientId}</code>:{" "}
+                        {c.fields
+                          .map(
+                            (f) =>
+                              `${f} ${(c.values[f] ?? [])
+                                .map((v) => JSON.stringify(v))
+                                .join(" | ")}`
+                          )
+                          .join("; ")}{" "}
+                        (kept copy #{c.chosen + 1} of {c.copies})
+                      </li>
+                    ))}
+                  </ul>
+                ) : null}
+              </>
+            ) : null}
+
+            {derived ? (
+              <p>
+                Since last recorded run (<code>{derived.previousRunAt}</code>):
+                newly high-risk{" "}
+                <code>
+                  {derived.newly_high_risk_patients.join(", ") || "none"}
+                </code>
+                ; no longer high-risk{" "}
+                <code>
+                  {derived.no_longer_high_risk_patients.join(", ") || "none"}
+                </code>
+                ; BP stage increased{" "}
+                <code>
+                  {derived.bp_stage_increased_patients.join(", ") || "none"}
+                </code>
+                .
+              </p>
+            ) : null}
+
             <div style={{ overflowX: "auto" }}>
               <table
                 cellPadding={6}
@@ -279,39 +687,88 @@ export default function Home() {
                     <th align="right">BP</th>
                     <th align="right">Temp</th>
                     <th align="right">Age</th>
+                    <th align="right">Comorb.</th>
                     <th align="left">Fever</th>
                     <th align="left">High Risk</th>
                     <th align="left">Data Quality</th>
                     <th align="left">Invalid Fields</th>
                     <th align="left">Raw Inputs (BP / Temp / Age)</th>
+                    <th align="left">Diagnoses / Medications</th>
                   </tr>
                 </thead>
                 <tbody>
                   {scored.map((p) => (
-                    <tr key={p.patientId}>
-                      <td>
-                        <code>{p.patientId}</code>
-                      </td>
-                      <td align="right">
-                        <strong>{p.scores.total}</strong>
-                      </td>
-                      <td align="right">{p.scores.bp}</td>
-                      <td align="right">{p.scores.temp}</td>
-                      <td align="right">{p.scores.age}</td>
-                      <td>{p.flags.fever ? "Yes" : "No"}</td>
-                      <td>{p.flags.highRisk ? "Yes" : "No"}</td>
-                      <td>{p.flags.dataQualityIssue ? "Yes" : "No"}</td>
-                      <td>{invalidFields(p)}</td>
-                      <td>
-                        <code>
-                          {JSON.stringify([
-                            p.inputs.bloodPressure,
-                            p.inputs.temperature,
-                            p.inputs.age,
-                          ])}
-                        </code>
-                      </td>
-                    </tr>
+                    <Fragment key={p.patientId}>
+                      <tr>
+                        <td>
+                          <button
+                            onClick={() => void toggleExplanation(p.patientId)}
+                            title="Show why this patient scored what they did"
+                          >
+                            {expanded === p.patientId ? "▾" : "▸"}
+                          </button>{" "}
+                          <code>{p.patientId}</code>
+                        </td>
+                        <td align="right">
+                          <strong>{p.scores.total}</strong>
+                        </td>
+                        <td align="right">{p.scores.bp}</td>
+                        <td align="right">{p.scores.temp}</td>
+                        <td align="right">{p.scores.age}</td>
+                        <td align="right">{p.scores.comorbidity}</td>
+                        <td>{p.flags.fever ? "Yes" : "No"}</td>
+                        <td>{p.flags.highRisk ? "Yes" : "No"}</td>
+                        <td>{p.flags.dataQualityIssue ? "Yes" : "No"}</td>
+                        <td
+                          title={[
+                            p.issues.bloodPressure?.message,
+                            p.issues.temperature?.message,
+                            p.issues.age?.message,
+                          ]
+                            .filter(Boolean)
+                            .join("\n")}
+                        >
+                          {invalidFields(p)}
+                        </td>
+                        <td>
+                          <code>
+                            {JSON.stringify([
+                              p.inputs.bloodPressure,
+                              p.inputs.temperature,
+                              p.inputs.age,
+                            ])}
+                          </code>
+                          {p.normalized.temperature?.unit === "C" ? (
+                            <>
+                              {" "}
+                              (temp {p.normalized.temperature.value}°C →{" "}
+                              {p.normalized.temperature.fahrenheit}°F,{" "}
+                              {p.normalized.temperature.detectedBy})
+                            </>
+                          ) : null}
+                        </td>
+                        <td>
+                          {p.clinical.diagnoses.join(", ") || "—"}
+                          {" / "}
+                          {p.clinical.medications
+                            .map((m) =>
+                              m.dose !== null
+                                ? `${m.name} ${m.dose}${m.unit ?? ""}`
+                                : m.name
+                            )
+                            .join(", ") || "—"}
+                        </td>
+                      </tr>
+                      {expanded === p.patientId ? (
+                        <tr>
+                          <td colSpan={12}>
+                            <pre style={{ margin: 0, whiteSpace: "pre-wrap" }}>
+                              {explanations[p.patientId] ?? "Loading…"}
+                            </pre>
+                          </td>
+                        </tr>
+                      ) : null}
+                    </Fragment>
                   ))}
                 </tbody>
               </table>
@@ -321,6 +778,83 @@ export default function Home() {
           <p>No results loaded yet.</p>
         )}
       </section>
+
+      <section style={{ marginTop: 24 }}>
+        <h2>What-if</h2>
+        <p>
+          Score ad-hoc vitals with the selected rule set (no API fetch). Inputs
+          sitting on a band edge, where one step changes the score, are
+          outlined.
+        </p>
+
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+          <label>
+            Blood pressure
+            <br />
+            <input
+              value={whatIfBp}
+              onChange={(e) => setWhatIfBp(e.target.value)}
+              style={{
+                width: 120,
+                ...boundaryStyle(["systolic", "diastolic"]),
+              }}
+            />
+          </label>
+          <label>
+            Temperature
+            <br />
+            <input
+              value={whatIfTemp}
+              onChange={(e) => setWhatIfTemp(e.target.value)}
+              style={{ width: 120, ...boundaryStyle(["temperature"]) }}
+            />
+          </label>
+          <label>
+            Age
+            <br />
+            <input
+              value={whatIfAge}
+              onChange={(e) => setWhatIfAge(e.target.value)}
+              style={{ width: 120, ...boundaryStyle(["age"]) }}
+            />
+          </label>
+        </div>
+
+        {whatIfError ? (
+          <p style={{ color: "crimson" }}>
+            Error: <code>{whatIfError}</code>
+          </p>
+        ) : null}
+
+        {whatIf ? (
+          <>
+            <p>
+              Total <strong>{whatIf.scores.total}</strong> (BP{" "}
+              {whatIf.scores.bp}, temp {whatIf.scores.temp}, age{" "}
+              {whatIf.scores.age}):{" "}
+              {whatIf.flags.highRisk ? "high risk" : "not high risk"}
+              {whatIf.flags.fever ? ", fever" : ""}
+              {whatIf.flags.dataQualityIssue ? ", data-quality issue" : ""}.
+            </p>
+            {whatIf.boundaries.length ? (
+              <ul>
+                {whatIf.boundaries.map((b) => (
+                  <li
+                    key={`${b.input}-${b.edge}`}
+                    style={{ color: "darkorange" }}
+                  >
+                    {b.input} {b.value} is the{" "}
+                    {b.edge === "min" ? "lowest" : "highest"} value of{" "}
+                    <code>{b.band}</code> ({b.range}); one step{" "}
+                    {b.edge === "min" ? "lower" : "higher"} leaves it.
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+            <pre style={{ whiteSpace: "pre-wrap" }}>{whatIf.text}</pre>
+          </>
+        ) : null}
+      </section>
     </main>
   );
 }
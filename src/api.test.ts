@@ -1,5 +1,6 @@
 import { describe, expect, test } from "vitest";
-import { ApiClient } from "./api";
+import { ApiClient, getAllPatientsWithMeta } from "./api";
+import type { FetchProgress } from "./api";
 
 describe("ApiClient retry behavior", () => {
   test("retries on 429 then succeeds", async () => {
@@ -64,3 +65,175 @@ describe("ApiClient retry behavior", () => {
     expect(calls).toBe(3);
   });
 });
+
+describe("getAllPatientsWithMeta concurrency", () => {
+  test("reads known pages in parallel and keeps accounting", async () => {
+    const total = 9;
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const onPageOrder: number[] = [];
+    const seen = new Set<number>();
+
+    const fetchImpl = async (input: RequestInfo | URL): Promise<Response> => {
+      const url = new URL(String(input));
+      const page = Number(url.searchParams.get("page"));
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight -= 1;
+      // Page 4 is empty on its first read only.
+      const empty = page > total || (page === 4 && !seen.has(4));
+      seen.add(page);
+      return Response.json({
+        data: empty ? [] : [{ patient_id: `P${page}` }],
+        pagination: { total, totalPages: total },
+      });
+    };
+
+    const client = new ApiClient({
+      baseUrl: "https://example.test/api",
+      apiKey: "ak_test",
+      fetchImpl,
+      sleepImpl: async () => {},
+    });
+
+    const { patients, meta } = await getAllPatientsWithMeta(client, 1, {
+      concurrency: 3,
+      sleepBetweenPagesMs: 0,
+      sleepBetweenAttemptsMs: 0,
+      onPage: (page) => onPageOrder.push(page),
+    });
+
+    expect(maxInFlight).toBe(3);
+    expect(patients).toHaveLength(total);
+    expect(meta).toMatchObject({
+      expectedTotal: total,
+      totalPages: total,
+      missingPages: [],
+      uniquePatientIds: total,
+      complete: true,
+    });
+    expect(onPageOrder.slice(0, total)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  test("stops taking pages after one page read fails", async () => {
+    const total = 30;
+    const requested: number[] = [];
+
+    const fetchImpl = async (input: RequestInfo | URL): Promise<Response> => {
+      const page = Number(new URL(String(input)).searchParams.get("page"));
+      requested.push(page);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      if (page === 3) return new Response("gone", { status: 404 });
+      return Response.json({
+        data: [{ patient_id: `P${page}` }],
+        pagination: { total, totalPages: total },
+      });
+    };
+
+    const client = new ApiClient({
+      baseUrl: "https://example.test/api",
+      apiKey: "ak_test",
+      fetchImpl,
+      sleepImpl: async () => {},
+    });
+
+    await expect(
+      getAllPatientsWithMeta(client, 1, {
+        concurrency: 3,
+        sleepBetweenPagesMs: 0,
+        sleepBetweenAttemptsMs: 0,
+      })
+    ).rejects.toThrow();
+    // Let workers still running after the rejection drain.
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    // Page 1 plus pages 2..6 at most (those already started when page 3
+    // failed), not all 30.
+    expect(requested.length).toBeLessThanOrEqual(6);
+  });
+
+  test("a 429 slows the shared limiter", async () => {
+    let calls = 0;
+    const client = new ApiClient({
+      baseUrl: "https://example.test/api",
+      apiKey: "ak_test",
+      requestsPerSecond: 8,
+      fetchImpl: async () => {
+        calls += 1;
+        return calls === 1
+          ? new Response("{}", { status: 429, headers: { "retry-after": "0" } })
+          : Response.json({ data: [] });
+      },
+      sleepImpl: async () => {},
+      minDelayMs: 1,
+    });
+
+    await client.requestJson("/patients");
+    expect(client.limiter.ratePerSec).toBe(4.8);
+  });
+});
+
+describe("getAllPatientsWithMeta resume", () => {
+  test("continues from saved progress with the same meta as a clean run", async () => {
+    const total = 10;
+    const requested: number[] = [];
+    let failPage: number | null = 8;
+
+    const client = new ApiClient({
+      baseUrl: "https://example.test/api",
+      apiKey: "ak_test",
+      fetchImpl: async (input) => {
+        const page = Number(new URL(String(input)).searchParams.get("page"));
+        requested.push(page);
+        if (page === failPage) return new Response("down", { status: 500 });
+        return Response.json({
+          data: page > total ? [] : [{ patient_id: `P${page}` }],
+          pagination: { total, totalPages: total },
+        });
+      },
+      sleepImpl: async () => {},
+      maxRetries: 0,
+    });
+    const tuning = {
+      concurrency: 1,
+      sleepBetweenPagesMs: 0,
+      sleepBetweenAttemptsMs: 0,
+    };
+
+    let saved: FetchProgress | null = null;
+    await expect(
+      getAllPatientsWithMeta(client, 1, {
+        ...tuning,
+        onProgress: (p) => (saved = structuredClone(p)),
+      })
+    ).rejects.toThrow();
+    expect(Object.keys(saved!.pages)).toEqual([
+      "1",
+      "2",
+      "3",
+      "4",
+      "5",
+      "6",
+      "7",
+    ]);
+    expect(saved!).toMatchObject({ expectedTotal: total, totalPages: total });
+
+    failPage = null;
+    requested.length = 0;
+    const resumed = await getAllPatientsWithMeta(client, 1, {
+      ...tuning,
+      resume: saved,
+      onProgress: (p) => (saved = structuredClone(p)),
+    });
+    expect(requested.filter((p) => p <= total)).toEqual([8, 9, 10]);
+    expect(Object.keys(saved!.pages)).toHaveLength(total);
+
+    const clean = await getAllPatientsWithMeta(client, 1, tuning);
+    expect(resumed.patients).toEqual(clean.patients);
+    const { breaker, retries, resumedPages, ...resumedMeta } = resumed.meta;
+    const { breaker: _b, retries: _r, ...cleanMeta } = clean.meta;
+    expect(resumedMeta).toEqual(cleanMeta);
+    expect(resumedPages).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(clean.meta.resumedPages).toBeUndefined();
+  });
+});
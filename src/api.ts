@@ -1,8 +1,34 @@
 /**
- * DemoMed API client with retries, backoff, and response normalization.
+ * DemoMed API client with retries, backoff, rate limiting, and response
+ * normalization.
  * Requires Node 18+ (global fetch).
  */
 
+import { CircuitBreaker, RetryBudget } from "./circuit-breaker";
+import type { CircuitBreakerStats } from "./circuit-breaker";
+import { chooseDuplicate, findConflict } from "./duplicates";
+import type { DuplicatePolicy, DuplicateReport } from "./duplicates";
+import {
+  ApiError,
+  AuthError,
+  MalformedResponseError,
+  RateLimitedError,
+  TimeoutError,
+  UpstreamServerError,
+  UpstreamUnavailableError,
+} from "./errors";
+import type {
+  ApiEvent,
+  ApiEventInit,
+  ApiEventListener,
+  RetryReason,
+  SleepReason,
+} from "./observability";
+import { readPatientId } from "./patient-id";
+import type { PatientIdRejection } from "./patient-id";
+import { TokenBucket } from "./rate-limit";
+import type { PatientIdRules } from "./types";
+
 export type FetchLike = (
   input: RequestInfo | URL,
   init?: RequestInit
@@ -14,15 +40,20 @@ type ApiClientOptions = {
   timeoutMs?: number;
   maxRetries?: number;
   minDelayMs?: number;
+  requestsPerSecond?: number;
+  burst?: number;
+  breakerThreshold?: number;
+  breakerCooldownMs?: number;
   fetchImpl?: FetchLike;
   sleepImpl?: (ms: number) => Promise<void>;
+  onEvent?: ApiEventListener;
 };
 
 /**
  * Promise-based sleep utility.
  *
- * Used by retry logic to wait between attempts and to introduce a small delay
- * between pagination requests.
+ * Default `sleepImpl`: used (via `ApiClient.pause(...)`) to wait between
+ * attempts, for rate-limit tokens, and between pagination requests.
  */
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
@@ -39,20 +70,58 @@ function jitter(ms: number): number {
   return Math.round(ms * rand);
 }
 
+/**
+ * Maps `items` through an async function with at most `concurrency` calls in
+ * flight. Results keep the input order.
+ *
+ * After the first rejection no worker starts another call (the result is
+ * thrown away, so more requests would only add load); calls already in
+ * flight finish.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  async function worker(): Promise<void> {
+    while (!failed && next < items.length) {
+      const i = next;
+      next += 1;
+      try {
+        results[i] = await fn(items[i]);
+      } catch (err) {
+        failed = true;
+        throw err;
+      }
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker)
+  );
+  return results;
+}
+
 /**
  * Reads and parses a JSON response body.
  *
  * - Returns `null` for empty bodies
  * - Returns parsed JSON for valid JSON
- * - Falls back to returning raw text if parsing fails
+ * - Falls back to returning raw text if parsing fails (`malformed: true`)
  */
-async function readJsonResponse(res: Response): Promise<unknown> {
+async function readJsonResponse(
+  res: Response
+): Promise<{ body: unknown; malformed: boolean }> {
   const text = await res.text();
-  if (!text) return null;
+  if (!text) return { body: null, malformed: false };
   try {
-    return JSON.parse(text);
+    return { body: JSON.parse(text), malformed: false };
   } catch {
-    return text;
+    return { body: text, malformed: true };
   }
 }
 
@@ -64,6 +133,11 @@ export class ApiClient {
   private readonly minDelayMs: number;
   private readonly fetchImpl: FetchLike;
   private readonly sleepImpl: (ms: number) => Promise<void>;
+  private readonly onEvent: ApiEventListener | null;
+  /** Shared by every request, so concurrent page reads are paced together. */
+  readonly limiter: TokenBucket;
+  /** Shared by every request; opens after consecutive upstream failures. */
+  readonly breaker: CircuitBreaker;
 
   /**
    * Creates a DemoMed API client.
@@ -73,8 +147,17 @@ export class ApiClient {
    * @param timeoutMs Per-request timeout (defaults to 15s).
    * @param maxRetries Maximum retry attempts for transient errors.
    * @param minDelayMs Initial backoff delay (will exponentially increase).
+   * @param requestsPerSecond Token-bucket rate for all requests (default 5).
+   *   Halved on every `429`, recovered gradually on success.
+   * @param burst Token-bucket size (defaults to `requestsPerSecond`).
+   * @param breakerThreshold Consecutive upstream failures (5xx, timeouts,
+   *   network errors) that open the circuit breaker (default 5).
+   * @param breakerCooldownMs How long the breaker stays open before a trial
+   *   request (default 10s).
    * @param fetchImpl Injectable fetch implementation (used for tests).
    * @param sleepImpl Injectable sleep implementation (used for tests).
+   * @param onEvent Receives request/retry/sleep events (see
+   *   `src/observability.ts` for the JSON-lines logger and metrics sinks).
    */
   constructor({
     baseUrl,
@@ -82,8 +165,13 @@ export class ApiClient {
     timeoutMs = 15000,
     maxRetries = 12,
     minDelayMs = 200,
+    requestsPerSecond = 5,
+    burst,
+    breakerThreshold = 5,
+    breakerCooldownMs = 10000,
     fetchImpl = fetch,
     sleepImpl = sleep,
+    onEvent,
   }: ApiClientOptions) {
     this.baseUrl = String(baseUrl || "").replace(/\/$/, "");
     this.apiKey = String(apiKey || "");
@@ -92,12 +180,73 @@ export class ApiClient {
     this.minDelayMs = minDelayMs;
     this.fetchImpl = fetchImpl;
     this.sleepImpl = sleepImpl;
+    this.onEvent = onEvent ?? null;
+    this.limiter = new TokenBucket({
+      ratePerSec: requestsPerSecond,
+      burst,
+      sleep: (ms) => this.pause("rate_limit", ms),
+    });
+    this.breaker = new CircuitBreaker({
+      failureThreshold: breakerThreshold,
+      cooldownMs: breakerCooldownMs,
+    });
+  }
+
+  /**
+   * Sends an event to `onEvent` (if any), stamped with the current time.
+   */
+  emit(event: ApiEventInit): void {
+    this.onEvent?.({ ...event, at: new Date().toISOString() } as ApiEvent);
+  }
+
+  /**
+   * Sleeps through the injected sleep, reporting the wait as a `sleep` event.
+   */
+  async pause(reason: SleepReason, ms: number): Promise<void> {
+    if (ms > 0) this.emit({ type: "sleep", reason, ms });
+    await this.sleepImpl(ms);
+  }
+
+  /**
+   * Allows another attempt after `lastError`, or throws.
+   *
+   * - Past `maxRetries`: rethrows `lastError`.
+   * - Retry budget spent: throws `UpstreamUnavailableError`.
+   *
+   * Emits a `retry` event when the attempt is allowed.
+   */
+  private spendRetry(
+    attempt: number,
+    lastError: ApiError,
+    reason: RetryReason,
+    retryBudget?: RetryBudget
+  ): void {
+    if (attempt > this.maxRetries) throw lastError;
+    if (retryBudget && !retryBudget.take()) {
+      throw new UpstreamUnavailableError(
+        `retry budget of ${retryBudget.limit} exhausted (last error: ${lastError.message})`,
+        this.breaker.stats(),
+        {
+          status: lastError.status,
+          attempts: attempt,
+          url: lastError.url,
+          body: lastError.body,
+        }
+      );
+    }
+    this.emit({ type: "retry", reason, url: lastError.url, attempt });
   }
 
   /**
    * Makes an HTTP request and returns `{ status, headers, body }`.
    *
    * Reliability features:
+   * - Refuses to call out while `breaker` is open (`UpstreamUnavailableError`).
+   *   5xx responses, timeouts and network errors count as failures; any other
+   *   response closes it again. With a retry budget, a refused request first
+   *   waits for the cooldown (or for another request's half-open trial), each
+   *   wait costing one retry, so concurrent page reads survive a trip.
+   * - Waits for a token from `limiter` before every attempt.
    * - Aborts requests after `timeoutMs`.
    * - Retries with exponential backoff + jitter.
    * - Retries transient server errors (`500`, `503`).
@@ -105,27 +254,63 @@ export class ApiClient {
    *   - `Retry-After` header when present
    *   - JSON fields like `retry_after` / `retryAfter` when present
    *   - otherwise falls back to backoff.
+   *   The wait is applied to the shared limiter (which also halves its
+   *   rate), so concurrent requests back off together.
+   *
+   * Other `4xx` responses are not retried.
+   *
+   * Failures are typed (see `src/errors.ts`): `AuthError` (401/403),
+   * `RateLimitedError`, `UpstreamServerError` (5xx or network error),
+   * `TimeoutError`, `MalformedResponseError` (2xx with a non-JSON body, retried
+   * like a 5xx), `UpstreamUnavailableError`, or a plain `ApiError` for any
+   * other status.
    *
    * @param path API path beginning with `/`.
    * @param init Fetch init options.
+   * @param opts.retryBudget Shared budget that every retry draws from.
    */
   async requestJson(
     path: string,
-    init: RequestInit = {}
+    init: RequestInit = {},
+    opts: { retryBudget?: RetryBudget } = {}
   ): Promise<{ status: number; headers: Headers; body: unknown }> {
     const url = `${this.baseUrl}${path}`;
+    const method = init.method ?? "GET";
 
     let attempt = 0;
     let backoffMs = this.minDelayMs;
 
     while (true) {
       attempt += 1;
+      if (!this.breaker.allowRequest()) {
+        const b = this.breaker.stats();
+        const refused = new UpstreamUnavailableError(
+          `circuit breaker is ${b.state} after ${b.consecutiveFailures} consecutive failures`,
+          b,
+          { attempts: attempt - 1, url }
+        );
+        if (attempt > this.maxRetries || !opts.retryBudget?.take())
+          throw refused;
+        this.emit({ type: "retry", reason: "circuit_open", url, attempt });
+        await this.pause(
+          "circuit_open",
+          Math.max(this.breaker.msUntilTrial(), jitter(backoffMs))
+        );
+        backoffMs = Math.min(backoffMs * 2, 8000);
+        continue;
+      }
+      await this.limiter.take();
+      const startedAt = Date.now();
+      this.emit({ type: "request:start", method, url, attempt });
 
       const controller = new AbortController();
       const timer = setTimeout(() => controller.abort(), this.timeoutMs);
 
+      let res: Response;
+      let body: unknown;
+      let malformed: boolean;
       try {
-        const res = await this.fetchImpl(url, {
+        res = await this.fetchImpl(url, {
           ...init,
           signal: controller.signal,
           headers: {
@@ -134,82 +319,152 @@ export class ApiClient {
             accept: "application/json",
           },
         });
+        ({ body, malformed } = await readJsonResponse(res));
+      } catch (err: any) {
+        // timeouts + network errors
+        clearTimeout(timer);
+        const timedOut = controller.signal.aborted;
+        this.emit({
+          type: "request:end",
+          method,
+          url,
+          attempt,
+          status: null,
+          durationMs: Date.now() - startedAt,
+          error: timedOut ? "timeout" : String(err?.message || err),
+        });
+        this.breaker.recordFailure();
+        this.spendRetry(
+          attempt,
+          timedOut
+            ? new TimeoutError(
+                `Request timed out after ${this.timeoutMs}ms: ${url}`,
+                { attempts: attempt, url }
+              )
+            : new UpstreamServerError(
+                `Network error: ${err?.message || err} (${url})`,
+                { attempts: attempt, url }
+              ),
+          timedOut ? "timeout" : "network",
+          opts.retryBudget
+        );
+        await this.pause("backoff", jitter(backoffMs));
+        backoffMs = Math.min(backoffMs * 2, 8000);
+        continue;
+      }
+      clearTimeout(timer);
+      this.emit({
+        type: "request:end",
+        method,
+        url,
+        attempt,
+        status: res.status,
+        durationMs: Date.now() - startedAt,
+      });
 
-        const body = await readJsonResponse(res);
+      if (res.status >= 500) this.breaker.recordFailure();
+      else this.breaker.recordSuccess();
 
-        if (res.ok) {
-          clearTimeout(timer);
-          return { status: res.status, headers: res.headers, body };
-        }
+      const details = { status: res.status, attempts: attempt, url, body };
 
-        // 429 rate limiting
-        if (res.status === 429) {
-          const retryAfterHeader = res.headers.get("retry-after");
-          const retryAfterSecondsFromHeader = retryAfterHeader
-            ? Number.parseInt(retryAfterHeader, 10)
-            : NaN;
+      if (res.ok && malformed) {
+        this.spendRetry(
+          attempt,
+          new MalformedResponseError(
+            `HTTP ${res.status} with a body that is not JSON: ${String(
+              body
+            ).slice(0, 200)}`,
+            details
+          ),
+          "malformed",
+          opts.retryBudget
+        );
+        await this.pause("backoff", jitter(backoffMs));
+        backoffMs = Math.min(backoffMs * 2, 8000);
+        continue;
+      }
+
+      if (res.ok) {
+        this.limiter.reward();
+        return { status: res.status, headers: res.headers, body };
+      }
+
+      const msg = typeof body === "string" ? body : JSON.stringify(body);
+
+      if (res.status === 401 || res.status === 403) {
+        throw new AuthError(
+          `HTTP ${res.status} ${res.statusText}: ${msg}`,
+          details
+        );
+      }
+
+      // 429 rate limiting
+      if (res.status === 429) {
+        const retryAfterHeader = res.headers.get("retry-after");
+        const retryAfterSecondsFromHeader = retryAfterHeader
+          ? Number.parseInt(retryAfterHeader, 10)
+          : NaN;
 
-          const retryAfterSecondsFromBody =
-            body && typeof body === "object"
-              ? Number.parseInt(
-                  String(
-                    (body as any).retry_after ??
-                      (body as any).retryAfter ??
-                      (body as any).retryAfterSeconds ??
-                      ""
-                  ),
-                  10
-                )
-              : NaN;
-
-          const retryAfterSeconds = Number.isFinite(retryAfterSecondsFromHeader)
-            ? retryAfterSecondsFromHeader
-            : Number.isFinite(retryAfterSecondsFromBody)
-            ? retryAfterSecondsFromBody
+        const retryAfterSecondsFromBody =
+          body && typeof body === "object"
+            ? Number.parseInt(
+                String(
+                  (body as any).retry_after ??
+                    (body as any).retryAfter ??
+                    (body as any).retryAfterSeconds ??
+                    ""
+                ),
+                10
+              )
             : NaN;
 
-          const waitMs = Number.isFinite(retryAfterSeconds)
-            ? Math.max(retryAfterSeconds, 0) * 1000
-            : backoffMs;
-
-          if (attempt <= this.maxRetries) {
-            clearTimeout(timer);
-            await this.sleepImpl(jitter(Math.max(waitMs, backoffMs)));
-            backoffMs = Math.min(backoffMs * 2, 8000);
-            continue;
-          }
-
-          clearTimeout(timer);
-          const msg = typeof body === "string" ? body : JSON.stringify(body);
-          const extra = Number.isFinite(retryAfterSeconds)
-            ? ` (suggested wait: ${retryAfterSeconds}s)`
-            : "";
-          throw new Error(`HTTP 429 Too Many Requests${extra}: ${msg}`);
-        }
+        const retryAfterSeconds = Number.isFinite(retryAfterSecondsFromHeader)
+          ? retryAfterSecondsFromHeader
+          : Number.isFinite(retryAfterSecondsFromBody)
+          ? retryAfterSecondsFromBody
+          : NaN;
 
-        // transient server failures
-        if (
-          (res.status === 500 || res.status === 503) &&
-          attempt <= this.maxRetries
-        ) {
-          clearTimeout(timer);
-          await this.sleepImpl(jitter(backoffMs));
-          backoffMs = Math.min(backoffMs * 2, 8000);
-          continue;
-        }
+        const waitMs = Number.isFinite(retryAfterSeconds)
+          ? Math.max(retryAfterSeconds, 0) * 1000
+          : backoffMs;
 
-        clearTimeout(timer);
-        const msg = typeof body === "string" ? body : JSON.stringify(body);
-        throw new Error(`HTTP ${res.status} ${res.statusText}: ${msg}`);
-      } catch (err) {
-        clearTimeout(timer);
-        if (attempt <= this.maxRetries) {
-          await this.sleepImpl(jitter(backoffMs));
-          backoffMs = Math.min(backoffMs * 2, 8000);
-          continue;
-        }
-        throw err;
+        this.limiter.penalize(jitter(Math.max(waitMs, backoffMs)));
+        const extra = Number.isFinite(retryAfterSeconds)
+          ? ` (suggested wait: ${retryAfterSeconds}s)`
+          : "";
+        this.spendRetry(
+          attempt,
+          new RateLimitedError(`HTTP 429 Too Many Requests${extra}: ${msg}`, {
+            ...details,
+            retryAfterSeconds: Number.isFinite(retryAfterSeconds)
+              ? retryAfterSeconds
+              : null,
+          }),
+          "rate_limited",
+          opts.retryBudget
+        );
+        backoffMs = Math.min(backoffMs * 2, 8000);
+        continue;
       }
+
+      if (res.status >= 500) {
+        const error = new UpstreamServerError(
+          `HTTP ${res.status} ${res.statusText}: ${msg}`,
+          details
+        );
+
+        // transient server failures
+        if (res.status !== 500 && res.status !== 503) throw error;
+        this.spendRetry(attempt, error, "server_error", opts.retryBudget);
+        await this.pause("backoff", jitter(backoffMs));
+        backoffMs = Math.min(backoffMs * 2, 8000);
+        continue;
+      }
+
+      throw new ApiError(
+        `HTTP ${res.status} ${res.statusText}: ${msg}`,
+        details
+      );
     }
   }
 
@@ -218,15 +473,23 @@ export class ApiClient {
    *
    * The upstream API may return a variety of shapes; this returns the raw body.
    * Downstream code uses `normalizePatientsData(...)` to extract patient rows.
+   *
+   * @param opts.retryBudget Passed through to `requestJson(...)`.
    */
-  async getPatientsPage(page: number, limit: number): Promise<unknown> {
+  async getPatientsPage(
+    page: number,
+    limit: number,
+    opts: { retryBudget?: RetryBudget } = {}
+  ): Promise<unknown> {
     const path = `/patients?page=${encodeURIComponent(
       String(page)
     )}&limit=${encodeURIComponent(String(limit))}`;
-    const { body } = await this.requestJson(path, { method: "GET" });
+    const { body } = await this.requestJson(path, { method: "GET" }, opts);
 
-    if (body && typeof body === "object") return body;
+    // Check arrays first: a bare array is also `typeof "object"` and would
+    // otherwise be returned as-is and normalize to zero patients.
     if (Array.isArray(body)) return { data: body };
+    if (body && typeof body === "object") return body;
     return { data: [] };
   }
 
@@ -248,6 +511,30 @@ export class ApiClient {
   }
 }
 
+/**
+ * Which supported response shape a page body used (see
+ * `normalizePatientsData(...)`). `"none"` means no patient array was found.
+ */
+export type PatientsDataShape = "data" | "data.patients" | "patients" | "none";
+
+/**
+ * Detects the response shape of a page body.
+ *
+ * Shapes are checked in the same order `normalizePatientsData(...)` reads
+ * them, so the result names the array that was actually used.
+ */
+export function detectPatientsDataShape(resp: unknown): PatientsDataShape {
+  const r = resp as any;
+  const d = r && typeof r === "object" ? r.data : undefined;
+
+  if (Array.isArray(d)) return "data";
+  if (d && typeof d === "object" && Array.isArray((d as any).patients))
+    return "data.patients";
+  if (r && typeof r === "object" && Array.isArray((r as any).patients))
+    return "patients";
+  return "none";
+}
+
 /**
  * Normalizes various possible API response shapes into a list of patient records.
  *
@@ -261,69 +548,94 @@ export function normalizePatientsData(
   resp: unknown
 ): Record<string, unknown>[] {
   const r = resp as any;
-  const d = r && typeof r === "object" ? r.data : undefined;
-
-  if (Array.isArray(d)) {
-    return d.filter((x) => x && typeof x === "object");
-  }
-
-  const maybePatients =
-    d && typeof d === "object" ? (d as any).patients : undefined;
-  if (Array.isArray(maybePatients)) {
-    return maybePatients.filter((x) => x && typeof x === "object");
-  }
+  const shape = detectPatientsDataShape(resp);
 
-  const rootPatients =
-    r && typeof r === "object" ? (r as any).patients : undefined;
-  if (Array.isArray(rootPatients)) {
-    return rootPatients.filter((x) => x && typeof x === "object");
-  }
+  const list: unknown[] =
+    shape === "data"
+      ? r.data
+      : shape === "data.patients"
+      ? r.data.patients
+      : shape === "patients"
+      ? r.patients
+      : [];
 
-  return [];
+  return list.filter((x): x is Record<string, unknown> =>
+    Boolean(x && typeof x === "object")
+  );
 }
 
 /**
- * Extracts a stable patient id from a record.
+ * How records are reduced to one per patient.
  *
- * The API is not perfectly consistent, so we accept multiple id keys.
+ * - `duplicatePolicy`: which record to keep per id (default `first`)
+ * - `patientIds`: id normalization/validation rules (default
+ *   `DEFAULT_PATIENT_ID_RULES`); ids are compared after normalization, so
+ *   `"demo001 "` and `"DEMO001"` are one patient
  */
-function getPatientIdFromRecord(p: unknown): string | null {
-  const obj = p as any;
-  const candidates = [obj?.patient_id, obj?.patientId, obj?.id, obj?.patientID];
-  for (const c of candidates) {
-    if (typeof c === "string" && c.trim()) return c.trim();
-  }
-  return null;
-}
+export type DedupeOptions = {
+  duplicatePolicy?: DuplicatePolicy;
+  patientIds?: PatientIdRules;
+};
 
 /**
  * Deduplicates patient records by patient id.
  *
- * - Keeps the first record for a given id.
+ * - Keeps one record per normalized id, chosen by `opts.duplicatePolicy`
+ *   (default `first`: the first record read; see `DUPLICATE_POLICIES`).
+ * - Reports copies that disagree on BP, temperature or age as conflicts.
  * - Returns records in deterministic order (sorted by patient id).
- * - Appends any records that have no id at the end.
+ * - Appends records without a valid id at the end (the scorer skips them) and
+ *   reports why each was rejected.
  */
-function dedupeByPatientId(patients: Record<string, unknown>[]): {
+export function dedupeByPatientId(
+  patients: Record<string, unknown>[],
+  opts: DedupeOptions = {}
+): {
   patients: Record<string, unknown>[];
   uniquePatientIds: number;
+  duplicates: DuplicateReport;
+  rejectedIds: PatientIdRejection[];
 } {
-  const byId = new Map<string, Record<string, unknown>>();
+  const policy = opts.duplicatePolicy ?? "first";
+  const byId = new Map<string, Record<string, unknown>[]>();
   const noId: Record<string, unknown>[] = [];
+  const rejectedIds: PatientIdRejection[] = [];
 
   for (const p of patients) {
-    const id = getPatientIdFromRecord(p);
-    if (!id) {
+    const read = readPatientId(p, opts.patientIds);
+    if (read.id === null) {
       noId.push(p);
+      rejectedIds.push(read.rejection);
       continue;
     }
-    if (!byId.has(id)) byId.set(id, p);
+    const copies = byId.get(read.id);
+    if (copies) copies.push(p);
+    else byId.set(read.id, [p]);
   }
 
+  const duplicates: DuplicateReport = {
+    policy,
+    duplicateRecords: 0,
+    conflicts: [],
+  };
   const deduped = Array.from(byId.entries())
     .sort(([a], [b]) => a.localeCompare(b))
-    .map(([, v]) => v);
+    .map(([id, copies]) => {
+      if (copies.length === 1) return copies[0];
+
+      const chosen = chooseDuplicate(copies, policy);
+      const conflict = findConflict(id, copies, chosen);
+      duplicates.duplicateRecords += copies.length - 1;
+      if (conflict) duplicates.conflicts.push(conflict);
+      return copies[chosen];
+    });
 
-  return { patients: [...deduped, ...noId], uniquePatientIds: byId.size };
+  return {
+    patients: [...deduped, ...noId],
+    uniquePatientIds: byId.size,
+    duplicates,
+    rejectedIds,
+  };
 }
 
 /**
@@ -338,6 +650,52 @@ export type PatientsFetchMeta = {
   missingPages: number[];
   uniquePatientIds: number;
   complete: boolean;
+  /**
+   * Client circuit breaker state when the fetch finished. Absent in
+   * snapshots saved before it was tracked.
+   */
+  breaker?: CircuitBreakerStats;
+  /** Retries drawn from the fetch's retry budget (absent in older snapshots). */
+  retries?: { spent: number; budget: number };
+  /**
+   * Which `PatientSource` produced the patients (see `src/sources.ts`).
+   * Absent for plain `getAllPatientsWithMeta(...)` calls and older snapshots.
+   */
+  source?: { kind: "api" | "json" | "ndjson" | "csv"; location: string };
+  /**
+   * Records sharing a patient id: the policy that picked one, how many were
+   * dropped and which disagreed on BP/temperature/age. Absent in older
+   * snapshots.
+   */
+  duplicates?: DuplicateReport;
+  /** Records dropped for a missing or invalid patient id, with the reason. */
+  rejectedIds?: PatientIdRejection[];
+  /**
+   * Pages taken from `opts.resume` instead of the API (only set on resumed
+   * fetches).
+   */
+  resumedPages?: number[];
+};
+
+/**
+ * Progress of a paginated fetch, reported after every page read so a fetch
+ * that fails part-way can be resumed (see `src/checkpoint.ts`).
+ */
+export type FetchProgress = {
+  /** Raw bodies of the pages that came back non-empty, by page number. */
+  pages: Record<string, unknown>;
+  expectedTotal: number | null;
+  totalPages: number | null;
+  /** Pages that stayed empty after every attempt (re-read on resume). */
+  missingPages: number[];
+};
+
+/**
+ * Resume/progress hooks of `getAllPatientsWithMeta(...)`.
+ */
+export type FetchResumeOptions = {
+  resume?: FetchProgress | null;
+  onProgress?: (progress: FetchProgress) => void;
 };
 
 /**
@@ -346,12 +704,35 @@ export type PatientsFetchMeta = {
  *
  * Design goals:
  * - Be resilient to empty/flaky pages (retry page reads multiple times).
+ * - Once page 1 reports `totalPages`, read pages 2..totalPages with bounded
+ *   concurrency. Pacing comes from the client's rate limiter; results are
+ *   still applied in page order, so accounting matches a sequential walk.
  * - Avoid stopping too early when pagination metadata is missing/inconsistent.
  * - Provide a `complete` signal so callers can refuse to submit partial data.
+ * - Fail fast when the upstream is down: every HTTP retry and empty-page
+ *   re-read within the expected pages draws from one retry budget, and the
+ *   client's circuit breaker refuses calls after repeated failures. Both throw
+ *   `UpstreamUnavailableError`.
  *
  * @param client ApiClient to use for HTTP.
  * @param limit Page size (capped to 1..20 by callers).
  * @param opts Tuning knobs primarily used for testing.
+ * @param opts.retryBudget Retries allowed across the whole fetch (default 50).
+ * @param opts.concurrency Parallel page reads once `totalPages` is known
+ *   (default 4, capped to 1..10).
+ * Emits `fetch:start` / `fetch:end` and `empty_page` retries through the
+ * client's `onEvent` hook.
+ *
+ * @param opts.onPage Called with the raw body of every page read that the
+ *   fetch keeps (used to write offline snapshots).
+ * @param opts.duplicatePolicy Which record to keep when pages (or recovery
+ *   re-reads) return several for one patient id (default `first`).
+ * @param opts.patientIds Patient id normalization/validation rules.
+ * @param opts.resume Progress of an earlier, failed fetch: its saved pages
+ *   are used instead of reading them again. They still go through the same
+ *   page accounting, so `meta` means the same as after a clean run.
+ * @param opts.onProgress Called after every page read that changed the
+ *   progress (saved pages include the resumed ones).
  */
 export async function getAllPatientsWithMeta(
   client: ApiClient,
@@ -361,7 +742,12 @@ export async function getAllPatientsWithMeta(
     maxTotalPages?: number;
     sleepBetweenPagesMs?: number;
     sleepBetweenAttemptsMs?: number;
-  } = {}
+    concurrency?: number;
+    retryBudget?: number;
+    onPage?: (page: number, body: unknown) => void;
+    duplicatePolicy?: DuplicatePolicy;
+    patientIds?: PatientIdRules;
+  } & FetchResumeOptions = {}
 ): Promise<{ patients: Record<string, unknown>[]; meta: PatientsFetchMeta }> {
   const maxPageAttempts = Math.min(Math.max(opts.maxPageAttempts ?? 5, 1), 12);
   const maxTotalPages = Math.min(Math.max(opts.maxTotalPages ?? 200, 1), 500);
@@ -373,22 +759,63 @@ export async function getAllPatientsWithMeta(
     Math.max(opts.sleepBetweenAttemptsMs ?? 250, 0),
     5000
   );
+  const concurrency = Math.min(Math.max(opts.concurrency ?? 4, 1), 10);
+  const retryBudget = new RetryBudget(opts.retryBudget ?? 50);
+  const fetchStartedAt = Date.now();
+  let pageReads = 0;
+  client.emit({ type: "fetch:start", limit });
 
   /**
    * Fetches one page and returns normalized patient records.
    * Retries the same page several times if it comes back empty.
+   *
+   * Re-reads draw from the retry budget, except for pages past a known
+   * `totalPages` (probing there is expected to come back empty).
    */
   async function fetchNormalizedPage(page: number): Promise<{
     patients: Record<string, unknown>[];
     resp: any;
   }> {
+    const saved = opts.resume?.pages[String(page)];
+    if (saved !== undefined) {
+      const patients = normalizePatientsData(saved);
+      if (patients.length > 0) {
+        resumedPages.add(page);
+        return { patients, resp: saved };
+      }
+    }
+
     let lastResp: any = null;
     for (let attempt = 1; attempt <= maxPageAttempts; attempt += 1) {
-      const resp: any = await client.getPatientsPage(page, limit);
+      const probing = totalPages !== null && page > totalPages;
+      if (attempt > 1 && !probing && !retryBudget.take()) {
+        throw new UpstreamUnavailableError(
+          `retry budget of ${retryBudget.limit} exhausted (page ${page} kept coming back empty)`,
+          client.breaker.stats(),
+          { attempts: attempt - 1 }
+        );
+      }
+      if (attempt > 1) {
+        client.emit({
+          type: "retry",
+          reason: "empty_page",
+          url: null,
+          page,
+          attempt: attempt - 1,
+        });
+      }
+      const resp: any = await client.getPatientsPage(page, limit, {
+        retryBudget,
+      });
+      pageReads += 1;
       lastResp = resp;
       const patients = normalizePatientsData(resp);
-      if (patients.length > 0) return { patients, resp };
-      await sleep(sleepBetweenAttemptsMs * attempt);
+      if (patients.length > 0) {
+        progressPages[String(page)] = resp;
+        reportProgress();
+        return { patients, resp };
+      }
+      await client.pause("empty_page", sleepBetweenAttemptsMs * attempt);
     }
 
     return {
@@ -406,6 +833,37 @@ export async function getAllPatientsWithMeta(
   let expectedTotal: number | null = null;
   let totalPages: number | null = null;
 
+  const progressPages: Record<string, unknown> = {
+    ...(opts.resume?.pages ?? {}),
+  };
+  const resumedPages = new Set<number>();
+
+  /**
+   * Reports the current progress to `opts.onProgress`.
+   */
+  function reportProgress(): void {
+    opts.onProgress?.({
+      pages: progressPages,
+      expectedTotal,
+      totalPages,
+      missingPages: missingWithinExpectedRange(),
+    });
+  }
+
+  /**
+   * Missing pages within `1..totalPages` (all of them while it is unknown),
+   * sorted and without repeats. Probes past the end don't count.
+   */
+  function missingWithinExpectedRange(): number[] {
+    const uniqueMissing = Array.from(new Set(missingPages));
+    const tp = totalPages;
+    return (
+      tp === null
+        ? uniqueMissing
+        : uniqueMissing.filter((p) => p >= 1 && p <= tp)
+    ).sort((a, b) => a - b);
+  }
+
   /**
    * Parses an integer-ish value from unknown API metadata fields.
    * Returns null if parsing fails.
@@ -448,7 +906,7 @@ export async function getAllPatientsWithMeta(
   function countNewIds(patients: Record<string, unknown>[]): number {
     let added = 0;
     for (const p of patients) {
-      const id = getPatientIdFromRecord(p);
+      const { id } = readPatientId(p, opts.patientIds);
       if (!id) continue;
       if (!seenIds.has(id)) {
         seenIds.add(id);
@@ -458,29 +916,34 @@ export async function getAllPatientsWithMeta(
     return added;
   }
 
-  // First page read to determine totalPages/total.
-  const first = await fetchNormalizedPage(1);
-  maxPageFetched = Math.max(maxPageFetched, 1);
-  if (first.patients.length === 0) missingPages.push(1);
-  out.push(...first.patients);
-  learnPagination(first.resp);
-  countNewIds(first.patients);
-
   // Completion heuristic: stop after N pages that add 0 new unique IDs.
   // This helps when pagination metadata is missing or inconsistent.
   const maxNoNewIdPages = 5;
-  let noNewIdPagesInARow = first.patients.length === 0 ? 1 : 0;
-  let page = 2;
+  let noNewIdPagesInARow = 0;
 
-  for (let guard = 0; guard < maxTotalPages; guard += 1) {
-    const { patients, resp } = await fetchNormalizedPage(page);
+  /**
+   * Records one page read (in page order) and reports whether the completion
+   * heuristic says we can stop.
+   */
+  function applyPage(
+    page: number,
+    read: { patients: Record<string, unknown>[]; resp: any }
+  ): boolean {
+    opts.onPage?.(page, read.resp);
     maxPageFetched = Math.max(maxPageFetched, page);
-    learnPagination(resp);
+    const learned = `${expectedTotal}/${totalPages}`;
+    learnPagination(read.resp);
 
-    if (patients.length === 0) missingPages.push(page);
-    out.push(...patients);
+    if (read.patients.length === 0) missingPages.push(page);
+    out.push(...read.patients);
+    if (
+      read.patients.length === 0 ||
+      `${expectedTotal}/${totalPages}` !== learned
+    ) {
+      reportProgress();
+    }
 
-    const newIds = countNewIds(patients);
+    const newIds = countNewIds(read.patients);
     if (newIds === 0) noNewIdPagesInARow += 1;
     else noNewIdPagesInARow = 0;
 
@@ -489,13 +952,42 @@ export async function getAllPatientsWithMeta(
     const pastExpectedEnd =
       totalPages !== null ? page >= totalPages : page >= 10;
 
-    if (noNewIdPagesInARow >= maxNoNewIdPages && pastExpectedEnd) {
+    return noNewIdPagesInARow >= maxNoNewIdPages && pastExpectedEnd;
+  }
+
+  // First page read to determine totalPages/total.
+  const first = await fetchNormalizedPage(1);
+  applyPage(1, first);
+  noNewIdPagesInARow = first.patients.length === 0 ? 1 : 0;
+  let page = 2;
+  let guard = 0;
+
+  // Known page count: read the rest concurrently, then apply in order.
+  const knownPages: number | null = totalPages;
+  if (knownPages !== null && knownPages >= 2) {
+    const pages = Array.from({ length: knownPages - 1 }, (_, i) => i + 2);
+    const reads = await mapWithConcurrency(
+      pages,
+      concurrency,
+      fetchNormalizedPage
+    );
+    for (let i = 0; i < pages.length; i += 1) {
+      if (applyPage(pages[i], reads[i])) completeByHeuristic = true;
+    }
+    page = knownPages + 1;
+    guard = pages.length;
+  }
+
+  // Unknown page count (or probing past it): walk sequentially.
+  for (; !completeByHeuristic && guard < maxTotalPages; guard += 1) {
+    const read = await fetchNormalizedPage(page);
+    if (applyPage(page, read)) {
       completeByHeuristic = true;
       break;
     }
 
     page += 1;
-    await sleep(sleepBetweenPagesMs);
+    await client.pause("page", sleepBetweenPagesMs);
   }
 
   // If totalPages is known and we still have missing pages, do recovery passes.
@@ -505,16 +997,18 @@ export async function getAllPatientsWithMeta(
       for (const missingPage of missingPages) {
         // Don't waste time recovering pages beyond totalPages.
         if (missingPage > totalPages) continue;
-        const { patients } = await fetchNormalizedPage(missingPage);
+        const { patients, resp } = await fetchNormalizedPage(missingPage);
+        opts.onPage?.(missingPage, resp);
         maxPageFetched = Math.max(maxPageFetched, missingPage);
         if (patients.length === 0) stillMissing.push(missingPage);
         else {
           out.push(...patients);
           countNewIds(patients);
         }
-        await sleep(sleepBetweenPagesMs);
+        await client.pause("page", sleepBetweenPagesMs);
       }
       missingPages.splice(0, missingPages.length, ...stillMissing);
+      reportProgress();
     }
 
     // If we expected a fixed number of pages and none are missing after retries,
@@ -522,14 +1016,10 @@ export async function getAllPatientsWithMeta(
     if (missingPages.length === 0) completeByHeuristic = true;
   }
 
-  const deduped = dedupeByPatientId(out);
-
-  const missingWithinExpectedRange = (() => {
-    const tp = totalPages;
-    const uniqueMissing = Array.from(new Set(missingPages));
-    if (tp === null) return uniqueMissing;
-    return uniqueMissing.filter((p) => p >= 1 && p <= tp);
-  })();
+  const deduped = dedupeByPatientId(out, {
+    duplicatePolicy: opts.duplicatePolicy,
+    patientIds: opts.patientIds,
+  });
 
   // Final, conservative completeness:
   // - If expectedTotal is known, require uniquePatientIds >= expectedTotal.
@@ -539,15 +1029,30 @@ export async function getAllPatientsWithMeta(
     expectedTotal !== null
       ? deduped.uniquePatientIds >= expectedTotal
       : totalPages !== null
-      ? maxPageFetched >= totalPages && missingWithinExpectedRange.length === 0
+      ? maxPageFetched >= totalPages &&
+        missingWithinExpectedRange().length === 0
       : false;
   const meta: PatientsFetchMeta = {
     expectedTotal,
     totalPages,
-    missingPages: missingWithinExpectedRange.sort((a, b) => a - b),
+    missingPages: missingWithinExpectedRange(),
     uniquePatientIds: deduped.uniquePatientIds,
     complete,
+    breaker: client.breaker.stats(),
+    retries: { spent: retryBudget.spent, budget: retryBudget.limit },
+    duplicates: deduped.duplicates,
+    rejectedIds: deduped.rejectedIds,
   };
+  if (opts.resume) {
+    meta.resumedPages = Array.from(resumedPages).sort((a, b) => a - b);
+  }
+  client.emit({
+    type: "fetch:end",
+    durationMs: Date.now() - fetchStartedAt,
+    pageReads,
+    uniquePatientIds: meta.uniquePatientIds,
+    complete: meta.complete,
+  });
 
   return { patients: deduped.patients, meta };
 }
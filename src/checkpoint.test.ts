@@ -0,0 +1,103 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, test } from "vitest";
+import {
+  checkpointFetchOptions,
+  formatCheckpoint,
+  readCheckpoint,
+  removeCheckpoint,
+  resumableProgress,
+} from "./checkpoint";
+
+const dirs: string[] = [];
+
+/**
+ * A checkpoint path in a fresh temp directory.
+ */
+function tempPath(): string {
+  const dir = mkdtempSync(join(tmpdir(), "checkpoint-"));
+  dirs.push(dir);
+  return join(dir, "nested", "fetch-checkpoint.json");
+}
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true });
+});
+
+const target = {
+  baseUrl: "https://x.test/api",
+  limit: 10,
+  apiKeyHash: "abc123",
+};
+
+const progress = {
+  pages: { "1": { data: [{ patient_id: "P1" }] }, "2": { data: [] } },
+  expectedTotal: 30,
+  totalPages: 3,
+  missingPages: [3],
+};
+
+describe("checkpoint files", () => {
+  test("round-trips progress and keeps startedAt on resume", () => {
+    const path = tempPath();
+    expect(readCheckpoint(path)).toBeNull();
+
+    checkpointFetchOptions(path, target).onProgress(progress);
+    const first = readCheckpoint(path)!;
+    expect(first).toMatchObject({ ...target, progress });
+    expect(
+      formatCheckpoint(first, Date.parse(first.startedAt) + 5 * 60_000)
+    ).toBe(
+      `2/3 pages saved (started ${first.startedAt}, 5 min ago, missing pages: 3)`
+    );
+
+    const resumed = checkpointFetchOptions(path, target, first);
+    expect(resumed.resume).toEqual(progress);
+    resumed.onProgress({ ...progress, missingPages: [] });
+    expect(readCheckpoint(path)).toMatchObject({
+      startedAt: first.startedAt,
+      progress: { missingPages: [] },
+    });
+
+    removeCheckpoint(path);
+    expect(readCheckpoint(path)).toBeNull();
+  });
+
+  test("refuses to resume for another base URL, page size or API key", () => {
+    const path = tempPath();
+    checkpointFetchOptions(path, target).onProgress(progress);
+    const checkpoint = readCheckpoint(path)!;
+    expect(() =>
+      checkpointFetchOptions(path, { ...target, limit: 20 }, checkpoint)
+    ).toThrow(/limit 10, not https:\/\/x\.test\/api with limit 20/);
+    expect(() =>
+      checkpointFetchOptions(
+        path,
+        { ...target, apiKeyHash: "def456" },
+        checkpoint
+      )
+    ).toThrow(/different API key/);
+  });
+
+  test("refuses to resume a checkpoint older than the max age", () => {
+    const startedAt = "2024-05-01T10:00:00.000Z";
+    const checkpoint = {
+      ...target,
+      formatVersion: 2,
+      startedAt,
+      updatedAt: startedAt,
+      progress,
+    };
+    const at = (minutes: number) => Date.parse(startedAt) + minutes * 60_000;
+    expect(resumableProgress(checkpoint, target, undefined, at(59))).toBe(
+      progress
+    );
+    expect(() =>
+      resumableProgress(checkpoint, target, undefined, at(90))
+    ).toThrow(/90 min ago\), older than the 60 min limit/);
+    expect(resumableProgress(checkpoint, target, 120 * 60_000, at(90))).toBe(
+      progress
+    );
+  });
+});
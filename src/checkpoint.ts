@@ -0,0 +1,199 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import type { FetchProgress, FetchResumeOptions } from "./api";
+
+/**
+ * Bumped whenever the on-disk checkpoint shape changes incompatibly.
+ */
+export const CHECKPOINT_FORMAT_VERSION = 2;
+
+/**
+ * Default checkpoint path (`--checkpoint <file>` / `DEMOMED_CHECKPOINT`).
+ */
+export const DEFAULT_CHECKPOINT_PATH = "fetch-checkpoint.json";
+
+/**
+ * How old (since `startedAt`) a checkpoint may be and still be resumed
+ * (`--checkpoint-max-age <minutes>` / `DEMOMED_CHECKPOINT_MAX_AGE_MINUTES`).
+ * Older pages may no longer match what the API returns now.
+ */
+export const DEFAULT_CHECKPOINT_MAX_AGE_MS = 60 * 60 * 1000;
+
+/**
+ * The fetch a checkpoint belongs to: resuming needs all three to match.
+ */
+export type CheckpointTarget = {
+  baseUrl: string;
+  limit: number;
+  /** `hashApiKey(apiKey)`; the key itself is never written. */
+  apiKeyHash: string;
+};
+
+/**
+ * A fetch in progress: the pages read so far and what the API said about
+ * pagination, for the base URL, page size and API key it was fetched with.
+ */
+export type FetchCheckpoint = CheckpointTarget & {
+  formatVersion: number;
+  startedAt: string;
+  updatedAt: string;
+  progress: FetchProgress;
+};
+
+/**
+ * Reads a checkpoint file (`null` when there is none).
+ *
+ * Throws when the file isn't JSON or has an unsupported `formatVersion`.
+ */
+export function readCheckpoint(path: string): FetchCheckpoint | null {
+  if (!existsSync(path)) return null;
+
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err: any) {
+    throw new Error(
+      `Failed to read checkpoint ${path}: ${err?.message || err}`
+    );
+  }
+
+  if (
+    !raw ||
+    typeof raw !== "object" ||
+    typeof raw.progress?.pages !== "object"
+  ) {
+    throw new Error(`Invalid checkpoint ${path}: missing progress`);
+  }
+  if (raw.formatVersion !== CHECKPOINT_FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported checkpoint format ${raw.formatVersion} in ${path} (expected ${CHECKPOINT_FORMAT_VERSION})`
+    );
+  }
+  return raw as FetchCheckpoint;
+}
+
+/**
+ * Writes a checkpoint, creating parent directories.
+ *
+ * The file is replaced atomically (write + rename), so a run killed mid-write
+ * leaves the previous checkpoint intact.
+ */
+export function writeCheckpoint(
+  path: string,
+  checkpoint: FetchCheckpoint
+): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, JSON.stringify(checkpoint), "utf8");
+  renameSync(tmp, path);
+}
+
+/**
+ * Deletes a checkpoint file (no-op when it doesn't exist).
+ */
+export function removeCheckpoint(path: string): void {
+  rmSync(path, { force: true });
+}
+
+/**
+ * Minutes since the checkpoint's fetch started (rounded down).
+ */
+function ageMinutes(checkpoint: FetchCheckpoint, now: number): number {
+  return Math.floor((now - Date.parse(checkpoint.startedAt)) / 60_000);
+}
+
+/**
+ * The progress to resume for this fetch.
+ *
+ * Throws when the checkpoint came from a different base URL, page size or
+ * API key (its pages would not line up with, or not belong to, this fetch),
+ * or when it is older than `maxAgeMs` (its pages may be stale).
+ */
+export function resumableProgress(
+  checkpoint: FetchCheckpoint,
+  target: CheckpointTarget,
+  maxAgeMs = DEFAULT_CHECKPOINT_MAX_AGE_MS,
+  now = Date.now()
+): FetchProgress {
+  const { baseUrl, limit } = target;
+  if (checkpoint.baseUrl !== baseUrl || checkpoint.limit !== limit) {
+    throw new Error(
+      `Checkpoint was written for ${checkpoint.baseUrl} with limit ${checkpoint.limit}, not ${baseUrl} with limit ${limit}; rerun without --resume to start over.`
+    );
+  }
+  if (checkpoint.apiKeyHash !== target.apiKeyHash) {
+    throw new Error(
+      "Checkpoint was written with a different API key; rerun without --resume to start over."
+    );
+  }
+  const started = Date.parse(checkpoint.startedAt);
+  if (Number.isNaN(started) || now - started > maxAgeMs) {
+    throw new Error(
+      `Checkpoint started ${checkpoint.startedAt} (${ageMinutes(
+        checkpoint,
+        now
+      )} min ago), older than the ${Math.round(
+        maxAgeMs / 60_000
+      )} min limit; rerun without --resume to start over.`
+    );
+  }
+  return checkpoint.progress;
+}
+
+/**
+ * `fetchWithSnapshot(...)` options that save progress to `path` after every
+ * page (and resume from `resume` when given).
+ *
+ * @param resume checkpoint to continue (its `startedAt` is kept)
+ * @param maxAgeMs oldest `resume` accepted (see `resumableProgress`)
+ */
+export function checkpointFetchOptions(
+  path: string,
+  target: CheckpointTarget,
+  resume: FetchCheckpoint | null = null,
+  maxAgeMs = DEFAULT_CHECKPOINT_MAX_AGE_MS
+): Required<FetchResumeOptions> {
+  const startedAt = resume?.startedAt ?? new Date().toISOString();
+  return {
+    resume: resume ? resumableProgress(resume, target, maxAgeMs) : null,
+    onProgress: (progress) =>
+      writeCheckpoint(path, {
+        formatVersion: CHECKPOINT_FORMAT_VERSION,
+        baseUrl: target.baseUrl,
+        limit: target.limit,
+        apiKeyHash: target.apiKeyHash,
+        startedAt,
+        updatedAt: new Date().toISOString(),
+        progress,
+      }),
+  };
+}
+
+/**
+ * One-line summary, e.g.
+ * `7/10 pages saved (started 2024-05-01T10:00:00.000Z, 12 min ago, missing pages: 4)`.
+ */
+export function formatCheckpoint(
+  checkpoint: FetchCheckpoint,
+  now = Date.now()
+): string {
+  const { pages, totalPages, missingPages } = checkpoint.progress;
+  const saved = Object.keys(pages).length;
+  const missing =
+    missingPages.length > 0
+      ? `, missing pages: ${missingPages.join(", ")}`
+      : "";
+  return `${saved}${
+    totalPages !== null ? `/${totalPages}` : ""
+  } pages saved (started ${checkpoint.startedAt}, ${ageMinutes(
+    checkpoint,
+    now
+  )} min ago${missing})`;
+}
@@ -0,0 +1,186 @@
+import { describe, expect, test } from "vitest";
+import { ApiClient, getAllPatientsWithMeta } from "./api";
+import { CircuitBreaker, RetryBudget } from "./circuit-breaker";
+import { UpstreamUnavailableError } from "./errors";
+
+describe("CircuitBreaker", () => {
+  test("opens after consecutive failures, half-opens after cooldown", () => {
+    let now = 0;
+    const b = new CircuitBreaker({
+      failureThreshold: 3,
+      cooldownMs: 1000,
+      now: () => now,
+    });
+
+    b.recordFailure();
+    b.recordFailure();
+    expect(b.allowRequest()).toBe(true);
+    b.recordFailure();
+    expect(b.stats()).toMatchObject({ state: "open", trips: 1 });
+    expect(b.allowRequest()).toBe(false);
+
+    now = 1000;
+    expect(b.allowRequest()).toBe(true);
+    expect(b.stats().state).toBe("half-open");
+    // only one trial at a time
+    expect(b.allowRequest()).toBe(false);
+
+    b.recordFailure();
+    expect(b.stats()).toMatchObject({ state: "open", trips: 2 });
+
+    now = 2000;
+    expect(b.allowRequest()).toBe(true);
+    b.recordSuccess();
+    expect(b.stats()).toMatchObject({
+      state: "closed",
+      consecutiveFailures: 0,
+      openedAt: null,
+    });
+  });
+
+  test("a success resets the failure count", () => {
+    const b = new CircuitBreaker({ failureThreshold: 2 });
+    b.recordFailure();
+    b.recordSuccess();
+    b.recordFailure();
+    expect(b.stats().state).toBe("closed");
+  });
+});
+
+describe("RetryBudget", () => {
+  test("hands out at most `limit` retries", () => {
+    const budget = new RetryBudget(2);
+    expect([budget.take(), budget.take(), budget.take()]).toEqual([
+      true,
+      true,
+      false,
+    ]);
+    expect(budget.spent).toBe(2);
+  });
+});
+
+describe("ApiClient against a dead upstream", () => {
+  test("the breaker stops a fetch after a handful of calls", async () => {
+    let calls = 0;
+    const client = new ApiClient({
+      baseUrl: "https://example.test/api",
+      apiKey: "ak_test",
+      fetchImpl: async () => {
+        calls += 1;
+        return new Response("down", { status: 503 });
+      },
+      sleepImpl: async () => {},
+      breakerThreshold: 4,
+    });
+
+    const err = await getAllPatientsWithMeta(client, 20).catch((e) => e);
+    expect(err).toBeInstanceOf(UpstreamUnavailableError);
+    expect(err.message).toMatch(
+      /^Upstream unavailable: circuit breaker is open/
+    );
+    expect(err.breaker.state).toBe("open");
+    expect(calls).toBe(4);
+  });
+
+  test("concurrent page reads wait out a trip instead of failing", async () => {
+    const failed = new Set<number>();
+    const client = new ApiClient({
+      baseUrl: "https://example.test/api",
+      apiKey: "ak_test",
+      fetchImpl: async (input) => {
+        const page = Number(new URL(String(input)).searchParams.get("page"));
+        // The first reads of pages 2 and 3 fail fast, tripping a threshold-2
+        // breaker; their retries find it open.
+        if ((page === 2 || page === 3) && !failed.has(page)) {
+          failed.add(page);
+          return new Response("flaky", { status: 503 });
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return Response.json({
+          data: page > 8 ? [] : [{ patient_id: `P${page}` }],
+          pagination: { total: 8, totalPages: 8 },
+        });
+      },
+      sleepImpl: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+      requestsPerSecond: 1000,
+      minDelayMs: 1,
+      breakerThreshold: 2,
+      breakerCooldownMs: 20,
+    });
+
+    const { meta } = await getAllPatientsWithMeta(client, 1, {
+      concurrency: 3,
+      sleepBetweenPagesMs: 0,
+      sleepBetweenAttemptsMs: 0,
+    });
+    expect(meta.complete).toBe(true);
+    expect(meta.breaker).toMatchObject({ state: "closed", trips: 1 });
+    expect(meta.retries!.spent).toBeGreaterThan(2);
+    expect(meta.retries!.spent).toBeLessThan(50);
+  });
+
+  test("without a retry budget an open breaker refuses at once", async () => {
+    const client = new ApiClient({
+      baseUrl: "https://example.test/api",
+      apiKey: "ak_test",
+      fetchImpl: async () => new Response("down", { status: 503 }),
+      sleepImpl: async () => {},
+      maxRetries: 0,
+      breakerThreshold: 1,
+    });
+
+    await client.requestJson("/patients").catch(() => {});
+    const err = await client.requestJson("/patients").catch((e) => e);
+    expect(err).toBeInstanceOf(UpstreamUnavailableError);
+    expect(err.message).toMatch(/circuit breaker is open/);
+  });
+
+  test("the retry budget caps empty-page re-reads", async () => {
+    let calls = 0;
+    const client = new ApiClient({
+      baseUrl: "https://example.test/api",
+      apiKey: "ak_test",
+      fetchImpl: async () => {
+        calls += 1;
+        return Response.json({ data: [] });
+      },
+      sleepImpl: async () => {},
+    });
+
+    const err = await getAllPatientsWithMeta(client, 20, {
+      maxPageAttempts: 12,
+      sleepBetweenAttemptsMs: 0,
+      retryBudget: 5,
+    }).catch((e) => e);
+    expect(err).toBeInstanceOf(UpstreamUnavailableError);
+    expect(err.message).toMatch(/retry budget of 5 exhausted/);
+    expect(calls).toBe(6);
+  });
+
+  test("fetch meta reports breaker state and retries", async () => {
+    let calls = 0;
+    const client = new ApiClient({
+      baseUrl: "https://example.test/api",
+      apiKey: "ak_test",
+      fetchImpl: async () => {
+        calls += 1;
+        return calls === 1
+          ? new Response("flaky", { status: 500 })
+          : Response.json({
+              data: [{ patient_id: "P1" }],
+              pagination: { total: 1, totalPages: 1 },
+            });
+      },
+      sleepImpl: async () => {},
+    });
+
+    const { meta } = await getAllPatientsWithMeta(client, 20, {
+      sleepBetweenPagesMs: 0,
+      sleepBetweenAttemptsMs: 0,
+      maxPageAttempts: 1,
+    });
+    expect(meta.complete).toBe(true);
+    expect(meta.breaker).toMatchObject({ state: "closed", trips: 0 });
+    expect(meta.retries).toEqual({ spent: 1, budget: 50 });
+  });
+});
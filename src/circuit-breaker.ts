@@ -0,0 +1,162 @@
+/**
+ * Circuit breaker and retry budget used by `ApiClient` to stop hammering an
+ * upstream that is down.
+ *
+ * Breaker states:
+ * - `closed`: requests flow; consecutive failures are counted.
+ * - `open`: after `failureThreshold` consecutive failures, requests are
+ *   refused until `cooldownMs` has passed.
+ * - `half-open`: after the cooldown, one trial request is let through. Success
+ *   closes the breaker; failure re-opens it for another cooldown.
+ */
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Point-in-time breaker state, reported in fetch metadata and errors.
+ */
+export type CircuitBreakerStats = {
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** How many times the breaker has opened. */
+  trips: number;
+  openedAt: string | null;
+};
+
+export type CircuitBreakerOptions = {
+  failureThreshold?: number;
+  cooldownMs?: number;
+  now?: () => number;
+};
+
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly now: () => number;
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private trips = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  /**
+   * @param failureThreshold Consecutive failures that open the breaker
+   *   (default 5).
+   * @param cooldownMs Time spent open before a half-open trial (default 10s).
+   * @param now Injectable clock in ms (used for tests).
+   */
+  constructor({
+    failureThreshold = 5,
+    cooldownMs = 10000,
+    now = Date.now,
+  }: CircuitBreakerOptions = {}) {
+    this.failureThreshold = Math.max(failureThreshold, 1);
+    this.cooldownMs = Math.max(cooldownMs, 0);
+    this.now = now;
+  }
+
+  /**
+   * Asks to send a request. Returns `false` when the breaker refuses it.
+   *
+   * An open breaker whose cooldown has passed moves to `half-open` and lets
+   * exactly one caller through until that trial reports back.
+   */
+  allowRequest(): boolean {
+    if (this.state === "closed") return true;
+
+    if (
+      this.state === "open" &&
+      this.openedAt !== null &&
+      this.now() - this.openedAt >= this.cooldownMs
+    ) {
+      this.state = "half-open";
+    }
+
+    if (this.state === "half-open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Time left (ms) before an open breaker lets a trial through; `0` when
+   * closed, half-open or already cooled down.
+   */
+  msUntilTrial(): number {
+    if (this.state !== "open" || this.openedAt === null) return 0;
+    return Math.max(this.openedAt + this.cooldownMs - this.now(), 0);
+  }
+
+  /**
+   * Reports a request that reached a healthy upstream.
+   */
+  recordSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Reports an upstream failure (5xx, timeout, network error).
+   */
+  recordFailure(): void {
+    this.consecutiveFailures += 1;
+    this.trialInFlight = false;
+    if (
+      this.state === "half-open" ||
+      (this.state === "closed" &&
+        this.consecutiveFailures >= this.failureThreshold)
+    ) {
+      this.state = "open";
+      this.openedAt = this.now();
+      this.trips += 1;
+    }
+  }
+
+  /**
+   * Current state for reporting.
+   */
+  stats(): CircuitBreakerStats {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      trips: this.trips,
+      openedAt:
+        this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+    };
+  }
+}
+
+/**
+ * A fixed number of retries shared by every request in one fetch.
+ *
+ * Both HTTP retries (`requestJson`) and empty-page re-reads draw from it, so
+ * a dead upstream costs at most `limit` extra calls instead of
+ * `maxRetries × maxPageAttempts` per page.
+ */
+export class RetryBudget {
+  readonly limit: number;
+  private used = 0;
+
+  constructor(limit: number) {
+    this.limit = Math.max(limit, 0);
+  }
+
+  /**
+   * Spends one retry. Returns `false` (spending nothing) when none are left.
+   */
+  take(): boolean {
+    if (this.used >= this.limit) return false;
+    this.used += 1;
+    return true;
+  }
+
+  /**
+   * Retries spent so far.
+   */
+  get spent(): number {
+    return this.used;
+  }
+}
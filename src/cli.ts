@@ -1,10 +1,105 @@
-import { writeFileSync } from "node:fs";
-import { ApiClient, getAllPatientsWithMeta } from "./api";
+import { existsSync, writeFileSync } from "node:fs";
+import { createInterface } from "node:readline/promises";
+import { ApiClient } from "./api";
+import type {
+  DedupeOptions,
+  FetchResumeOptions,
+  PatientsFetchMeta,
+} from "./api";
 import { buildAlertLists } from "./alerts";
-import { computePatientRisk } from "./scoring";
+import {
+  DEFAULT_CHECKPOINT_MAX_AGE_MS,
+  DEFAULT_CHECKPOINT_PATH,
+  checkpointFetchOptions,
+  formatCheckpoint,
+  readCheckpoint,
+  removeCheckpoint,
+} from "./checkpoint";
+import { diffRuns, formatDiff, loadRun } from "./diff";
+import {
+  flagConflictedPatients,
+  formatDuplicateReport,
+  resolveDuplicatePolicy,
+} from "./duplicates";
+import { ApiError, exitCodeForError } from "./errors";
+import { formatRiskExplanation } from "./explain";
+import {
+  resolveOutputFormat,
+  scoredToCsv,
+  scoredToFhirBundle,
+  scoredToNdjson,
+} from "./formats";
+import type { OutputFormat } from "./formats";
+import { checkExpectations, formatViolations, loadExpectations } from "./gate";
+import {
+  DEFAULT_HISTORY_PATH,
+  appendHistory,
+  deriveAlerts,
+  formatDerivedAlerts,
+  formatPatientHistory,
+  historyPointsFor,
+  patientHistory,
+  readHistory,
+} from "./history";
+import {
+  DEFAULT_LEDGER_PATH,
+  checkSubmission,
+  findPreviousEntry,
+  formatLedger,
+  hashApiKey,
+  hashPayload,
+  readLedger,
+  submitAndRecord,
+} from "./ledger";
+import {
+  MetricsCollector,
+  combineListeners,
+  formatMetricsSummary,
+  jsonLinesLogger,
+} from "./observability";
+import {
+  formatPatientIdRejections,
+  normalizePatientId,
+  resolvePatientIdRules,
+} from "./patient-id";
+import { buildDataQualityReport, formatQualityMarkdown } from "./quality";
+import { loadRuleSet, ruleSetLabel } from "./rules";
+import {
+  DEFAULT_SCHEMA_BASELINE_PATH,
+  detectSchemaDrift,
+  formatSchemaDrift,
+  readSchemaBaseline,
+  writeSchemaBaseline,
+} from "./schema-drift";
+import { computePatientRiskDetails, resolveParseMode } from "./scoring";
+import {
+  defaultSnapshotPath,
+  patientsFromSnapshot,
+  readSnapshot,
+  writeSnapshot,
+} from "./snapshot";
+import {
+  createPatientSource,
+  parseColumnMapping,
+  parseSourceSpec,
+} from "./sources";
+import type { PatientSource } from "./sources";
+import type { PatientIdRules, ScoringOptions } from "./types";
 
 const DEFAULT_BASE_URL = "https://assessment.ksensetech.com/api";
 
+/**
+ * Where each `--format` is written when `--out` isn't given. `json` is the
+ * submission payload; the others export the scored patients (and with
+ * `--submit` the payload is still written to the `json` path).
+ */
+const DEFAULT_OUT_PATHS: Record<OutputFormat, string> = {
+  json: "alert-lists.json",
+  csv: "scored-patients.csv",
+  ndjson: "scored-patients.ndjson",
+  fhir: "risk-assessments.fhir.json",
+};
+
 /**
  * Reads a flag value from argv.
  *
@@ -25,6 +120,49 @@ function getArgValue(flag: string): string | null {
   return next && !next.startsWith("--") ? next : null;
 }
 
+/**
+ * Flags that take a value (`--rules spec`). `--log-json` and `--snapshot`
+ * are left out: their value is optional, so the next word may be positional.
+ */
+const VALUE_FLAGS = new Set([
+  "--apiKey",
+  "--baseUrl",
+  "--checkpoint",
+  "--checkpoint-max-age",
+  "--columns",
+  "--duplicates",
+  "--expectations",
+  "--format",
+  "--from-snapshot",
+  "--history",
+  "--id-case",
+  "--id-pattern",
+  "--ledger",
+  "--limit",
+  "--out",
+  "--parse-mode",
+  "--rules",
+  "--rulesB",
+  "--schema-baseline",
+  "--source",
+]);
+
+/**
+ * Positional arguments after the subcommand: flags and the values of
+ * `VALUE_FLAGS` (`diff --rulesB spec a.json b.json`) are skipped.
+ */
+function getPositionalArgs(): string[] {
+  const args = process.argv.slice(3);
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i += 1) {
+    const a = args[i];
+    if (!a.startsWith("--")) positional.push(a);
+    else if (VALUE_FLAGS.has(a) && args[i + 1] && !args[i + 1].startsWith("--"))
+      i += 1;
+  }
+  return positional;
+}
+
 /**
  * Checks whether argv includes a boolean flag.
  *
@@ -63,17 +201,237 @@ function getPositionalNumberArg(index: number): number | null {
   return Number.isFinite(n) ? n : null;
 }
 
+/**
+ * Asks a yes/no question on the terminal. Anything but "y"/"yes" is a no.
+ */
+async function confirm(question: string): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await rl.question(`${question} [y/N] `);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Ledger file location: `DEMOMED_LEDGER`, `--ledger <file>`, or
+ * `submissions.jsonl`.
+ */
+function getLedgerPath(): string {
+  return (
+    process.env.DEMOMED_LEDGER || getArgValue("--ledger") || DEFAULT_LEDGER_PATH
+  );
+}
+
+/**
+ * History file location: `DEMOMED_HISTORY`, `--history <file>`, or
+ * `history.jsonl`.
+ */
+function getHistoryPath(): string {
+  return (
+    process.env.DEMOMED_HISTORY ||
+    getArgValue("--history") ||
+    DEFAULT_HISTORY_PATH
+  );
+}
+
+/**
+ * Schema baseline location: `DEMOMED_SCHEMA_BASELINE`,
+ * `--schema-baseline <file>`, or `schema-baseline.json`.
+ */
+function getSchemaBaselinePath(): string {
+  return (
+    process.env.DEMOMED_SCHEMA_BASELINE ||
+    getArgValue("--schema-baseline") ||
+    DEFAULT_SCHEMA_BASELINE_PATH
+  );
+}
+
+/**
+ * JSON-lines event log target: `DEMOMED_LOG_JSON` or `--log-json [file]`
+ * (`1`/`stderr` for stderr, anything else is a file path). `null` when off.
+ */
+function getLogJsonTarget(): string | null {
+  const value =
+    process.env.DEMOMED_LOG_JSON ||
+    (hasFlag("--log-json") ? getArgValue("--log-json") || "stderr" : null);
+  if (!value) return null;
+  return value === "1" ? "stderr" : value;
+}
+
+/**
+ * Checkpoint file location: `DEMOMED_CHECKPOINT`, `--checkpoint <file>`, or
+ * `fetch-checkpoint.json`.
+ */
+function getCheckpointPath(): string {
+  return (
+    process.env.DEMOMED_CHECKPOINT ||
+    getArgValue("--checkpoint") ||
+    DEFAULT_CHECKPOINT_PATH
+  );
+}
+
+/**
+ * Oldest checkpoint `--resume` accepts, in ms: `DEMOMED_CHECKPOINT_MAX_AGE_MINUTES`,
+ * `--checkpoint-max-age <minutes>`, or 60 minutes.
+ */
+function getCheckpointMaxAgeMs(): number {
+  const raw =
+    process.env.DEMOMED_CHECKPOINT_MAX_AGE_MINUTES ||
+    getArgValue("--checkpoint-max-age");
+  if (!raw) return DEFAULT_CHECKPOINT_MAX_AGE_MS;
+  const minutes = Number(raw);
+  if (!Number.isFinite(minutes) || minutes <= 0) {
+    throw new Error(
+      `Invalid checkpoint max age "${raw}" (expected a positive number of minutes)`
+    );
+  }
+  return minutes * 60_000;
+}
+
+/**
+ * Fetch options that save every page read to the checkpoint file and, with
+ * `--resume` (or `DEMOMED_RESUME=1`), continue from the pages it holds.
+ */
+function getCheckpointOptions(
+  baseUrl: string,
+  limit: number,
+  apiKey: string
+): FetchResumeOptions {
+  const path = getCheckpointPath();
+  const target = { baseUrl, limit, apiKeyHash: hashApiKey(apiKey) };
+  if (!hasFlag("--resume") && !envFlag("DEMOMED_RESUME")) {
+    return checkpointFetchOptions(path, target);
+  }
+
+  const checkpoint = readCheckpoint(path);
+  if (checkpoint) {
+    console.log(
+      `Resuming from checkpoint ${path}: ${formatCheckpoint(checkpoint)}.`
+    );
+  } else {
+    console.warn(`No checkpoint at ${path}; fetching from page 1.`);
+  }
+  return checkpointFetchOptions(
+    path,
+    target,
+    checkpoint,
+    getCheckpointMaxAgeMs()
+  );
+}
+
+/**
+ * Patient source from `--source api|<file>|csv:<file>|...` or
+ * `DEMOMED_SOURCE` (default: the API), with the CSV column mapping from
+ * `--columns <file.json|field=Header,...>` or `DEMOMED_CSV_COLUMNS`.
+ *
+ * @param checkpointApiKey when set, save API pages to the checkpoint file
+ *   for this key (and honour `--resume`)
+ */
+function getPatientSource(
+  client: ApiClient,
+  baseUrl: string,
+  limit: number,
+  checkpointApiKey: string | null = null
+): PatientSource {
+  const spec = parseSourceSpec(
+    process.env.DEMOMED_SOURCE || getArgValue("--source")
+  );
+  return createPatientSource(spec, {
+    client,
+    baseUrl,
+    limit,
+    columns: parseColumnMapping(
+      process.env.DEMOMED_CSV_COLUMNS || getArgValue("--columns")
+    ),
+    dedupe: getDedupeOptions(),
+    checkpoint:
+      checkpointApiKey !== null && spec.kind === "api"
+        ? getCheckpointOptions(baseUrl, limit, checkpointApiKey)
+        : undefined,
+  });
+}
+
+/**
+ * Patient id rules: `--id-pattern <regex>` / `DEMOMED_PATIENT_ID_PATTERN`
+ * (e.g. `^DEMO\d{3}$`, default any) and `--id-case upper|lower|preserve` /
+ * `DEMOMED_PATIENT_ID_CASE` (default `upper`).
+ */
+function getPatientIdRules(): PatientIdRules {
+  return resolvePatientIdRules(
+    process.env.DEMOMED_PATIENT_ID_PATTERN || getArgValue("--id-pattern"),
+    process.env.DEMOMED_PATIENT_ID_CASE || getArgValue("--id-case")
+  );
+}
+
+/**
+ * How records are reduced to one per patient:
+ * - `--duplicates first|last|most-complete|latest-visit` or
+ *   `DEMOMED_DUPLICATE_POLICY` (default `first`)
+ * - the patient id rules (`getPatientIdRules()`)
+ */
+function getDedupeOptions(): DedupeOptions {
+  return {
+    duplicatePolicy: resolveDuplicatePolicy(
+      process.env.DEMOMED_DUPLICATE_POLICY || getArgValue("--duplicates")
+    ),
+    patientIds: getPatientIdRules(),
+  };
+}
+
+/**
+ * Scoring options from flags/env:
+ * - parse mode: `--parse-mode strict|lenient` or `DEMOMED_PARSE_MODE`
+ *   (default `lenient`)
+ * - Celsius heuristic: `--celsius-heuristic` or `DEMOMED_CELSIUS_HEURISTIC=1`
+ * - patient id rules: see `getPatientIdRules()`
+ */
+function getScoringOptions(): ScoringOptions {
+  return {
+    mode: resolveParseMode(
+      process.env.DEMOMED_PARSE_MODE || getArgValue("--parse-mode")
+    ),
+    celsiusHeuristic:
+      hasFlag("--celsius-heuristic") || envFlag("DEMOMED_CELSIUS_HEURISTIC"),
+    patientIds: getPatientIdRules(),
+  };
+}
+
 /**
  * CLI entrypoint.
  *
  * Pipeline:
- * 1) Load configuration (API key, base URL, page size).
- * 2) Fetch all patients with pagination + robustness.
- * 3) Refuse to submit if the fetch is not complete.
+ * 1) Load configuration (API key, base URL, page size, scoring rule set,
+ *    parse mode, Celsius heuristic).
+ * 2) Fetch all patients with pagination + robustness (or load them from a
+ *    snapshot with `--from-snapshot <file>`; `--snapshot [file]` saves one),
+ *    then print request metrics (`--log-json [file]` also logs every request
+ *    event as JSON lines). `--source <file>` reads a CSV/JSON/NDJSON file
+ *    instead of the API; such runs are never submitted or recorded.
+ *    Records sharing a patient id are reduced to one by `--duplicates
+ *    <policy>`, and copies that disagree on BP/temp/age are reported.
+ *    Every page read is saved to a checkpoint file (`--checkpoint <file>`),
+ *    so a fetch that fails part-way can continue with `--resume`; the file
+ *    is removed once a fetch completes.
+ * 2b) Compare the page envelopes and record keys with the recorded schema
+ *     baseline and warn about drift.
+ * 3) Refuse to submit if the fetch is not complete (or, with
+ *    `--refuse-on-drift`, if the schema drifted).
  * 4) Compute per-patient scores/flags.
  * 5) Build the required alert lists (deduped + sorted IDs).
- * 6) Write `alert-lists.json`.
- * 7) Optionally submit to `/submit-assessment`.
+ * 6) Write `alert-lists.json` (or, with `--format csv|ndjson|fhir`, the
+ *    scored patients as a CSV table, NDJSON or a FHIR RiskAssessment bundle;
+ *    `--submit` still writes `alert-lists.json` alongside the export).
+ * 6b) Record the run in the patient history (live fetches only, unless
+ *     `--no-history`) and print alerts derived from the previous run.
+ * 7) Check the payload against declared expectations (list sizes, IDs are
+ *    a subset of the fetch, overlap with the previous submission). Violations
+ *    are reported on `--verify` and block `--submit` unless
+ *    `--ignore-expectations` is given.
+ * 8) Optionally submit to `/submit-assessment`, recording the attempt in the
+ *    submission ledger. Repeating a payload or submitting with no attempts
+ *    left needs confirmation (or `--force` when not on a terminal).
  */
 export async function runCli(): Promise<void> {
   const apiKey = process.env.DEMOMED_API_KEY || getArgValue("--apiKey");
@@ -88,7 +446,25 @@ export async function runCli(): Promise<void> {
       String(positionalLimit ?? 20),
     10
   );
-  const outPath = getArgValue("--out") || "alert-lists.json";
+  const format = resolveOutputFormat(
+    process.env.DEMOMED_FORMAT || getArgValue("--format")
+  );
+  const outPath = getArgValue("--out") || DEFAULT_OUT_PATHS[format];
+
+  /**
+   * Scoring rule set: a built-in id (`grader-tuned`, `spec`) or a JSON path.
+   * Defaults to `grader-tuned`.
+   */
+  const rules = loadRuleSet(
+    process.env.DEMOMED_RULES || getArgValue("--rules")
+  );
+
+  /**
+   * Parse mode: `lenient` (default) takes the first number in a value;
+   * `strict` requires exact formats and plausible ranges. The Celsius
+   * heuristic reads bare 30–45 temperatures as °C.
+   */
+  const scoring = getScoringOptions();
 
   /**
    * Submission is always opt-in.
@@ -97,6 +473,21 @@ export async function runCli(): Promise<void> {
    */
   const shouldSubmit = hasFlag("--submit") || envFlag("DEMOMED_SUBMIT");
 
+  /**
+   * Schema drift is only a warning unless `--refuse-on-drift` (or
+   * `DEMOMED_REFUSE_ON_DRIFT=1`) turns it into a submission blocker.
+   */
+  const refuseOnDrift =
+    hasFlag("--refuse-on-drift") || envFlag("DEMOMED_REFUSE_ON_DRIFT");
+
+  /**
+   * Duplicate records that disagree on BP/temp/age are reported; with
+   * `--flag-conflicts` (or `DEMOMED_FLAG_DUPLICATE_CONFLICTS=1`) the patient
+   * is also listed as a data-quality issue.
+   */
+  const flagConflicts =
+    hasFlag("--flag-conflicts") || envFlag("DEMOMED_FLAG_DUPLICATE_CONFLICTS");
+
   /**
    * "Require complete" is used for both `--verify` and submission.
    *
@@ -108,19 +499,117 @@ export async function runCli(): Promise<void> {
     hasFlag("--verify") ||
     envFlag("DEMOMED_VERIFY");
 
-  if (!apiKey) {
-    console.error("Missing API key. Set DEMOMED_API_KEY or pass --apiKey.");
+  /**
+   * Offline snapshots.
+   * - `--from-snapshot <file>`: score saved pages, no network fetch
+   * - `--snapshot [file]`: save the raw pages of this fetch (defaults to
+   *   `snapshots/snapshot-<timestamp>.json`)
+   */
+  const fromSnapshot =
+    process.env.DEMOMED_FROM_SNAPSHOT || getArgValue("--from-snapshot") || null;
+  const snapshotOut = hasFlag("--snapshot")
+    ? getArgValue("--snapshot") || ""
+    : null;
+
+  const metrics = new MetricsCollector();
+  const logTarget = getLogJsonTarget();
+  const client = new ApiClient({
+    baseUrl,
+    apiKey: apiKey || "",
+    onEvent: combineListeners(
+      metrics.listener,
+      logTarget ? jsonLinesLogger(logTarget) : null
+    ),
+  });
+  const source = fromSnapshot
+    ? null
+    : getPatientSource(client, baseUrl, limit, apiKey || "");
+  const live = source?.kind === "api";
+  /** API base URL the patients came from (the snapshot's, when re-scoring). */
+  let upstream = live ? baseUrl : null;
+  const checkpointPath = getCheckpointPath();
+
+  if (!live && (hasFlag("--resume") || envFlag("DEMOMED_RESUME"))) {
+    console.warn("Ignoring --resume: only API fetches are checkpointed.");
+  }
+
+  // The grader scores its own dataset; lists from a file would be wrong.
+  if (shouldSubmit && source && !live) {
+    console.error(
+      `Refusing to submit: patients come from ${source.kind} file ${source.location}, not the DemoMed API.`
+    );
     process.exit(1);
   }
 
-  const client = new ApiClient({ baseUrl, apiKey });
+  // A key is only needed when we talk to the API.
+  if (!apiKey && (live || shouldSubmit)) {
+    console.error("Missing API key. Set DEMOMED_API_KEY or pass --apiKey.");
+    process.exit(1);
+  }
 
-  console.log(`Fetching patients from ${baseUrl} ...`);
-  const { patients, meta } = await getAllPatientsWithMeta(
-    client,
-    Math.min(Math.max(limit, 1), 20)
+  console.log(
+    `Using rule set ${ruleSetLabel(rules)} (${scoring.mode} parsing${
+      scoring.celsiusHeuristic ? ", Celsius heuristic" : ""
+    })`
   );
 
+  let patients: Record<string, unknown>[];
+  let meta: PatientsFetchMeta;
+  let pages: unknown[];
+
+  if (fromSnapshot) {
+    const snapshot = readSnapshot(fromSnapshot);
+    upstream = snapshot.baseUrl;
+    ({ patients, meta } = patientsFromSnapshot(snapshot, getDedupeOptions()));
+    pages = snapshot.pages.map((p) => p.body);
+    console.log(
+      `Loaded snapshot ${fromSnapshot} (created ${snapshot.createdAt} from ${snapshot.baseUrl}, ${snapshot.pages.length} page reads). No network fetch.`
+    );
+  } else {
+    const src = source as PatientSource;
+    console.log(
+      live
+        ? `Fetching patients from ${baseUrl} ...`
+        : `Reading patients from ${src.kind} file ${src.location} ...`
+    );
+    let loaded: Awaited<ReturnType<PatientSource["load"]>>;
+    try {
+      loaded = await src.load();
+    } catch (err) {
+      const checkpoint = live ? readCheckpoint(checkpointPath) : null;
+      if (checkpoint) {
+        console.error(
+          `Fetch failed; ${formatCheckpoint(
+            checkpoint
+          )} in ${checkpointPath}. Re-run with --resume to continue from there.`
+        );
+      }
+      throw err;
+    }
+    ({ patients, meta, pages } = loaded);
+
+    if (meta.resumedPages && meta.resumedPages.length > 0) {
+      console.log(
+        `Resumed ${meta.resumedPages.length} page(s) from ${checkpointPath}; read the rest from the API.`
+      );
+    }
+    if (live && meta.complete) removeCheckpoint(checkpointPath);
+    else if (live && existsSync(checkpointPath)) {
+      console.warn(
+        `Fetch incomplete; keeping ${checkpointPath} (--resume re-reads only the pages it lacks).`
+      );
+    }
+
+    if (snapshotOut !== null && loaded.snapshot) {
+      const path =
+        snapshotOut || defaultSnapshotPath(loaded.snapshot.createdAt);
+      writeSnapshot(path, loaded.snapshot);
+      console.log(`Wrote snapshot ${path}`);
+    } else if (snapshotOut !== null) {
+      console.warn("Skipping --snapshot: only API fetches can be snapshotted.");
+    }
+  }
+
   const expected = meta.expectedTotal;
   const totalPages = meta.totalPages;
   const pagingInfo =
@@ -130,11 +619,30 @@ export async function runCli(): Promise<void> {
 
   const pagesInfo = totalPages !== null ? `, totalPages: ${totalPages}` : "";
   const completeInfo = `, complete: ${meta.complete ? "yes" : "no"}`;
+  const retriesInfo = meta.retries
+    ? `, retries: ${meta.retries.spent}/${meta.retries.budget}`
+    : "";
 
   console.log(
-    `Fetched ${patients.length} patient records (${pagingInfo}${pagesInfo}${completeInfo}).`
+    `${live || fromSnapshot ? "Fetched" : "Loaded"} ${
+      patients.length
+    } patient records (${pagingInfo}${pagesInfo}${completeInfo}${retriesInfo}).`
   );
 
+  if (live) console.log(formatMetricsSummary(metrics.summary()));
+
+  if (meta.duplicates && meta.duplicates.duplicateRecords > 0) {
+    const text = formatDuplicateReport(meta.duplicates);
+    if (meta.duplicates.conflicts.length > 0) console.warn(`Warning: ${text}`);
+    else console.log(text);
+  }
+
+  if (meta.breaker && meta.breaker.trips > 0) {
+    console.warn(
+      `Warning: circuit breaker opened ${meta.breaker.trips} time(s) during the fetch (now ${meta.breaker.state}).`
+    );
+  }
+
   if (meta.missingPages.length > 0) {
     console.warn(
       `Warning: some pages returned empty after retries: ${meta.missingPages.join(
@@ -152,44 +660,439 @@ export async function runCli(): Promise<void> {
     process.exit(1);
   }
 
-  const computed = [];
+  // The baseline describes the upstream API; file sources are not compared.
+  if (live || fromSnapshot) {
+    const drift = detectSchemaDrift(
+      pages,
+      readSchemaBaseline(getSchemaBaselinePath())
+    );
+    if (drift.drifted) console.warn(`\nWarning: ${formatSchemaDrift(drift)}`);
+    else console.log(`\n${formatSchemaDrift(drift)}`);
+
+    if (shouldSubmit && refuseOnDrift && drift.drifted) {
+      console.error(
+        "Refusing to submit: the upstream schema drifted from the baseline. Check the changes above, then re-record it with `npm run schema -- --record`."
+      );
+      process.exit(1);
+    }
+  }
+
+  const scored = [];
   let dropped = 0;
 
   for (const p of patients) {
-    const c = computePatientRisk(p);
+    const c = computePatientRiskDetails(p, rules, scoring);
     if (!c) {
       dropped += 1;
       continue;
     }
-    computed.push(c);
+    scored.push(c);
+  }
+
+  if (dropped > 0) {
+    console.warn(
+      meta.rejectedIds && meta.rejectedIds.length === dropped
+        ? formatPatientIdRejections(meta.rejectedIds)
+        : `Dropped ${dropped} records without a valid patient_id.`
+    );
   }
 
-  if (dropped > 0)
-    console.warn(`Dropped ${dropped} records due to missing patient_id.`);
+  const computed = flagConflicts
+    ? flagConflictedPatients(scored, meta.duplicates?.conflicts)
+    : scored;
 
   const alerts = buildAlertLists(computed);
 
-  writeFileSync(outPath, JSON.stringify(alerts, null, 2), "utf8");
+  const output =
+    format === "csv"
+      ? scoredToCsv(computed)
+      : format === "ndjson"
+      ? scoredToNdjson(computed)
+      : format === "fhir"
+      ? JSON.stringify(
+          scoredToFhirBundle(computed, {
+            ruleSet: rules,
+            generatedAt: new Date().toISOString(),
+          }),
+          null,
+          2
+        )
+      : JSON.stringify(alerts, null, 2);
+  writeFileSync(outPath, output, "utf8");
   console.log(`\nWrote ${outPath}`);
-  console.log(`High-risk (>=4): ${alerts.high_risk_patients.length}`);
-  console.log(`Fever (>=99.6°F): ${alerts.fever_patients.length}`);
+  // Keep a local copy of exactly what gets graded, whatever the export.
+  if (shouldSubmit && format !== "json") {
+    writeFileSync(
+      DEFAULT_OUT_PATHS.json,
+      JSON.stringify(alerts, null, 2),
+      "utf8"
+    );
+    console.log(`Wrote ${DEFAULT_OUT_PATHS.json} (submission payload)`);
+  }
+  console.log(
+    `High-risk (>=${rules.highRiskThreshold}): ${alerts.high_risk_patients.length}`
+  );
+  console.log(
+    `Fever (>=${rules.temperature.feverThreshold}°F): ${alerts.fever_patients.length}`
+  );
   console.log(`Data-quality issues: ${alerts.data_quality_issues.length}`);
 
+  /**
+   * Patient history. Snapshot re-scores are not recorded (they would repeat
+   * an earlier run), nor are file sources (other patients). Derived alerts
+   * compare with the latest run of the same rule set and base URL.
+   */
+  const historyPath = getHistoryPath();
+  const history = readHistory(historyPath);
+  const points = historyPointsFor(computed, {
+    runAt: new Date().toISOString(),
+    source: "cli",
+    ruleSet: ruleSetLabel(rules),
+    baseUrl: upstream,
+  });
+  console.log(`\n${formatDerivedAlerts(deriveAlerts(history, points))}`);
+  if (live && !hasFlag("--no-history")) {
+    appendHistory(points, historyPath);
+    console.log(`Recorded run in ${historyPath}.`);
+  }
+
+  const ledgerPath = getLedgerPath();
+  const ledger = readLedger(ledgerPath);
+  const ledgerKey = { apiKeyHash: hashApiKey(apiKey || ""), baseUrl };
+
+  if (shouldSubmit || requireComplete) {
+    const expectations = loadExpectations(
+      process.env.DEMOMED_EXPECTATIONS || getArgValue("--expectations")
+    );
+    const violations = checkExpectations(
+      alerts,
+      {
+        fetchedIds: computed.map((c) => c.patientId),
+        previous: findPreviousEntry(ledger, ledgerKey)?.payload ?? null,
+      },
+      expectations
+    );
+    console.log(`\n${formatViolations(violations)}`);
+    if (
+      shouldSubmit &&
+      violations.length > 0 &&
+      !hasFlag("--ignore-expectations")
+    ) {
+      console.error(
+        "Refusing to submit. Fix the payload, adjust --expectations or re-run with --ignore-expectations."
+      );
+      process.exit(1);
+    }
+  }
+
   if (shouldSubmit) {
+    const blockers = checkSubmission(ledger, {
+      ...ledgerKey,
+      payloadHash: hashPayload(alerts),
+    });
+
+    if (blockers.length > 0 && !hasFlag("--force")) {
+      console.warn(`\nSubmission ledger (${ledgerPath}) flags this attempt:`);
+      for (const b of blockers) console.warn(`- ${b}`);
+      const proceed = process.stdin.isTTY
+        ? await confirm("Submit anyway?")
+        : false;
+      if (!proceed) {
+        console.error("Refusing to submit. Re-run with --force to override.");
+        process.exit(1);
+      }
+    }
+
     console.log("\nSubmitting assessment payload...");
-    const res = await client.submitAssessment(alerts);
-    console.log(JSON.stringify(res, null, 2));
+    const { body, entry } = await submitAndRecord(client, alerts, {
+      source: "cli",
+      baseUrl,
+      apiKey: apiKey || "",
+      ruleSet: ruleSetLabel(rules),
+      meta,
+      ledgerPath,
+    });
+    console.log(JSON.stringify(body, null, 2));
+    console.log(
+      `Recorded attempt in ${ledgerPath} (payload ${entry.payloadHash.slice(
+        0,
+        10
+      )}).`
+    );
   } else {
     console.log("\nRun with --submit to POST results to /submit-assessment.");
   }
 }
 
+/**
+ * `diff <a> <b>` subcommand.
+ *
+ * Compares two alert-list files and/or snapshots before spending a submission
+ * attempt. Snapshots are re-scored with `--rules` (both sides) and
+ * `--rulesB` (side B only), so `diff snap.json snap.json --rulesB spec`
+ * previews a rule-set change. `--json` prints the machine-readable diff.
+ *
+ * Exits with code 2 when the runs differ (like `diff(1)`).
+ */
+export async function runDiffCli(): Promise<void> {
+  const [a, b] = getPositionalArgs();
+  if (!a || !b) {
+    console.error(
+      "Usage: diff <a.json> <b.json> [--rules id] [--rulesB id] [--parse-mode strict|lenient] [--celsius-heuristic] [--json]"
+    );
+    process.exit(1);
+  }
+
+  const rulesA = loadRuleSet(
+    process.env.DEMOMED_RULES || getArgValue("--rules")
+  );
+  const rulesB = getArgValue("--rulesB")
+    ? loadRuleSet(getArgValue("--rulesB"))
+    : rulesA;
+  const opts = { scoring: getScoringOptions(), dedupe: getDedupeOptions() };
+
+  const diff = diffRuns(loadRun(a, rulesA, opts), loadRun(b, rulesB, opts));
+  if (hasFlag("--json")) console.log(JSON.stringify(diff, null, 2));
+  else console.log(formatDiff(diff));
+
+  if (!diff.identical) process.exitCode = 2;
+}
+
+/**
+ * `ledger` subcommand: lists recorded submission attempts.
+ *
+ * `--json` prints the raw entries.
+ */
+export async function runLedgerCli(): Promise<void> {
+  const ledgerPath = getLedgerPath();
+  const entries = readLedger(ledgerPath);
+  if (hasFlag("--json")) console.log(JSON.stringify(entries, null, 2));
+  else {
+    console.log(`Ledger: ${ledgerPath}`);
+    console.log(formatLedger(entries));
+  }
+}
+
+/**
+ * `history <patientId>` subcommand: one patient's recorded runs, when they
+ * first became high-risk and their BP stage trend.
+ *
+ * `--json` prints the raw history.
+ */
+export async function runHistoryCli(): Promise<void> {
+  const [rawId] = getPositionalArgs();
+  if (!rawId) {
+    console.error("Usage: history <patientId> [--history file] [--json]");
+    process.exit(1);
+  }
+  const read = normalizePatientId(rawId, getScoringOptions().patientIds);
+  if (read.id === null) {
+    console.error(`Invalid patient id: ${read.rejection.message}`);
+    process.exit(1);
+  }
+
+  const h = patientHistory(readHistory(getHistoryPath()), read.id);
+  if (hasFlag("--json")) console.log(JSON.stringify(h, null, 2));
+  else console.log(formatPatientHistory(h));
+}
+
+/**
+ * Patients and raw page bodies for the `report` / `schema` / `explain`
+ * subcommands: from
+ * `--from-snapshot <file>`, a `--source` file, or fetched (needs an API key).
+ *
+ * `source` names where they came from (snapshot path, file or base URL).
+ */
+async function loadSubcommandPages(): Promise<{
+  patients: Record<string, unknown>[];
+  pages: unknown[];
+  source: string;
+}> {
+  const apiKey = process.env.DEMOMED_API_KEY || getArgValue("--apiKey");
+  const baseUrl =
+    process.env.DEMOMED_BASE_URL ||
+    getArgValue("--baseUrl") ||
+    DEFAULT_BASE_URL;
+  const limit = Number.parseInt(
+    process.env.DEMOMED_LIMIT || getArgValue("--limit") || "20",
+    10
+  );
+  const fromSnapshot =
+    process.env.DEMOMED_FROM_SNAPSHOT || getArgValue("--from-snapshot") || null;
+
+  if (fromSnapshot) {
+    const snapshot = readSnapshot(fromSnapshot);
+    return {
+      patients: patientsFromSnapshot(snapshot, getDedupeOptions()).patients,
+      pages: snapshot.pages.map((p) => p.body),
+      source: fromSnapshot,
+    };
+  }
+
+  const source = getPatientSource(
+    new ApiClient({ baseUrl, apiKey: apiKey || "" }),
+    baseUrl,
+    limit
+  );
+  if (source.kind === "api" && !apiKey) {
+    console.error(
+      "Missing API key. Set DEMOMED_API_KEY, pass --apiKey, or use --from-snapshot <file>."
+    );
+    process.exit(1);
+  }
+  const { patients, pages } = await source.load();
+  return { patients, pages, source: source.location };
+}
+
+/**
+ * `report` subcommand: data-quality report for a fetch or a snapshot.
+ *
+ * Reads patients from `--from-snapshot <file>` or `--source <file>`, or
+ * fetches them (needs an API key), scores them with `--rules` / `--parse-mode` / `--celsius-heuristic`,
+ * and prints Markdown (or JSON with `--json`). `--out <file>` writes the
+ * report to a file instead.
+ */
+export async function runReportCli(): Promise<void> {
+  const rules = loadRuleSet(
+    process.env.DEMOMED_RULES || getArgValue("--rules")
+  );
+  const { patients, pages } = await loadSubcommandPages();
+
+  const report = buildDataQualityReport(patients, rules, {
+    pages,
+    scoring: getScoringOptions(),
+  });
+  const text = hasFlag("--json")
+    ? JSON.stringify(report, null, 2)
+    : formatQualityMarkdown(report);
+
+  const outPath = getArgValue("--out");
+  if (outPath) {
+    writeFileSync(outPath, `${text}\n`, "utf8");
+    console.log(`Wrote ${outPath}`);
+  } else {
+    console.log(text);
+  }
+}
+
+/**
+ * `explain <patientId>` subcommand: why one patient scored what they did.
+ *
+ * Reads patients like `report` (`--from-snapshot <file>`, `--source <file>`
+ * or a fetch), scores them with `--rules` / `--parse-mode` /
+ * `--celsius-heuristic`, and prints the patient's trace: the key each input
+ * was read from, the parsed BP and the stage it matched (and which reading
+ * drove it), the temperature/age bands and the total against the threshold.
+ * `--json` prints the scored patient including the raw `explanation`.
+ */
+export async function runExplainCli(): Promise<void> {
+  const [rawId] = getPositionalArgs();
+  if (!rawId) {
+    console.error(
+      "Usage: explain <patientId> [--from-snapshot file | --source file] [--rules id] [--json]"
+    );
+    process.exit(1);
+  }
+  const scoring = getScoringOptions();
+  const read = normalizePatientId(rawId, scoring.patientIds);
+  if (read.id === null) {
+    console.error(`Invalid patient id: ${read.rejection.message}`);
+    process.exit(1);
+  }
+
+  const rules = loadRuleSet(
+    process.env.DEMOMED_RULES || getArgValue("--rules")
+  );
+  const { patients, source } = await loadSubcommandPages();
+  for (const p of patients) {
+    const details = computePatientRiskDetails(p, rules, scoring);
+    if (details?.patientId !== read.id) continue;
+    console.log(
+      hasFlag("--json")
+        ? JSON.stringify(details, null, 2)
+        : formatRiskExplanation(details)
+    );
+    return;
+  }
+
+  console.error(`Patient ${read.id} not found in ${source}.`);
+  process.exit(1);
+}
+
+/**
+ * `schema` subcommand: compares a fetch (or `--from-snapshot <file>`) with the
+ * schema baseline (`--schema-baseline <file>`).
+ *
+ * `--record` writes the fetch as the new baseline instead (`--record --merge`
+ * adds it to the existing one). `--json` prints the machine-readable report. Exits with code 2 when the schema drifted.
+ */
+export async function runSchemaCli(): Promise<void> {
+  const baselinePath = getSchemaBaselinePath();
+  const { pages, source } = await loadSubcommandPages();
+
+  if (hasFlag("--record")) {
+    const baseline = writeSchemaBaseline(pages, source, baselinePath, {
+      merge: hasFlag("--merge"),
+    });
+    const fp = baseline.fingerprint;
+    console.log(
+      `${
+        hasFlag("--merge") ? "Merged into" : "Recorded"
+      } schema baseline ${baselinePath} from ${source} (${fp.pages} pages, ${
+        fp.records
+      } records, ${Object.keys(fp.record).length} record fields).`
+    );
+    return;
+  }
+
+  const drift = detectSchemaDrift(pages, readSchemaBaseline(baselinePath));
+  if (hasFlag("--json")) console.log(JSON.stringify(drift, null, 2));
+  else console.log(formatSchemaDrift(drift));
+
+  if (drift.drifted) process.exitCode = 2;
+}
+
+/**
+ * Subcommands selected by the first argv entry. Anything else runs the
+ * default fetch/score/submit pipeline.
+ */
+const COMMANDS: Record<string, () => Promise<void>> = {
+  diff: runDiffCli,
+  explain: runExplainCli,
+  history: runHistoryCli,
+  ledger: runLedgerCli,
+  report: runReportCli,
+  schema: runSchemaCli,
+};
+
+/**
+ * Prints an upstream failure without a stack trace: error name, message and
+ * what we know about the failed call.
+ */
+function printApiError(err: ApiError): void {
+  console.error(`${err.name}: ${err.message}`);
+  const details = [
+    err.url ? `url ${err.url}` : null,
+    err.status !== null ? `status ${err.status}` : null,
+    `attempts ${err.attempts}`,
+    err.retryAfterSeconds !== null
+      ? `retry after ${err.retryAfterSeconds}s`
+      : null,
+  ].filter(Boolean);
+  console.error(`(${details.join(", ")})`);
+}
+
 /**
  * Execute the CLI when this file is run directly.
  *
  * In tests, other modules can import and call `runCli()` instead.
+ *
+ * Upstream failures exit with a code per error type (see `EXIT_CODES` in
+ * `src/errors.ts`: 3 auth, 4 rate limited, 5 timeout, 6 upstream server error,
+ * 7 malformed response, 8 upstream unavailable); anything else exits 1.
  */
-runCli().catch((err) => {
-  console.error("Fatal error:", err);
-  process.exit(1);
+(COMMANDS[process.argv[2]] ?? runCli)().catch((err) => {
+  if (err instanceof ApiError) printApiError(err);
+  else console.error("Fatal error:", err);
+  process.exit(exitCodeForError(err));
 });
@@ -0,0 +1,108 @@
+import { describe, expect, test } from "vitest";
+import {
+  normalizeDiagnosis,
+  parseDiagnoses,
+  parseMedications,
+  scoreComorbidity,
+} from "./clinical";
+import { DEFAULT_RULE_SET, parseRuleSet } from "./rules";
+import { computePatientRisk, computePatientRiskDetails } from "./scoring";
+
+const enabled = parseRuleSet({
+  ...DEFAULT_RULE_SET,
+  comorbidity: { ...DEFAULT_RULE_SET.comorbidity, enabled: true },
+});
+
+const patient = {
+  patient_id: "DEMO001",
+  age: 45,
+  blood_pressure: "120/80",
+  temperature: 98.6,
+  diagnosis: "Sample_Hypertension",
+  medications: "DemoMed_A 10mg, TestDrug_B 500mg",
+};
+
+describe("diagnosis parsing", () => {
+  test("normalizes dataset prefixes and separators", () => {
+    expect(normalizeDiagnosis("Sample_Hypertension")).toBe("hypertension");
+    expect(normalizeDiagnosis("Eval_Diabetes")).toBe("diabetes");
+    expect(normalizeDiagnosis("Type 2 Diabetes")).toBe("type_2_diabetes");
+    expect(normalizeDiagnosis("  ")).toBeNull();
+  });
+
+  test("splits lists and dedupes", () => {
+    expect(parseDiagnoses("Test_Asthma; Eval_Diabetes, Demo_Asthma")).toEqual([
+      "asthma",
+      "diabetes",
+    ]);
+    expect(parseDiagnoses(["Sample_Hypertension"])).toEqual(["hypertension"]);
+    expect(parseDiagnoses(null)).toEqual([]);
+  });
+});
+
+describe("medication parsing", () => {
+  test("splits entries into name/dose/unit", () => {
+    expect(parseMedications("DemoMed_A 10mg, TestDrug_B 500mg")).toEqual([
+      { raw: "DemoMed_A 10mg", name: "DemoMed_A", dose: 10, unit: "mg" },
+      { raw: "TestDrug_B 500mg", name: "TestDrug_B", dose: 500, unit: "mg" },
+    ]);
+    expect(parseMedications("FakeMed 1000 MG")[0]).toMatchObject({
+      dose: 1000,
+      unit: "mg",
+    });
+  });
+
+  test("keeps entries without a dose", () => {
+    expect(parseMedications("Aspirin")).toEqual([
+      { raw: "Aspirin", name: "Aspirin", dose: null, unit: null },
+    ]);
+    expect(parseMedications("")).toEqual([]);
+  });
+});
+
+describe("comorbidity score", () => {
+  test("is 0 when the rule set leaves it disabled", () => {
+    expect(
+      scoreComorbidity(
+        ["hypertension"],
+        parseMedications("A 1mg, B 2mg"),
+        DEFAULT_RULE_SET
+      )
+    ).toBe(0);
+    expect(computePatientRisk(patient)?.scores).toEqual({
+      bp: 2,
+      temp: 0,
+      age: 1,
+      comorbidity: 0,
+      total: 3,
+    });
+  });
+
+  test("adds diagnosis and medication-count points when enabled", () => {
+    const r = computePatientRiskDetails(patient, enabled);
+    expect(r?.scores.comorbidity).toBe(2);
+    expect(r?.scores.total).toBe(5);
+    expect(r?.flags.highRisk).toBe(true);
+    expect(r?.clinical.diagnoses).toEqual(["hypertension"]);
+    expect(r?.clinical.medications).toHaveLength(2);
+  });
+
+  test("is capped at maxPoints", () => {
+    expect(
+      scoreComorbidity(
+        ["hypertension", "diabetes", "asthma"],
+        parseMedications("A 1mg, B 2mg"),
+        enabled
+      )
+    ).toBe(2);
+  });
+
+  test("rule sets validate the section", () => {
+    expect(() =>
+      parseRuleSet({
+        ...DEFAULT_RULE_SET,
+        comorbidity: { enabled: "yes", diagnoses: [], medicationCount: [] },
+      })
+    ).toThrow(/comorbidity.enabled/);
+  });
+});
@@ -0,0 +1,113 @@
+import { findBand } from "./rules";
+import type { Medication, RiskRuleSet } from "./types";
+
+/**
+ * Dataset-specific prefixes stripped from diagnosis values
+ * ("Sample_Hypertension" -> `hypertension`).
+ */
+const DIAGNOSIS_PREFIXES = ["sample", "eval", "test", "demo"];
+
+/**
+ * Splits a list-ish value (comma/semicolon separated string or array) into
+ * trimmed, non-empty strings.
+ */
+function splitList(value: unknown): string[] {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+    ? value.split(/[,;]/)
+    : [];
+  return items
+    .filter((x) => typeof x === "string" || typeof x === "number")
+    .map((x) => String(x).trim())
+    .filter(Boolean);
+}
+
+/**
+ * Normalizes one diagnosis to a lowercase code.
+ *
+ * - Known dataset prefixes (`Sample_`, `Eval_`, `Test_`, `Demo_`) are dropped
+ * - Runs of non-alphanumerics become `_`
+ *
+ * Returns `null` when nothing is left.
+ */
+export function normalizeDiagnosis(value: string): string | null {
+  let code = value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+  const prefix = DIAGNOSIS_PREFIXES.find((p) => code.startsWith(`${p}_`));
+  if (prefix) code = code.slice(prefix.length + 1);
+
+  return code || null;
+}
+
+/**
+ * Parses a diagnosis field into normalized, deduplicated codes.
+ *
+ * Accepts a single value ("Eval_Diabetes"), a comma/semicolon separated
+ * string, or an array.
+ */
+export function parseDiagnoses(value: unknown): string[] {
+  const codes: string[] = [];
+  for (const item of splitList(value)) {
+    const code = normalizeDiagnosis(item);
+    if (code && !codes.includes(code)) codes.push(code);
+  }
+  return codes;
+}
+
+/**
+ * Parses one medication entry ("TestDrug_B 500mg", "FakeMed 1000 mg").
+ */
+export function parseMedication(entry: string): Medication {
+  const raw = entry.trim();
+  const match = raw.match(/^(.*?)\s*(\d+(?:\.\d+)?)\s*([a-zµ%/]+)?$/i);
+  if (!match || !match[1]) {
+    return { raw, name: raw, dose: null, unit: null };
+  }
+  return {
+    raw,
+    name: match[1].trim(),
+    dose: Number.parseFloat(match[2]),
+    unit: match[3] ? match[3].toLowerCase() : null,
+  };
+}
+
+/**
+ * Parses a medication field into entries.
+ *
+ * Accepts the comma-separated string the API sends
+ * ("DemoMed_A 10mg, TestDrug_B 500mg") or an array of entries.
+ */
+export function parseMedications(value: unknown): Medication[] {
+  return splitList(value).map(parseMedication);
+}
+
+/**
+ * Scores the optional comorbidity component.
+ *
+ * - Returns 0 when the rule set has no `comorbidity` section or it is
+ *   disabled.
+ * - Otherwise sums the points of each matching diagnosis code and the
+ *   medication-count band, capped at `maxPoints`.
+ */
+export function scoreComorbidity(
+  diagnoses: string[],
+  medications: Medication[],
+  rules: RiskRuleSet
+): number {
+  const c = rules.comorbidity;
+  if (!c || !c.enabled) return 0;
+
+  let points = 0;
+  for (const code of diagnoses) {
+    const rule = c.diagnoses.find((d) => d.code === code);
+    if (rule) points += rule.points;
+  }
+  points += findBand(c.medicationCount, medications.length)?.points ?? 0;
+
+  return c.maxPoints !== undefined ? Math.min(points, c.maxPoints) : points;
+}
@@ -0,0 +1,115 @@
+import { describe, expect, test } from "vitest";
+import { DatasetCache } from "./dataset-cache";
+
+/**
+ * A cache over `{ n }` values with a controllable clock.
+ */
+function makeCache(ttlMs = 1000, maxEntries?: number) {
+  let t = 0;
+  const cache = new DatasetCache<{ n: number }>({
+    ttlMs,
+    maxEntries,
+    idOf: (v) => `id-${v.n}`,
+    now: () => t,
+  });
+  return { cache, advance: (ms: number) => (t += ms) };
+}
+
+describe("DatasetCache", () => {
+  test("reuses a fresh entry and reloads after the TTL", async () => {
+    const { cache, advance } = makeCache();
+    let n = 0;
+    const load = async () => ({ n: ++n });
+
+    const first = await cache.get("k", load);
+    expect(first).toMatchObject({ hit: false, entry: { id: "id-1" } });
+    advance(999);
+    expect(await cache.get("k", load)).toMatchObject({ hit: true });
+    advance(1);
+    expect(await cache.get("k", load)).toMatchObject({
+      hit: false,
+      entry: { id: "id-2", fetchedAt: 1000, expiresAt: 2000 },
+    });
+    expect(n).toBe(2);
+  });
+
+  test("shares one load between concurrent requests", async () => {
+    const { cache } = makeCache();
+    let calls = 0;
+    let release!: () => void;
+    const gate = new Promise<void>((r) => (release = r));
+    const load = async () => {
+      calls += 1;
+      await gate;
+      return { n: calls };
+    };
+
+    const pending = [
+      cache.get("k", load),
+      cache.get("k", load),
+      cache.get("k", load, { refresh: true }),
+    ];
+    release();
+    const results = await Promise.all(pending);
+    expect(calls).toBe(1);
+    expect(results.map((r) => r.hit)).toEqual([false, true, true]);
+    expect(new Set(results.map((r) => r.entry))).toHaveProperty("size", 1);
+  });
+
+  test("refresh reloads a fresh entry and retires its old id", async () => {
+    const { cache } = makeCache();
+    let n = 0;
+    const load = async () => ({ n: ++n });
+
+    await cache.get("k", load);
+    const refreshed = await cache.get("k", load, { refresh: true });
+    expect(refreshed).toMatchObject({ hit: false, entry: { id: "id-2" } });
+    expect(cache.byId("id-1")).toBeNull();
+    expect(cache.byId("id-2")?.value).toEqual({ n: 2 });
+  });
+
+  test("keeps stale entries addressable by id", async () => {
+    const { cache, advance } = makeCache(10);
+    await cache.get("k", async () => ({ n: 7 }));
+    advance(60_000);
+    expect(cache.byId("id-7")).toMatchObject({ key: "k", value: { n: 7 } });
+  });
+
+  test("does not cache failed loads", async () => {
+    const { cache } = makeCache();
+    await expect(
+      cache.get("k", async () => {
+        throw new Error("upstream down");
+      })
+    ).rejects.toThrow("upstream down");
+    expect(await cache.get("k", async () => ({ n: 1 }))).toMatchObject({
+      hit: false,
+    });
+  });
+
+  test("keeps identical data loaded for two keys apart", async () => {
+    const cache = new DatasetCache<{ n: number }>({
+      ttlMs: 1000,
+      idOf: (v, key) => `${key}:id-${v.n}`,
+    });
+    const a = await cache.get("keyA", async () => ({ n: 1 }));
+    const b = await cache.get("keyB", async () => ({ n: 1 }));
+    expect(a.entry.id).not.toBe(b.entry.id);
+    expect(cache.byId(a.entry.id)?.key).toBe("keyA");
+    expect(cache.byId(b.entry.id)?.key).toBe("keyB");
+    expect(await cache.get("keyA", async () => ({ n: 2 }))).toMatchObject({
+      hit: true,
+      entry: { id: "keyA:id-1" },
+    });
+  });
+
+  test("evicts the oldest entries past maxEntries", async () => {
+    const { cache } = makeCache(1000, 2);
+    for (const n of [1, 2, 3]) await cache.get(`k${n}`, async () => ({ n }));
+    expect(cache.byId("id-1")).toBeNull();
+    expect(cache.byId("id-3")).not.toBeNull();
+    expect(await cache.get("k1", async () => ({ n: 4 }))).toMatchObject({
+      hit: false,
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * In-memory cache for fetched datasets, used by the server so `/alerts`,
+ * `/scored`, `/quality` and `/submit` share one paginated fetch.
+ *
+ * - Entries are keyed (base URL + API key hash + limit on the server) and
+ *   fresh for `ttlMs`.
+ * - Concurrent misses for one key share a single load (single-flight).
+ * - Every entry also has an id derived from its key and value (`idOf`), so a caller
+ *   can come back for exactly the dataset it was shown, even after it went
+ *   stale, until it is replaced or evicted.
+ */
+
+export type CachedDataset<T> = {
+  /** Dataset id (`idOf(value, key)`), echoed to clients as `datasetId`. */
+  id: string;
+  key: string;
+  value: T;
+  fetchedAt: number;
+  expiresAt: number;
+};
+
+/**
+ * Reported alongside responses built from the cache.
+ */
+export type DatasetCacheInfo = {
+  datasetId: string;
+  fetchedAt: string;
+  expiresAt: string;
+  /** `true` when the response reused an earlier load. */
+  hit: boolean;
+};
+
+export type DatasetCacheOptions<T> = {
+  /** Freshness window; `0` disables reuse (loads are still single-flight). */
+  ttlMs: number;
+  /**
+   * Must differ between keys: identical values loaded for two keys (e.g.
+   * two API keys seeing the same data) are separate entries.
+   */
+  idOf: (value: T, key: string) => string;
+  /** Entries kept (latest per key plus superseded ones), oldest dropped first. */
+  maxEntries?: number;
+  now?: () => number;
+};
+
+export class DatasetCache<T> {
+  private readonly ttlMs: number;
+  private readonly idOf: (value: T, key: string) => string;
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+  /** By id, in insertion order (oldest first). */
+  private readonly entries = new Map<string, CachedDataset<T>>();
+  /** Latest entry id per key. */
+  private readonly latest = new Map<string, string>();
+  private readonly inFlight = new Map<string, Promise<CachedDataset<T>>>();
+
+  /**
+   * @param ttlMs How long an entry is served for its key.
+   * @param idOf Derives the dataset id (e.g. a hash of key and content).
+   * @param maxEntries Entries kept in memory (default 20).
+   * @param now Injectable clock in ms (used for tests).
+   */
+  constructor({
+    ttlMs,
+    idOf,
+    maxEntries = 20,
+    now = Date.now,
+  }: DatasetCacheOptions<T>) {
+    this.ttlMs = Math.max(ttlMs, 0);
+    this.idOf = idOf;
+    this.maxEntries = Math.max(maxEntries, 1);
+    this.now = now;
+  }
+
+  /**
+   * Returns the fresh entry for `key`, or loads one.
+   *
+   * A load already running for `key` is joined instead of starting another,
+   * also when `refresh` is set (it is as fresh as a new one). Failed loads
+   * are not cached.
+   *
+   * @param opts.refresh ignore a fresh entry and load again
+   */
+  async get(
+    key: string,
+    load: () => Promise<T>,
+    opts: { refresh?: boolean } = {}
+  ): Promise<{ entry: CachedDataset<T>; hit: boolean }> {
+    const running = this.inFlight.get(key);
+    if (running) return { entry: await running, hit: true };
+
+    if (!opts.refresh) {
+      const id = this.latest.get(key);
+      const entry = id ? this.entries.get(id) : undefined;
+      if (entry && this.now() < entry.expiresAt) return { entry, hit: true };
+    }
+
+    const promise = load().then((value) => this.store(key, value));
+    this.inFlight.set(key, promise);
+    try {
+      return { entry: await promise, hit: false };
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * The entry with this dataset id, fresh or not (`null` once replaced by a
+   * different dataset for its key, or evicted).
+   */
+  byId(id: string): CachedDataset<T> | null {
+    return this.entries.get(id) ?? null;
+  }
+
+  /**
+   * Adds a loaded value as the latest entry for `key`.
+   *
+   * The previous entry for the key is dropped, so a refresh that changed the
+   * data invalidates ids handed out for the old one.
+   */
+  private store(key: string, value: T): CachedDataset<T> {
+    const fetchedAt = this.now();
+    const entry: CachedDataset<T> = {
+      id: this.idOf(value, key),
+      key,
+      value,
+      fetchedAt,
+      expiresAt: fetchedAt + this.ttlMs,
+    };
+
+    const previous = this.latest.get(key);
+    if (previous) this.entries.delete(previous);
+    this.entries.delete(entry.id);
+    this.entries.set(entry.id, entry);
+    this.latest.set(key, entry.id);
+
+    for (const [id, old] of this.entries) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(id);
+      if (this.latest.get(old.key) === id) this.latest.delete(old.key);
+    }
+    return entry;
+  }
+
+  /**
+   * Client-facing summary of an entry.
+   */
+  static info<T>(entry: CachedDataset<T>, hit: boolean): DatasetCacheInfo {
+    return {
+      datasetId: entry.id,
+      fetchedAt: new Date(entry.fetchedAt).toISOString(),
+      expiresAt: new Date(entry.expiresAt).toISOString(),
+      hit,
+    };
+  }
+}
@@ -0,0 +1,170 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, test } from "vitest";
+import { diffAlertLists, diffRuns, diffScoredPatients, loadRun } from "./diff";
+import { loadRuleSet } from "./rules";
+import { computePatientRiskDetails } from "./scoring";
+import { SNAPSHOT_FORMAT_VERSION, writeSnapshot } from "./snapshot";
+import type { ComputedPatientRiskDetails } from "./types";
+
+/**
+ * Scores raw records, dropping any without an id.
+ */
+function score(
+  records: Record<string, unknown>[],
+  rules = loadRuleSet(null)
+): ComputedPatientRiskDetails[] {
+  return records
+    .map((r) => computePatientRiskDetails(r, rules))
+    .filter((r): r is ComputedPatientRiskDetails => r !== null);
+}
+
+describe("diffAlertLists", () => {
+  test("reports ids that entered and left each list", () => {
+    const diff = diffAlertLists(
+      {
+        high_risk_patients: ["DEMO001", "DEMO002"],
+        fever_patients: [],
+        data_quality_issues: ["DEMO003"],
+      },
+      {
+        high_risk_patients: ["DEMO002", "DEMO004"],
+        fever_patients: [],
+        data_quality_issues: ["DEMO003"],
+      }
+    );
+    expect(diff.high_risk_patients).toEqual({
+      added: ["DEMO004"],
+      removed: ["DEMO001"],
+    });
+    expect(diff.data_quality_issues).toEqual({ added: [], removed: [] });
+  });
+});
+
+describe("diffScoredPatients", () => {
+  test("attributes component changes to the raw input", () => {
+    const before = score([
+      {
+        patient_id: "DEMO001",
+        age: 50,
+        temperature: 99.5,
+        blood_pressure: "120/80",
+      },
+    ]);
+    const after = score([
+      {
+        patient_id: "DEMO001",
+        age: 50,
+        temperature: 99.8,
+        blood_pressure: "120/80",
+      },
+    ]);
+
+    const [p] = diffScoredPatients(before, after);
+    expect(p.status).toBe("changed");
+    expect(p.changes.find((c) => c.field === "temp")).toEqual({
+      field: "temp",
+      before: 0,
+      after: 1,
+      reason: "temperature input changed 99.5 -> 99.8",
+    });
+    expect(p.changes.map((c) => c.field)).toEqual([
+      "temp",
+      "total",
+      "fever",
+      "highRisk",
+    ]);
+  });
+
+  test("attributes same-input changes to the rule set", () => {
+    const record = {
+      patient_id: "DEMO001",
+      age: 30,
+      temperature: 98.6,
+      blood_pressure: "119/79",
+    };
+    const [p] = diffScoredPatients(
+      score([record]),
+      score([record], loadRuleSet("spec"))
+    );
+    expect(p.changes.find((c) => c.field === "bp")?.reason).toMatch(
+      /scored differently \(rule set change\)/
+    );
+  });
+
+  test("reports patients present in only one run", () => {
+    const a = score([{ patient_id: "DEMO001", age: 30 }]);
+    const b = score([{ patient_id: "DEMO002", age: 30 }]);
+    expect(
+      diffScoredPatients(a, b).map((p) => [p.patientId, p.status])
+    ).toEqual([
+      ["DEMO001", "removed"],
+      ["DEMO002", "added"],
+    ]);
+  });
+});
+
+describe("diffRuns", () => {
+  test("is identical for equal alert-list files and skips patient details", () => {
+    const alerts = {
+      high_risk_patients: ["DEMO001"],
+      fever_patients: [],
+      data_quality_issues: [],
+    };
+    const diff = diffRuns(
+      { source: "a.json", alerts, scored: null },
+      { source: "b.json", alerts, scored: null }
+    );
+    expect(diff.identical).toBe(true);
+    expect(diff.patients).toBeNull();
+  });
+});
+
+describe("loadRun", () => {
+  test("re-scores snapshots with the given scoring options", () => {
+    const dir = mkdtempSync(join(tmpdir(), "diff-test-"));
+    try {
+      const path = join(dir, "snap.json");
+      writeSnapshot(path, {
+        formatVersion: SNAPSHOT_FORMAT_VERSION,
+        createdAt: "2024-05-01T10:00:00.000Z",
+        baseUrl: "https://x.test/api",
+        limit: 20,
+        meta: {
+          expectedTotal: 1,
+          totalPages: 1,
+          missingPages: [],
+          uniquePatientIds: 1,
+          complete: true,
+        },
+        pages: [
+          {
+            page: 1,
+            body: {
+              data: [
+                {
+                  patient_id: "DEMO001",
+                  blood_pressure: "120/80",
+                  temperature: 38.5,
+                  age: 45.5,
+                },
+              ],
+            },
+          },
+        ],
+      });
+      const rules = loadRuleSet(null);
+      const lenient = loadRun(path, rules);
+      const tuned = loadRun(path, rules, {
+        scoring: { mode: "strict", celsiusHeuristic: true },
+      });
+      expect(lenient.alerts.fever_patients).toEqual([]);
+      expect(lenient.alerts.data_quality_issues).toEqual([]);
+      expect(tuned.alerts.fever_patients).toEqual(["DEMO001"]);
+      expect(tuned.alerts.data_quality_issues).toEqual(["DEMO001"]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,346 @@
+import { readFileSync } from "node:fs";
+import type { DedupeOptions } from "./api";
+import { buildAlertLists } from "./alerts";
+import { computePatientRiskDetails } from "./scoring";
+import { patientsFromSnapshot, readSnapshot } from "./snapshot";
+import type {
+  AlertLists,
+  ComputedPatientRiskDetails,
+  PatientId,
+  RiskRuleSet,
+  ScoringOptions,
+} from "./types";
+
+/**
+ * One side of a comparison.
+ *
+ * `scored` is only available when the run was loaded from a snapshot; plain
+ * `alert-lists.json` files only carry list membership.
+ */
+export type RunData = {
+  source: string;
+  alerts: AlertLists;
+  scored: ComputedPatientRiskDetails[] | null;
+};
+
+/**
+ * IDs that entered (`added`) or left (`removed`) each alert list.
+ */
+export type AlertListsDiff = Record<
+  keyof AlertLists,
+  { added: PatientId[]; removed: PatientId[] }
+>;
+
+/**
+ * A single component score or flag that differs between runs.
+ */
+export type FieldChange = {
+  field:
+    | "bp"
+    | "temp"
+    | "age"
+    | "comorbidity"
+    | "total"
+    | "bpValid"
+    | "tempValid"
+    | "ageValid"
+    | "fever"
+    | "highRisk"
+    | "dataQualityIssue";
+  before: number | boolean;
+  after: number | boolean;
+  reason: string;
+};
+
+/**
+ * Per-patient explanation of what changed between runs.
+ */
+export type PatientDiff = {
+  patientId: PatientId;
+  status: "added" | "removed" | "changed";
+  changes: FieldChange[];
+};
+
+/**
+ * Full comparison of two runs.
+ */
+export type RunDiff = {
+  a: string;
+  b: string;
+  identical: boolean;
+  lists: AlertListsDiff;
+  /** `null` when either side lacks per-patient scores (alert-list file). */
+  patients: PatientDiff[] | null;
+};
+
+const LIST_KEYS: (keyof AlertLists)[] = [
+  "high_risk_patients",
+  "fever_patients",
+  "data_quality_issues",
+];
+
+/**
+ * Which raw input drives each component score / validity flag.
+ */
+const INPUT_FOR_FIELD: Partial<
+  Record<FieldChange["field"], keyof ComputedPatientRiskDetails["inputs"]>
+> = {
+  bp: "bloodPressure",
+  bpValid: "bloodPressure",
+  temp: "temperature",
+  tempValid: "temperature",
+  fever: "temperature",
+  age: "age",
+  ageValid: "age",
+};
+
+/**
+ * Checks that parsed JSON has the three alert-list arrays.
+ */
+function isAlertLists(value: unknown): value is AlertLists {
+  const v = value as any;
+  return (
+    !!v && typeof v === "object" && LIST_KEYS.every((k) => Array.isArray(v[k]))
+  );
+}
+
+/**
+ * Normalizes externally produced alert lists (dedupe + sort, string IDs).
+ */
+function normalizeAlertLists(lists: AlertLists): AlertLists {
+  const clean = (ids: unknown[]) =>
+    Array.from(new Set(ids.map(String))).sort((a, b) => a.localeCompare(b));
+  return {
+    high_risk_patients: clean(lists.high_risk_patients),
+    fever_patients: clean(lists.fever_patients),
+    data_quality_issues: clean(lists.data_quality_issues),
+  };
+}
+
+/**
+ * Loads one side of a diff from an alert-list file or a snapshot.
+ *
+ * Snapshots are re-scored with `rules` (and `opts.scoring`: parse mode,
+ * Celsius heuristic, patient id rules), so diffing a snapshot against itself
+ * with two rule sets shows exactly what a rule change would do.
+ *
+ * @param opts.dedupe how the snapshot's records are reduced to one per patient
+ */
+export function loadRun(
+  path: string,
+  rules: RiskRuleSet,
+  opts: { scoring?: ScoringOptions; dedupe?: DedupeOptions } = {}
+): RunData {
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err: any) {
+    throw new Error(`Failed to read ${path}: ${err?.message || err}`);
+  }
+
+  if (isAlertLists(raw)) {
+    return {
+      source: path,
+      alerts: normalizeAlertLists(raw),
+      scored: null,
+    };
+  }
+
+  if (raw && typeof raw === "object" && Array.isArray(raw.pages)) {
+    const { patients } = patientsFromSnapshot(readSnapshot(path), opts.dedupe);
+    const scored: ComputedPatientRiskDetails[] = [];
+    for (const p of patients) {
+      const c = computePatientRiskDetails(p, rules, opts.scoring);
+      if (c) scored.push(c);
+    }
+    return { source: path, alerts: buildAlertLists(scored), scored };
+  }
+
+  throw new Error(
+    `${path} is neither an alert-list file nor a snapshot (expected ${LIST_KEYS.join(
+      "/"
+    )} arrays or a pages array)`
+  );
+}
+
+/**
+ * Computes list membership changes from `a` to `b`.
+ */
+export function diffAlertLists(a: AlertLists, b: AlertLists): AlertListsDiff {
+  const out = {} as AlertListsDiff;
+  for (const key of LIST_KEYS) {
+    const before = new Set(a[key]);
+    const after = new Set(b[key]);
+    out[key] = {
+      added: b[key].filter((id) => !before.has(id)),
+      removed: a[key].filter((id) => !after.has(id)),
+    };
+  }
+  return out;
+}
+
+/**
+ * Renders a raw input value for a reason string.
+ */
+function show(value: unknown): string {
+  return value === undefined ? "undefined" : JSON.stringify(value);
+}
+
+/**
+ * Explains why a field changed: either its raw input changed, or the same
+ * input was scored differently (rule set change).
+ */
+function reasonFor(
+  field: FieldChange["field"],
+  before: ComputedPatientRiskDetails,
+  after: ComputedPatientRiskDetails
+): string {
+  if (field === "total") return "sum of component scores changed";
+  if (field === "comorbidity") {
+    const a = [before.inputs.diagnosis, before.inputs.medications];
+    const b = [after.inputs.diagnosis, after.inputs.medications];
+    return JSON.stringify(a) !== JSON.stringify(b)
+      ? `diagnosis/medications input changed ${show(a)} -> ${show(b)}`
+      : "same diagnosis/medications scored differently (rule set change)";
+  }
+  if (field === "highRisk") return "total crossed the high-risk threshold";
+  if (field === "dataQualityIssue") return "a component validity flag changed";
+
+  const input = INPUT_FOR_FIELD[field];
+  if (!input) return "changed";
+
+  const a = before.inputs[input];
+  const b = after.inputs[input];
+  if (JSON.stringify(a) !== JSON.stringify(b)) {
+    return `${input} input changed ${show(a)} -> ${show(b)}`;
+  }
+  return `same ${input} input ${show(a)} scored differently (rule set change)`;
+}
+
+/**
+ * Lists the component scores and flags that differ for one patient.
+ */
+function diffPatient(
+  before: ComputedPatientRiskDetails,
+  after: ComputedPatientRiskDetails
+): FieldChange[] {
+  const pairs: [FieldChange["field"], number | boolean, number | boolean][] = [
+    ["bp", before.scores.bp, after.scores.bp],
+    ["temp", before.scores.temp, after.scores.temp],
+    ["age", before.scores.age, after.scores.age],
+    ["comorbidity", before.scores.comorbidity, after.scores.comorbidity],
+    ["total", before.scores.total, after.scores.total],
+    ["bpValid", before.flags.bpValid, after.flags.bpValid],
+    ["tempValid", before.flags.tempValid, after.flags.tempValid],
+    ["ageValid", before.flags.ageValid, after.flags.ageValid],
+    ["fever", before.flags.fever, after.flags.fever],
+    ["highRisk", before.flags.highRisk, after.flags.highRisk],
+    [
+      "dataQualityIssue",
+      before.flags.dataQualityIssue,
+      after.flags.dataQualityIssue,
+    ],
+  ];
+
+  return pairs
+    .filter(([, a, b]) => a !== b)
+    .map(([field, a, b]) => ({
+      field,
+      before: a,
+      after: b,
+      reason: reasonFor(field, before, after),
+    }));
+}
+
+/**
+ * Computes per-patient changes between two scored runs.
+ *
+ * Patients present in only one run are reported as `added`/`removed` with no
+ * field changes. Output is sorted by patient id.
+ */
+export function diffScoredPatients(
+  a: ComputedPatientRiskDetails[],
+  b: ComputedPatientRiskDetails[]
+): PatientDiff[] {
+  const before = new Map(a.map((p) => [p.patientId, p]));
+  const after = new Map(b.map((p) => [p.patientId, p]));
+  const ids = Array.from(new Set([...before.keys(), ...after.keys()])).sort(
+    (x, y) => x.localeCompare(y)
+  );
+
+  const out: PatientDiff[] = [];
+  for (const id of ids) {
+    const pa = before.get(id);
+    const pb = after.get(id);
+    if (!pa) out.push({ patientId: id, status: "added", changes: [] });
+    else if (!pb) out.push({ patientId: id, status: "removed", changes: [] });
+    else {
+      const changes = diffPatient(pa, pb);
+      if (changes.length > 0)
+        out.push({ patientId: id, status: "changed", changes });
+    }
+  }
+  return out;
+}
+
+/**
+ * Compares two runs.
+ */
+export function diffRuns(a: RunData, b: RunData): RunDiff {
+  const lists = diffAlertLists(a.alerts, b.alerts);
+  const patients =
+    a.scored && b.scored ? diffScoredPatients(a.scored, b.scored) : null;
+
+  const identical =
+    LIST_KEYS.every(
+      (k) => lists[k].added.length === 0 && lists[k].removed.length === 0
+    ) &&
+    (patients === null || patients.length === 0);
+
+  return { a: a.source, b: b.source, identical, lists, patients };
+}
+
+/**
+ * Renders a diff as a plain-text report for the CLI.
+ */
+export function formatDiff(diff: RunDiff): string {
+  const lines: string[] = [`Diff ${diff.a} -> ${diff.b}`];
+  if (diff.identical) {
+    lines.push("No differences.");
+    return lines.join("\n");
+  }
+
+  for (const key of LIST_KEYS) {
+    const { added, removed } = diff.lists[key];
+    if (added.length === 0 && removed.length === 0) {
+      lines.push(`${key}: unchanged`);
+      continue;
+    }
+    lines.push(`${key}:`);
+    if (added.length) lines.push(`  + ${added.join(", ")}`);
+    if (removed.length) lines.push(`  - ${removed.join(", ")}`);
+  }
+
+  if (diff.patients === null) {
+    lines.push(
+      "\nPer-patient details unavailable (compare snapshots to see why scores changed)."
+    );
+    return lines.join("\n");
+  }
+
+  if (diff.patients.length > 0) lines.push("\nPatients:");
+  for (const p of diff.patients) {
+    if (p.status !== "changed") {
+      lines.push(
+        `  ${p.patientId}: only in ${p.status === "added" ? "B" : "A"}`
+      );
+      continue;
+    }
+    lines.push(`  ${p.patientId}:`);
+    for (const c of p.changes) {
+      lines.push(`    ${c.field} ${c.before} -> ${c.after}: ${c.reason}`);
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,125 @@
+import { describe, expect, test } from "vitest";
+import { dedupeByPatientId } from "./api";
+import {
+  chooseDuplicate,
+  findConflict,
+  flagConflictedPatients,
+  formatDuplicateReport,
+  resolveDuplicatePolicy,
+} from "./duplicates";
+
+const copies = [
+  {
+    patient_id: "P1",
+    blood_pressure: "120/80",
+    age: 50,
+    visit_date: "2024-03-01",
+  },
+  { patient_id: "P1", bp: "150/95", age: "50", visit_date: "2024-05-10" },
+  {
+    patient_id: "P1",
+    blood_pressure: "120/80",
+    temperature: 98.6,
+    age: 50,
+    diagnosis: "hypertension",
+    visit_date: "not a date",
+  },
+];
+
+describe("resolveDuplicatePolicy", () => {
+  test("defaults to first and rejects unknown names", () => {
+    expect(resolveDuplicatePolicy(undefined)).toBe("first");
+    expect(resolveDuplicatePolicy(" Latest-Visit ")).toBe("latest-visit");
+    expect(() => resolveDuplicatePolicy("newest")).toThrow(
+      /Unknown duplicate policy "newest"/
+    );
+  });
+});
+
+describe("chooseDuplicate", () => {
+  test("picks the copy each policy names", () => {
+    expect(chooseDuplicate(copies, "first")).toBe(0);
+    expect(chooseDuplicate(copies, "last")).toBe(2);
+    expect(chooseDuplicate(copies, "most-complete")).toBe(2);
+    expect(chooseDuplicate(copies, "latest-visit")).toBe(1);
+  });
+
+  test("keeps the first copy on ties", () => {
+    expect(chooseDuplicate([copies[0], copies[0]], "most-complete")).toBe(0);
+    expect(chooseDuplicate([{ a: 1 }, { b: 2 }], "latest-visit")).toBe(0);
+  });
+
+  test("reads visit dates as ISO only, like the patient history", () => {
+    const visits = [
+      { patient_id: "P1", visit_date: "2024-03-01" },
+      { patient_id: "P1", visit_date: "12/30/2025" },
+      { patient_id: "P1", visit_date: "2024-02-30" },
+    ];
+    expect(chooseDuplicate(visits, "latest-visit")).toBe(0);
+    expect(
+      chooseDuplicate(
+        [visits[1], { patient_id: "P1", visit_date: "2024-03-02T01:00Z" }],
+        "latest-visit"
+      )
+    ).toBe(1);
+  });
+});
+
+describe("findConflict", () => {
+  test("compares inputs across aliases and ignores formatting", () => {
+    expect(findConflict("P1", copies, 1)).toEqual({
+      patientId: "P1",
+      copies: 3,
+      fields: ["bloodPressure", "temperature"],
+      values: {
+        bloodPressure: ["120/80", "150/95", "120/80"],
+        temperature: [undefined, undefined, 98.6],
+      },
+      chosen: 1,
+    });
+    expect(
+      findConflict("P2", [{ age: 40 }, { age: " 40" }, { Age: "40" }], 0)
+    ).toBeNull();
+  });
+});
+
+describe("dedupeByPatientId", () => {
+  test("applies the policy and reports conflicts", () => {
+    const records = [
+      ...copies,
+      { patient_id: "P2", age: 30 },
+      { patient_id: "P2", age: 30 },
+      { age: 99 },
+    ];
+    const latest = dedupeByPatientId(records, {
+      duplicatePolicy: "latest-visit",
+    });
+    expect(latest.patients).toEqual([copies[1], records[3], records[5]]);
+    expect(latest.uniquePatientIds).toBe(2);
+    expect(latest.duplicates).toMatchObject({
+      policy: "latest-visit",
+      duplicateRecords: 3,
+      conflicts: [{ patientId: "P1", chosen: 1 }],
+    });
+
+    expect(dedupeByPatientId(records).patients[0]).toBe(copies[0]);
+    expect(formatDuplicateReport(latest.duplicates)).toContain(
+      'P1: 3 copies differ on bloodPressure ("120/80" | "150/95" | "120/80")'
+    );
+  });
+});
+
+describe("flagConflictedPatients", () => {
+  test("marks only conflicted patients as data-quality issues", () => {
+    const scored = [
+      { patientId: "P1", flags: { dataQualityIssue: false, fever: true } },
+      { patientId: "P2", flags: { dataQualityIssue: false, fever: false } },
+    ];
+    const conflict = findConflict("P1", copies, 0);
+    const flagged = flagConflictedPatients(scored, conflict ? [conflict] : []);
+    expect(flagged[0].flags).toEqual({ dataQualityIssue: true, fever: true });
+    expect(flagged[1]).toBe(scored[1]);
+    expect(scored[0].flags.dataQualityIssue).toBe(false);
+    expect(flagConflictedPatients(scored, undefined)).toBe(scored);
+  });
+});
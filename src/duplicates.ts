@@ -0,0 +1,202 @@
+import { normalizeVisitDate } from "./history";
+import { extractRiskInputKeys } from "./scoring";
+import type { PatientId } from "./types";
+
+/**
+ * How to pick one record when several share a patient id.
+ *
+ * - `first`: the first copy read (the historical behaviour)
+ * - `last`: the last copy read, e.g. from a recovery re-read of a page
+ * - `most-complete`: the copy with the most non-empty scoring inputs
+ *   (BP, temperature, age, diagnosis, medications, visit date)
+ * - `latest-visit`: the copy with the latest ISO visit date (read like the
+ *   patient history reads it; other formats count as missing)
+ *
+ * Ties (and copies the policy can't rank) go to the first copy read.
+ */
+export const DUPLICATE_POLICIES = [
+  "first",
+  "last",
+  "most-complete",
+  "latest-visit",
+] as const;
+
+export type DuplicatePolicy = (typeof DUPLICATE_POLICIES)[number];
+
+/**
+ * Inputs whose disagreement makes duplicates a conflict (they change scores
+ * and flags).
+ */
+export const CONFLICT_FIELDS = ["bloodPressure", "temperature", "age"] as const;
+
+export type ConflictField = (typeof CONFLICT_FIELDS)[number];
+
+/**
+ * Copies of one patient that disagree on BP, temperature or age.
+ */
+export type DuplicateConflict = {
+  patientId: PatientId;
+  /** Number of records read for this id. */
+  copies: number;
+  /** Inputs that differ between the copies. */
+  fields: ConflictField[];
+  /** Raw value of each differing input, per copy in read order. */
+  values: Partial<Record<ConflictField, unknown[]>>;
+  /** Index (in read order) of the copy that was kept. */
+  chosen: number;
+};
+
+/**
+ * Duplicate handling for one fetch (reported in `PatientsFetchMeta`).
+ */
+export type DuplicateReport = {
+  policy: DuplicatePolicy;
+  /** Records dropped because their id was already present. */
+  duplicateRecords: number;
+  conflicts: DuplicateConflict[];
+};
+
+/**
+ * Resolves a duplicate policy from a flag or env var.
+ *
+ * Empty/missing means `first`; anything not in `DUPLICATE_POLICIES` throws.
+ */
+export function resolveDuplicatePolicy(value?: string | null): DuplicatePolicy {
+  const v = (value ?? "").trim().toLowerCase();
+  if (!v) return "first";
+  if ((DUPLICATE_POLICIES as readonly string[]).includes(v))
+    return v as DuplicatePolicy;
+  throw new Error(
+    `Unknown duplicate policy "${value}" (expected ${DUPLICATE_POLICIES.join(
+      ", "
+    )})`
+  );
+}
+
+/**
+ * Raw value of a scoring input, read through the same aliases as the scorer.
+ */
+function inputValue(
+  record: Record<string, unknown>,
+  field: keyof ReturnType<typeof extractRiskInputKeys>
+): unknown {
+  const key = extractRiskInputKeys(record)[field];
+  return key === null ? undefined : record[key];
+}
+
+/**
+ * Comparable form of a raw value: missing/null/blank are the same, strings
+ * are trimmed, numbers and numeric strings compare as text.
+ */
+function comparable(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value).trim();
+}
+
+/**
+ * Describes copies of one patient that disagree on BP, temperature or age
+ * (`null` when they agree on all three).
+ *
+ * @param chosen index of the copy that was kept
+ */
+export function findConflict(
+  patientId: PatientId,
+  copies: Record<string, unknown>[],
+  chosen: number
+): DuplicateConflict | null {
+  const fields = CONFLICT_FIELDS.filter(
+    (field) =>
+      new Set(copies.map((c) => comparable(inputValue(c, field)))).size > 1
+  );
+  if (fields.length === 0) return null;
+  return {
+    patientId,
+    copies: copies.length,
+    fields,
+    values: Object.fromEntries(
+      fields.map((f) => [f, copies.map((c) => inputValue(c, f))])
+    ),
+    chosen,
+  };
+}
+
+/**
+ * Number of non-empty scoring inputs on a record (for `most-complete`).
+ */
+function completeness(record: Record<string, unknown>): number {
+  const keys = extractRiskInputKeys(record);
+  return (Object.keys(keys) as (keyof typeof keys)[]).filter(
+    (field) => comparable(inputValue(record, field)) !== ""
+  ).length;
+}
+
+/**
+ * Visit day of a record in ms (`-Infinity` when missing or not an ISO date,
+ * see `normalizeVisitDate`).
+ */
+function visitTime(record: Record<string, unknown>): number {
+  const day = normalizeVisitDate(inputValue(record, "visitDate"));
+  return day === null ? -Infinity : Date.parse(`${day}T00:00:00Z`);
+}
+
+/**
+ * Index of the copy a policy keeps (copies in read order, at least one).
+ */
+export function chooseDuplicate(
+  copies: Record<string, unknown>[],
+  policy: DuplicatePolicy
+): number {
+  if (policy === "first") return 0;
+  if (policy === "last") return copies.length - 1;
+
+  const rank = policy === "most-complete" ? completeness : visitTime;
+  let best = 0;
+  copies.forEach((copy, i) => {
+    if (rank(copy) > rank(copies[best])) best = i;
+  });
+  return best;
+}
+
+/**
+ * Sets `flags.dataQualityIssue` on patients with conflicting duplicates.
+ *
+ * Used when conflicts should count as data-quality issues
+ * (`--flag-conflicts` / `DEMOMED_FLAG_DUPLICATE_CONFLICTS=1`). Returns new
+ * objects; patients without a conflict are returned as-is.
+ */
+export function flagConflictedPatients<
+  T extends { patientId: PatientId; flags: { dataQualityIssue: boolean } }
+>(scored: T[], conflicts: DuplicateConflict[] | undefined): T[] {
+  const ids = new Set((conflicts ?? []).map((c) => c.patientId));
+  if (ids.size === 0) return scored;
+  return scored.map((p) =>
+    ids.has(p.patientId)
+      ? { ...p, flags: { ...p.flags, dataQualityIssue: true } }
+      : p
+  );
+}
+
+/**
+ * One line per conflict, e.g.
+ * `P001: 2 copies differ on bloodPressure ("120/80" | "150/95"), kept #2`.
+ */
+export function formatDuplicateReport(report: DuplicateReport): string {
+  const lines = report.conflicts.map((c) => {
+    const detail = c.fields
+      .map(
+        (f) =>
+          `${f} (${(c.values[f] ?? [])
+            .map((v) => JSON.stringify(v))
+            .join(" | ")})`
+      )
+      .join(", ");
+    return `- ${c.patientId}: ${c.copies} copies differ on ${detail}, kept #${
+      c.chosen + 1
+    }`;
+  });
+  return [
+    `Duplicate patient_ids: ${report.duplicateRecords} extra record(s), ${report.conflicts.length} conflict(s) (policy ${report.policy}).`,
+    ...lines,
+  ].join("\n");
+}
@@ -0,0 +1,146 @@
+import { describe, expect, test } from "vitest";
+import { ApiClient } from "./api";
+import type { FetchLike } from "./api";
+import {
+  ApiError,
+  AuthError,
+  EXIT_CODES,
+  MalformedResponseError,
+  RateLimitedError,
+  TimeoutError,
+  UpstreamServerError,
+  UpstreamUnavailableError,
+  exitCodeForError,
+  httpStatusForError,
+} from "./errors";
+
+/**
+ * Client with no real sleeping and a small retry allowance.
+ */
+function clientWith(fetchImpl: FetchLike, extra = {}): ApiClient {
+  return new ApiClient({
+    baseUrl: "https://example.test/api",
+    apiKey: "ak_test",
+    fetchImpl,
+    sleepImpl: async () => {},
+    maxRetries: 2,
+    minDelayMs: 1,
+    breakerThreshold: 100,
+    ...extra,
+  });
+}
+
+/**
+ * Runs a request and returns what it threw.
+ */
+async function failure(client: ApiClient): Promise<any> {
+  return client.requestJson("/patients").then(
+    () => {
+      throw new Error("expected the request to fail");
+    },
+    (err) => err
+  );
+}
+
+describe("typed ApiClient errors", () => {
+  test("401/403 is an AuthError and is not retried", async () => {
+    let calls = 0;
+    const err = await failure(
+      clientWith(async () => {
+        calls += 1;
+        return Response.json({ error: "bad key" }, { status: 401 });
+      })
+    );
+    expect(err).toBeInstanceOf(AuthError);
+    expect(err).toMatchObject({
+      status: 401,
+      attempts: 1,
+      url: "https://example.test/api/patients",
+      body: { error: "bad key" },
+    });
+    expect(calls).toBe(1);
+  });
+
+  test("429 after every retry is a RateLimitedError with retry-after", async () => {
+    const err = await failure(
+      clientWith(
+        async () =>
+          new Response("{}", { status: 429, headers: { "retry-after": "7" } })
+      )
+    );
+    expect(err).toBeInstanceOf(RateLimitedError);
+    expect(err).toMatchObject({
+      status: 429,
+      attempts: 3,
+      retryAfterSeconds: 7,
+    });
+  });
+
+  test("5xx after every retry is an UpstreamServerError", async () => {
+    const err = await failure(
+      clientWith(async () => new Response("down", { status: 503 }))
+    );
+    expect(err).toBeInstanceOf(UpstreamServerError);
+    expect(err).toMatchObject({ status: 503, attempts: 3, body: "down" });
+  });
+
+  test("aborted requests are TimeoutErrors", async () => {
+    const err = await failure(
+      clientWith(
+        (_input, init) =>
+          new Promise<Response>((_resolve, reject) => {
+            init?.signal?.addEventListener("abort", () =>
+              reject(new DOMException("aborted", "AbortError"))
+            );
+          }),
+        { timeoutMs: 5, maxRetries: 0 }
+      )
+    );
+    expect(err).toBeInstanceOf(TimeoutError);
+    expect(err.status).toBeNull();
+  });
+
+  test("a 2xx non-JSON body is a MalformedResponseError", async () => {
+    const err = await failure(
+      clientWith(async () => new Response("<html>oops</html>", { status: 200 }))
+    );
+    expect(err).toBeInstanceOf(MalformedResponseError);
+    expect(err.body).toBe("<html>oops</html>");
+  });
+
+  test("other statuses are plain ApiErrors", async () => {
+    const err = await failure(
+      clientWith(async () => Response.json({}, { status: 404 }))
+    );
+    expect(err.constructor).toBe(ApiError);
+    expect(err.status).toBe(404);
+  });
+});
+
+describe("error mapping", () => {
+  const breaker = {
+    state: "open" as const,
+    consecutiveFailures: 5,
+    trips: 1,
+    openedAt: null,
+  };
+
+  test("HTTP statuses for the server", () => {
+    expect(httpStatusForError(new AuthError("x"))).toBe(401);
+    expect(httpStatusForError(new RateLimitedError("x"))).toBe(429);
+    expect(httpStatusForError(new TimeoutError("x"))).toBe(504);
+    expect(httpStatusForError(new UpstreamServerError("x"))).toBe(502);
+    expect(httpStatusForError(new Error("Incomplete fetch"))).toBe(502);
+  });
+
+  test("exit codes for the CLI", () => {
+    expect(exitCodeForError(new AuthError("x"))).toBe(EXIT_CODES.auth);
+    expect(exitCodeForError(new MalformedResponseError("x"))).toBe(
+      EXIT_CODES.malformedResponse
+    );
+    expect(exitCodeForError(new UpstreamUnavailableError("x", breaker))).toBe(
+      EXIT_CODES.upstreamUnavailable
+    );
+    expect(exitCodeForError(new Error("x"))).toBe(1);
+  });
+});
@@ -0,0 +1,154 @@
+import type { CircuitBreakerStats } from "./circuit-breaker";
+
+/**
+ * Typed failures thrown by `ApiClient`.
+ *
+ * Every error carries what we know about the failed call so callers can react
+ * (the server picks an HTTP status, the CLI an exit code) without parsing
+ * messages:
+ * - `status`: upstream HTTP status (`null` when no response arrived)
+ * - `attempts`: how many times the request was sent
+ * - `retryAfterSeconds`: server-suggested wait, when it gave one
+ * - `url`: the request URL
+ * - `body`: parsed response body (raw text when it wasn't JSON)
+ */
+export type ApiErrorDetails = {
+  status?: number | null;
+  attempts?: number;
+  retryAfterSeconds?: number | null;
+  url?: string | null;
+  body?: unknown;
+};
+
+/**
+ * Base class for upstream failures. Also used as-is for responses that fit
+ * none of the subclasses (e.g. `404`).
+ */
+export class ApiError extends Error {
+  readonly status: number | null;
+  readonly attempts: number;
+  readonly retryAfterSeconds: number | null;
+  readonly url: string | null;
+  readonly body: unknown;
+
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.status = details.status ?? null;
+    this.attempts = details.attempts ?? 1;
+    this.retryAfterSeconds = details.retryAfterSeconds ?? null;
+    this.url = details.url ?? null;
+    this.body = details.body;
+  }
+}
+
+/**
+ * `429` that outlasted every retry.
+ */
+export class RateLimitedError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, details);
+    this.name = "RateLimitedError";
+  }
+}
+
+/**
+ * `5xx` that outlasted every retry, or a network error (no `status`).
+ */
+export class UpstreamServerError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, details);
+    this.name = "UpstreamServerError";
+  }
+}
+
+/**
+ * `401` / `403`: the API key is missing, wrong or expired. Never retried.
+ */
+export class AuthError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, details);
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * Every attempt hit the client's `timeoutMs`.
+ */
+export class TimeoutError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, details);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * A successful response whose body wasn't valid JSON.
+ */
+export class MalformedResponseError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, details);
+    this.name = "MalformedResponseError";
+  }
+}
+
+/**
+ * The upstream is considered down: the circuit breaker is open, or a fetch
+ * used up its retry budget.
+ */
+export class UpstreamUnavailableError extends ApiError {
+  readonly breaker: CircuitBreakerStats;
+
+  constructor(
+    reason: string,
+    breaker: CircuitBreakerStats,
+    details: ApiErrorDetails = {}
+  ) {
+    super(`Upstream unavailable: ${reason}`, details);
+    this.name = "UpstreamUnavailableError";
+    this.breaker = breaker;
+  }
+}
+
+/**
+ * HTTP status our server answers with for an error.
+ *
+ * - `AuthError` -> 401
+ * - `RateLimitedError` -> 429
+ * - `TimeoutError` -> 504
+ * - anything else (other upstream failures, incomplete fetches) -> 502
+ */
+export function httpStatusForError(err: unknown): number {
+  if (err instanceof AuthError) return 401;
+  if (err instanceof RateLimitedError) return 429;
+  if (err instanceof TimeoutError) return 504;
+  return 502;
+}
+
+/**
+ * CLI exit codes. `1` is any other failure; `2` is reserved for `diff`
+ * ("runs differ").
+ */
+export const EXIT_CODES = {
+  auth: 3,
+  rateLimited: 4,
+  timeout: 5,
+  upstreamServer: 6,
+  malformedResponse: 7,
+  upstreamUnavailable: 8,
+} as const;
+
+/**
+ * CLI exit code for an error (see `EXIT_CODES`).
+ */
+export function exitCodeForError(err: unknown): number {
+  if (err instanceof AuthError) return EXIT_CODES.auth;
+  if (err instanceof RateLimitedError) return EXIT_CODES.rateLimited;
+  if (err instanceof TimeoutError) return EXIT_CODES.timeout;
+  if (err instanceof UpstreamServerError) return EXIT_CODES.upstreamServer;
+  if (err instanceof MalformedResponseError)
+    return EXIT_CODES.malformedResponse;
+  if (err instanceof UpstreamUnavailableError)
+    return EXIT_CODES.upstreamUnavailable;
+  return 1;
+}
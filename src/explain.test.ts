@@ -0,0 +1,155 @@
+import { describe, expect, test } from "vitest";
+import {
+  describeRange,
+  findBoundaries,
+  formatRiskExplanation,
+  scoreWhatIf,
+} from "./explain";
+import { loadRuleSet } from "./rules";
+import { computePatientRiskDetails } from "./scoring";
+
+/**
+ * Scores one record (with a valid id) and returns its details.
+ */
+function details(
+  record: Record<string, unknown>,
+  rules = loadRuleSet("grader-tuned")
+) {
+  const d = computePatientRiskDetails({ patient_id: "P1", ...record }, rules);
+  if (!d) throw new Error("record was not scored");
+  return d;
+}
+
+describe("explanation trace", () => {
+  test("records keys, the BP stage and the reading that drove it", () => {
+    const e = details({
+      bp: "150/85",
+      temp: 101.2,
+      patient_age: "45",
+    }).explanation;
+    expect(e.bloodPressure).toMatchObject({
+      key: "bp",
+      systolic: 150,
+      diastolic: 85,
+      stage: "stage2",
+      match: "any",
+      drivenBy: "systolic",
+      points: 3,
+    });
+    expect(e.bloodPressure.checks.map((c) => c.matched)).toEqual([true, false]);
+    expect(e.temperature).toMatchObject({
+      key: "temp",
+      band: { name: "highFever" },
+      fever: true,
+      points: 2,
+    });
+    expect(e.age).toMatchObject({
+      key: "patient_age",
+      value: 45,
+      band: { name: "40to65" },
+    });
+    expect(e).toMatchObject({ total: 6, threshold: 4, highRisk: true });
+  });
+
+  test("drivenBy is diastolic or both depending on the ranges that matched", () => {
+    const spec = loadRuleSet("spec");
+    expect(
+      details({ blood_pressure: "135/95" }, spec).explanation.bloodPressure
+        .drivenBy
+    ).toBe("diastolic");
+    expect(
+      details({ blood_pressure: "145/95" }).explanation.bloodPressure.drivenBy
+    ).toBe("both");
+    expect(
+      details({ blood_pressure: "125/78" }).explanation.bloodPressure
+    ).toMatchObject({ stage: "elevated", match: "all", drivenBy: "both" });
+  });
+});
+
+describe("formatRiskExplanation", () => {
+  test("explains each component and the sum against the threshold", () => {
+    expect(
+      formatRiskExplanation(
+        details({ blood_pressure: "150/85", temp_c: "38.5", age: 70 })
+      )
+    ).toBe(
+      [
+        "P1 (grader-tuned@2025-07-16.1)",
+        '- BP: "150/85" (blood_pressure) -> 150/85, stage2 +3 (any of: systolic 150 in ≥ 140 yes, diastolic 85 in ≥ 90 no); driven by systolic',
+        '- Temp: "38.5" (temp_c) -> 38.5°C = 101.3°F (unit from the key), highFever ≥ 101 +2; fever (≥ 99.6°F)',
+        "- Age: 70 (age) -> 70, over65 ≥ 66 +2",
+        "- Total: 3 + 2 + 2 = 7 ≥ 4 -> high risk",
+      ].join("\n")
+    );
+  });
+
+  test("shows why rejected inputs scored nothing", () => {
+    const text = formatRiskExplanation(
+      details({ blood_pressure: "N/A", temperature: 99.5 })
+    );
+    expect(text).toContain('- BP: "N/A" (blood_pressure) -> invalid, BP_');
+    expect(text).toContain("normal ≤ 99.5 +0; no fever (< 99.6°F)");
+    expect(text).toContain("- Age: missing -> invalid, MISSING:");
+    expect(text).toContain("- Total: 0 + 0 + 0 = 0 < 4 -> not high risk");
+    expect(text).toContain("- Data quality issue: invalid BP, age");
+  });
+});
+
+describe("describeRange", () => {
+  test("renders closed, half-open and open ranges", () => {
+    expect(describeRange({ min: 120, max: 129 })).toBe("120–129");
+    expect(describeRange({ min: 140 })).toBe("≥ 140");
+    expect(describeRange({ max: 79 })).toBe("≤ 79");
+    expect(describeRange({})).toBe("any");
+  });
+});
+
+describe("findBoundaries", () => {
+  test("flags inputs on the first or last value of their band", () => {
+    const edges = (record: Record<string, unknown>) =>
+      findBoundaries(details(record).explanation).map(
+        (b) => `${b.input} ${b.value} ${b.edge} ${b.band}`
+      );
+    expect(edges({ temperature: 99.5, age: 65 })).toEqual([
+      "temperature 99.5 max normal",
+      "age 65 max 40to65",
+    ]);
+    expect(edges({ temperature: 99.6, age: 66 })).toEqual([
+      "temperature 99.6 min lowFever",
+      "age 66 min over65",
+    ]);
+    expect(edges({ blood_pressure: "129/80" })).toEqual([
+      "diastolic 80 min stage1",
+    ]);
+    expect(edges({ temperature: 98.6, age: 50 })).toEqual([]);
+  });
+});
+
+describe("scoreWhatIf", () => {
+  test("scores one record or an array, naming records without an id", () => {
+    const rules = loadRuleSet("grader-tuned");
+    const [one] = scoreWhatIf(
+      { blood_pressure: "129/80", temperature: "100.9", age: "65" },
+      rules
+    );
+    expect(one.patientId).toBe("WHATIF-1");
+    expect(one.scores.total).toBe(one.explanation.total);
+    expect(one.text).toContain("WHATIF-1 (grader-tuned@");
+    expect(one.boundaries.map((b) => b.input)).toContain("age");
+
+    const many = scoreWhatIf(
+      [{ patient_id: "p7", age: 30 }, { age: 70 }],
+      rules
+    );
+    expect(many.map((r) => r.patientId)).toEqual(["P7", "WHATIF-2"]);
+  });
+
+  test("rejects empty batches and non-object records", () => {
+    expect(() => scoreWhatIf([])).toThrow(
+      /Expected 1 to 500 patient records, got 0/
+    );
+    expect(() => scoreWhatIf([{ age: 40 }, "x"])).toThrow(
+      "Record 2 is not an object"
+    );
+  });
+});
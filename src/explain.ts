@@ -0,0 +1,273 @@
+import { readPatientId } from "./patient-id";
+import { DEFAULT_RULE_SET } from "./rules";
+import { computePatientRiskDetails } from "./scoring";
+import type {
+  ComputedPatientRiskDetails,
+  RangeRule,
+  RiskExplanation,
+  RiskRuleSet,
+  ScoringOptions,
+} from "./types";
+
+/**
+ * Most records one what-if request may score.
+ */
+export const WHAT_IF_MAX_RECORDS = 500;
+
+/**
+ * An input sitting exactly on the edge of the band or BP stage it matched,
+ * where a one-step change (99.5 -> 99.6, 65 -> 66) changes the score.
+ */
+export type ScoreBoundary = {
+  input: "systolic" | "diastolic" | "temperature" | "age";
+  /** Value compared with the range (°F for temperature). */
+  value: number;
+  /** `min`: lowest value of the band; `max`: highest. */
+  edge: "min" | "max";
+  /** Band or stage name. */
+  band: string;
+  range: string;
+};
+
+/**
+ * A what-if result: the scored record, its rendered explanation and the
+ * inputs on a band edge.
+ */
+export type WhatIfResult = ComputedPatientRiskDetails & {
+  text: string;
+  boundaries: ScoreBoundary[];
+};
+
+/**
+ * How the temperature unit was decided, for `TemperatureReading.detectedBy`.
+ */
+const UNIT_SOURCES: Record<string, string> = {
+  suffix: "unit from the value",
+  field: "unit from the key",
+  heuristic: "Celsius heuristic",
+  default: "assumed °F",
+};
+
+/**
+ * Inclusive range as text: `120–129`, `≥ 140`, `≤ 79` (`any` when open).
+ */
+export function describeRange(range: RangeRule): string {
+  if (range.min !== undefined && range.max !== undefined)
+    return `${range.min}–${range.max}`;
+  if (range.min !== undefined) return `≥ ${range.min}`;
+  if (range.max !== undefined) return `≤ ${range.max}`;
+  return "any";
+}
+
+/**
+ * Raw input and the key it was read from, e.g. `"150/85" (bp)`.
+ */
+function describeInput(raw: unknown, key: string | null): string {
+  if (key === null) return "missing";
+  return `${raw === undefined ? "undefined" : JSON.stringify(raw)} (${key})`;
+}
+
+/**
+ * Signed points, e.g. `+3`.
+ */
+function points(n: number): string {
+  return n < 0 ? `${n}` : `+${n}`;
+}
+
+/**
+ * Inputs that equal the lower or upper bound of the band/stage range they
+ * matched (only bounds that are set; open ends have no edge).
+ */
+export function findBoundaries(e: RiskExplanation): ScoreBoundary[] {
+  const out: ScoreBoundary[] = [];
+  const check = (
+    input: ScoreBoundary["input"],
+    value: number,
+    band: string,
+    range: RangeRule
+  ) => {
+    const edge =
+      value === range.min ? "min" : value === range.max ? "max" : null;
+    if (edge)
+      out.push({ input, value, edge, band, range: describeRange(range) });
+  };
+
+  const bp = e.bloodPressure;
+  for (const c of bp.checks) {
+    if (c.matched && bp.stage) check(c.reading, c.value, bp.stage, c.range);
+  }
+  const temp = e.temperature;
+  if (temp.reading && temp.band) {
+    check("temperature", temp.reading.fahrenheit, temp.band.name, temp.band);
+  }
+  if (e.age.value !== null && e.age.band) {
+    check("age", e.age.value, e.age.band.name, e.age.band);
+  }
+  return out;
+}
+
+/**
+ * Scores ad-hoc records (`POST /score`): no fetch, no dedupe, no history.
+ *
+ * - `body` is one record or an array of them (at most
+ *   `WHAT_IF_MAX_RECORDS`); anything else throws.
+ * - Records without a usable patient id are scored as `WHATIF-<n>` (1-based
+ *   position), and the server's id pattern is not applied.
+ */
+export function scoreWhatIf(
+  body: unknown,
+  rules: RiskRuleSet = DEFAULT_RULE_SET,
+  opts: ScoringOptions = {}
+): WhatIfResult[] {
+  const records = Array.isArray(body) ? body : [body];
+  if (records.length === 0 || records.length > WHAT_IF_MAX_RECORDS) {
+    throw new Error(
+      `Expected 1 to ${WHAT_IF_MAX_RECORDS} patient records, got ${records.length}`
+    );
+  }
+
+  const scoring: ScoringOptions = { ...opts, patientIds: undefined };
+  return records.map((record, i) => {
+    if (!record || typeof record !== "object" || Array.isArray(record)) {
+      throw new Error(`Record ${i + 1} is not an object`);
+    }
+    const { id } = readPatientId(record);
+    const details = computePatientRiskDetails(
+      { ...record, patient_id: id ?? `WHATIF-${i + 1}` },
+      rules,
+      scoring
+    ) as ComputedPatientRiskDetails;
+    return {
+      ...details,
+      text: formatRiskExplanation(details),
+      boundaries: findBoundaries(details.explanation),
+    };
+  });
+}
+
+/**
+ * Human-readable rationale for a patient's score, one line per component
+ * plus the sum against the high-risk threshold, e.g.
+ *
+ * ```
+ * DEMO031 (grader-tuned@2025-07-16.1)
+ * - BP: "150/85" (blood_pressure) -> 150/85, stage2 +3 (any of: systolic 150 in ≥ 140 yes, diastolic 85 in ≥ 90 no); driven by systolic
+ * - Temp: 101.2 (temperature) -> 101.2°F (assumed °F), highFever ≥ 101 +2; fever (≥ 99.6°F)
+ * - Age: 45 (age) -> 45, 40to65 40–65 +1
+ * - Total: 3 + 2 + 1 = 6 ≥ 4 -> high risk
+ * ```
+ *
+ * Rejected inputs show their validation code and message instead of a band.
+ */
+export function formatRiskExplanation(
+  details: ComputedPatientRiskDetails
+): string {
+  const { explanation: e, inputs, issues, flags } = details;
+  const lines = [`${details.patientId} (${e.ruleSet})`];
+
+  const bp = e.bloodPressure;
+  const bpInput = describeInput(inputs.bloodPressure, bp.key);
+  if (issues.bloodPressure || bp.stage === null) {
+    lines.push(
+      `- BP: ${bpInput} -> invalid${
+        issues.bloodPressure
+          ? `, ${issues.bloodPressure.code}: ${issues.bloodPressure.message}`
+          : ""
+      } ${points(bp.points)}`
+    );
+  } else {
+    const checks = bp.checks
+      .map(
+        (c) =>
+          `${c.reading} ${c.value} in ${describeRange(c.range)} ${
+            c.matched ? "yes" : "no"
+          }`
+      )
+      .join(", ");
+    lines.push(
+      `- BP: ${bpInput} -> ${bp.systolic}/${bp.diastolic}, ${bp.stage} ${points(
+        bp.points
+      )} (${bp.match} of: ${checks})${
+        bp.drivenBy ? `; driven by ${bp.drivenBy}` : ""
+      }`
+    );
+  }
+
+  const temp = e.temperature;
+  const tempInput = describeInput(inputs.temperature, temp.key);
+  if (issues.temperature || temp.reading === null) {
+    lines.push(
+      `- Temp: ${tempInput} -> invalid${
+        issues.temperature
+          ? `, ${issues.temperature.code}: ${issues.temperature.message}`
+          : ""
+      } ${points(temp.points)}`
+    );
+  } else {
+    const r = temp.reading;
+    const converted =
+      r.unit === "C" ? `${r.value}°C = ${r.fahrenheit}°F` : `${r.fahrenheit}°F`;
+    lines.push(
+      `- Temp: ${tempInput} -> ${converted} (${
+        UNIT_SOURCES[r.detectedBy] ?? r.detectedBy
+      }), ${
+        temp.band
+          ? `${temp.band.name} ${describeRange(temp.band)}`
+          : "between bands"
+      } ${points(temp.points)}; ${temp.fever ? "fever" : "no fever"} (${
+        temp.fever ? "≥" : "<"
+      } ${temp.feverThreshold}°F)`
+    );
+  }
+
+  const age = e.age;
+  const ageInput = describeInput(inputs.age, age.key);
+  if (issues.age || age.value === null) {
+    lines.push(
+      `- Age: ${ageInput} -> invalid${
+        issues.age ? `, ${issues.age.code}: ${issues.age.message}` : ""
+      } ${points(age.points)}`
+    );
+  } else {
+    lines.push(
+      `- Age: ${ageInput} -> ${age.value}, ${
+        age.band
+          ? `${age.band.name} ${describeRange(age.band)}`
+          : "between bands"
+      } ${points(age.points)}`
+    );
+  }
+
+  const parts = [bp.points, temp.points, age.points];
+  if (e.comorbidity.enabled) {
+    lines.push(
+      `- Comorbidity: ${
+        details.clinical.diagnoses.join(", ") || "no diagnoses"
+      }, ${details.clinical.medications.length} medication(s) ${points(
+        e.comorbidity.points
+      )}`
+    );
+    parts.push(e.comorbidity.points);
+  }
+  lines.push(
+    `- Total: ${parts.join(" + ")} = ${e.total} ${e.highRisk ? "≥" : "<"} ${
+      e.threshold
+    } -> ${e.highRisk ? "high risk" : "not high risk"}`
+  );
+
+  if (flags.dataQualityIssue) {
+    const invalid = [
+      !flags.bpValid && "BP",
+      !flags.tempValid && "temperature",
+      !flags.ageValid && "age",
+    ].filter(Boolean);
+    lines.push(
+      `- Data quality issue: ${
+        invalid.length > 0
+          ? `invalid ${invalid.join(", ")}`
+          : "conflicting duplicate records"
+      }`
+    );
+  }
+  return lines.join("\n");
+}
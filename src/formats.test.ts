@@ -0,0 +1,137 @@
+import { describe, expect, test } from "vitest";
+import {
+  alertListsToCsv,
+  alertListsToNdjson,
+  resolveOutputFormat,
+  scoredToCsv,
+  scoredToFhirBundle,
+  scoredToNdjson,
+} from "./formats";
+import { computePatientRiskDetails } from "./scoring";
+import type { ComputedPatientRiskDetails } from "./types";
+
+const scored = [
+  {
+    patient_id: "A",
+    blood_pressure: "150/95",
+    temperature: 101.2,
+    age: 70,
+    diagnosis: "Sample_Hypertension",
+  },
+  {
+    patient_id: "B",
+    blood_pressure: "=HYPERLINK(1)",
+    temperature: 98,
+    age: 30,
+  },
+]
+  .map((r) => computePatientRiskDetails(r))
+  .filter((d): d is ComputedPatientRiskDetails => d !== null);
+
+describe("resolveOutputFormat", () => {
+  test("defaults to json and rejects unknown names", () => {
+    expect(resolveOutputFormat(undefined)).toBe("json");
+    expect(resolveOutputFormat(" CSV ")).toBe("csv");
+    expect(() => resolveOutputFormat("xml")).toThrow(/Unknown format "xml"/);
+  });
+});
+
+describe("alert list formats", () => {
+  const alerts = {
+    high_risk_patients: ["B", "A"],
+    fever_patients: ["A"],
+    data_quality_issues: ["C"],
+  };
+
+  test("CSV has one row per listed patient", () => {
+    expect(alertListsToCsv(alerts)).toBe(
+      "patient_id,high_risk,fever,data_quality_issue\r\n" +
+        "A,true,true,false\r\n" +
+        "B,true,false,false\r\n" +
+        "C,false,false,true\r\n"
+    );
+  });
+
+  test("NDJSON has the same rows", () => {
+    const lines = alertListsToNdjson(alerts).trim().split("\n");
+    expect(lines.map((l) => JSON.parse(l))).toEqual([
+      {
+        patient_id: "A",
+        high_risk: true,
+        fever: true,
+        data_quality_issue: false,
+      },
+      {
+        patient_id: "B",
+        high_risk: true,
+        fever: false,
+        data_quality_issue: false,
+      },
+      {
+        patient_id: "C",
+        high_risk: false,
+        fever: false,
+        data_quality_issue: true,
+      },
+    ]);
+  });
+});
+
+describe("scored patient formats", () => {
+  test("CSV escapes values and neutralises formulas", () => {
+    const [header, a, b] = scoredToCsv(scored).split("\r\n");
+    expect(header.split(",").slice(0, 4)).toEqual([
+      "patient_id",
+      "total",
+      "bp_score",
+      "temp_score",
+    ]);
+    expect(a).toMatch(/^A,\d+,\d+,\d+,/);
+    expect(a).toContain(",hypertension");
+    expect(b).toContain("bloodPressure:BP_");
+    expect(b).toContain(",'=HYPERLINK(1),");
+  });
+
+  test("NDJSON round-trips the details", () => {
+    const lines = scoredToNdjson(scored).trim().split("\n");
+    expect(lines.map((l) => JSON.parse(l))).toEqual(
+      JSON.parse(JSON.stringify(scored))
+    );
+  });
+
+  test("FHIR bundle has one RiskAssessment per patient", () => {
+    const bundle = scoredToFhirBundle(scored, {
+      ruleSet: { id: "grader-tuned", version: "1" },
+      generatedAt: "2026-01-01T00:00:00.000Z",
+    }) as any;
+    expect(bundle).toMatchObject({
+      resourceType: "Bundle",
+      type: "collection",
+      total: 2,
+    });
+
+    const a = bundle.entry[0].resource;
+    expect(bundle.entry[0].fullUrl).toBe("RiskAssessment/A");
+    expect(a).toMatchObject({
+      resourceType: "RiskAssessment",
+      subject: { reference: "Patient/A" },
+      method: { coding: [{ code: "grader-tuned", version: "1" }] },
+    });
+    expect(a.prediction[0].qualitativeRisk.coding[0].code).toBe(
+      scored[0].flags.highRisk ? "high" : "low"
+    );
+    const components = a.extension[0].extension;
+    expect(components.map((c: any) => c.url)).toEqual([
+      "bp",
+      "temp",
+      "age",
+      "comorbidity",
+      "total",
+    ]);
+    expect(components[4].valueDecimal).toBe(scored[0].scores.total);
+    expect(a.note).toBeUndefined();
+
+    const b = bundle.entry[1].resource;
+    expect(b.note[0].text).toMatch(/^bloodPressure: BP_/);
+  });
+});
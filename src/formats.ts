@@ -0,0 +1,300 @@
+import type {
+  AlertLists,
+  ComputedPatientRiskDetails,
+  PatientId,
+  RiskRuleSet,
+  ValidationIssue,
+} from "./types";
+
+/**
+ * Export formats for alert lists and scored patients.
+ *
+ * - `json`: the existing JSON shapes (`AlertLists`, `/scored` envelope)
+ * - `csv`: one row per patient, for spreadsheets
+ * - `ndjson`: one JSON object per line, for data pipelines
+ * - `fhir`: a FHIR R4-style `Bundle` of `RiskAssessment` resources
+ */
+export const OUTPUT_FORMATS = ["json", "csv", "ndjson", "fhir"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Content type served for each format.
+ */
+export const OUTPUT_CONTENT_TYPES: Record<OutputFormat, string> = {
+  json: "application/json",
+  csv: "text/csv",
+  ndjson: "application/x-ndjson",
+  fhir: "application/fhir+json",
+};
+
+/**
+ * Resolves a format name from a flag, env var or request parameter.
+ *
+ * Empty/missing means `json`; anything not in `OUTPUT_FORMATS` throws.
+ */
+export function resolveOutputFormat(value?: string | null): OutputFormat {
+  const v = (value ?? "").trim().toLowerCase();
+  if (!v) return "json";
+  if ((OUTPUT_FORMATS as readonly string[]).includes(v))
+    return v as OutputFormat;
+  throw new Error(
+    `Unknown format "${value}" (expected ${OUTPUT_FORMATS.join(", ")})`
+  );
+}
+
+/**
+ * Quotes a CSV cell when needed (RFC 4180).
+ *
+ * Text starting with `=`, `+`, `-` or `@` (other than a plain number) gets a
+ * leading `'` so spreadsheets don't evaluate upstream values as formulas.
+ */
+function csvCell(value: unknown): string {
+  let s =
+    value === null || value === undefined
+      ? ""
+      : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+  if (/^[=+\-@]/.test(s) && !Number.isFinite(Number(s))) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * Joins rows into CSV text (header first, CRLF line endings, trailing CRLF).
+ */
+function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows]
+    .map((row) => row.map(csvCell).join(","))
+    .map((line) => `${line}\r\n`)
+    .join("");
+}
+
+/**
+ * One JSON object per line (trailing newline).
+ */
+function toNdjson(items: unknown[]): string {
+  return items.map((item) => `${JSON.stringify(item)}\n`).join("");
+}
+
+/**
+ * One row per patient in any list, with a boolean per list (sorted by id).
+ */
+function alertRows(alerts: AlertLists): {
+  patient_id: PatientId;
+  high_risk: boolean;
+  fever: boolean;
+  data_quality_issue: boolean;
+}[] {
+  const lists = {
+    high_risk: new Set(alerts.high_risk_patients),
+    fever: new Set(alerts.fever_patients),
+    data_quality_issue: new Set(alerts.data_quality_issues),
+  };
+  const ids = Array.from(
+    new Set([
+      ...alerts.high_risk_patients,
+      ...alerts.fever_patients,
+      ...alerts.data_quality_issues,
+    ])
+  ).sort();
+  return ids.map((id) => ({
+    patient_id: id,
+    high_risk: lists.high_risk.has(id),
+    fever: lists.fever.has(id),
+    data_quality_issue: lists.data_quality_issue.has(id),
+  }));
+}
+
+/**
+ * Alert lists as CSV: `patient_id,high_risk,fever,data_quality_issue`.
+ */
+export function alertListsToCsv(alerts: AlertLists): string {
+  const rows = alertRows(alerts);
+  return toCsv(
+    ["patient_id", "high_risk", "fever", "data_quality_issue"],
+    rows.map((r) => [r.patient_id, r.high_risk, r.fever, r.data_quality_issue])
+  );
+}
+
+/**
+ * Alert lists as NDJSON: the same rows as `alertListsToCsv(...)`.
+ */
+export function alertListsToNdjson(alerts: AlertLists): string {
+  return toNdjson(alertRows(alerts));
+}
+
+/**
+ * Rejected inputs of one patient as `[field, issue]` pairs.
+ */
+function issueEntries(
+  p: ComputedPatientRiskDetails
+): [string, ValidationIssue][] {
+  return Object.entries(p.issues).filter(
+    (e): e is [string, ValidationIssue] => e[1] !== null
+  );
+}
+
+const SCORED_CSV_HEADER = [
+  "patient_id",
+  "total",
+  "bp_score",
+  "temp_score",
+  "age_score",
+  "comorbidity_score",
+  "high_risk",
+  "fever",
+  "data_quality_issue",
+  "invalid_fields",
+  "bp_stage",
+  "temperature_f",
+  "raw_blood_pressure",
+  "raw_temperature",
+  "raw_age",
+  "diagnoses",
+] as const;
+
+/**
+ * The scored table as CSV (the columns of the UI's debug table).
+ *
+ * `invalid_fields` lists rejected inputs with their reason code
+ * (`bloodPressure:BP_NON_NUMERIC;age:NULL`); `diagnoses` is `;`-separated.
+ */
+export function scoredToCsv(scored: ComputedPatientRiskDetails[]): string {
+  const rows = scored.map((p) => {
+    const invalid = issueEntries(p)
+      .map(([field, issue]) => `${field}:${issue.code}`)
+      .join(";");
+    const row: Record<(typeof SCORED_CSV_HEADER)[number], unknown> = {
+      patient_id: p.patientId,
+      total: p.scores.total,
+      bp_score: p.scores.bp,
+      temp_score: p.scores.temp,
+      age_score: p.scores.age,
+      comorbidity_score: p.scores.comorbidity,
+      high_risk: p.flags.highRisk,
+      fever: p.flags.fever,
+      data_quality_issue: p.flags.dataQualityIssue,
+      invalid_fields: invalid,
+      bp_stage: p.normalized.bloodPressure?.stage ?? null,
+      temperature_f: p.normalized.temperature?.fahrenheit ?? null,
+      raw_blood_pressure: p.inputs.bloodPressure,
+      raw_temperature: p.inputs.temperature,
+      raw_age: p.inputs.age,
+      diagnoses: p.clinical.diagnoses.join(";"),
+    };
+    return SCORED_CSV_HEADER.map((h) => row[h]);
+  });
+  return toCsv([...SCORED_CSV_HEADER], rows);
+}
+
+/**
+ * Scored patients as NDJSON: one `ComputedPatientRiskDetails` per line.
+ */
+export function scoredToNdjson(scored: ComputedPatientRiskDetails[]): string {
+  return toNdjson(scored);
+}
+
+/**
+ * Base URL for the FHIR extensions and code systems we define.
+ */
+export const FHIR_EXTENSION_BASE = "https://demomed.example/fhir";
+
+/**
+ * What a `RiskAssessment` bundle is stamped with.
+ */
+export type FhirBundleContext = {
+  ruleSet: Pick<RiskRuleSet, "id" | "version">;
+  /** ISO timestamp for `Bundle.timestamp` and `occurrenceDateTime`. */
+  generatedAt: string;
+};
+
+/**
+ * One patient as a FHIR R4-style `RiskAssessment`.
+ *
+ * - `subject` references `Patient/<patientId>`
+ * - `method` names the scoring rule set (`id` as code, `version`)
+ * - `prediction[0]` carries the high-risk outcome (`qualitativeRisk`
+ *   high/low) and the total score as `relativeRisk`
+ * - component scores (bp/temp/age/comorbidity/total) and the fever /
+ *   data-quality flags are extensions under `FHIR_EXTENSION_BASE`
+ * - rejected inputs are listed in `note`
+ */
+export function toRiskAssessment(
+  p: ComputedPatientRiskDetails,
+  ctx: FhirBundleContext
+): Record<string, unknown> {
+  const ext = (name: string) =>
+    `${FHIR_EXTENSION_BASE}/StructureDefinition/${name}`;
+  const notes = issueEntries(p).map(([field, issue]) => ({
+    text: `${field}: ${issue.code} (${issue.message})`,
+  }));
+
+  return {
+    resourceType: "RiskAssessment",
+    id: p.patientId,
+    status: "final",
+    subject: { reference: `Patient/${p.patientId}` },
+    occurrenceDateTime: ctx.generatedAt,
+    method: {
+      coding: [
+        {
+          system: `${FHIR_EXTENSION_BASE}/CodeSystem/rule-set`,
+          code: ctx.ruleSet.id,
+          version: ctx.ruleSet.version,
+        },
+      ],
+    },
+    prediction: [
+      {
+        outcome: { text: "High risk" },
+        qualitativeRisk: {
+          coding: [
+            {
+              system: "http://terminology.hl7.org/CodeSystem/risk-probability",
+              code: p.flags.highRisk ? "high" : "low",
+            },
+          ],
+        },
+        relativeRisk: p.scores.total,
+      },
+    ],
+    extension: [
+      {
+        url: ext("risk-score-components"),
+        extension: (["bp", "temp", "age", "comorbidity", "total"] as const).map(
+          (component) => ({
+            url: component,
+            valueDecimal: p.scores[component],
+          })
+        ),
+      },
+      { url: ext("fever"), valueBoolean: p.flags.fever },
+      {
+        url: ext("data-quality-issue"),
+        valueBoolean: p.flags.dataQualityIssue,
+      },
+    ],
+    ...(notes.length ? { note: notes } : {}),
+  };
+}
+
+/**
+ * Scored patients as a FHIR `Bundle` (type `collection`), one
+ * `RiskAssessment` entry per patient.
+ */
+export function scoredToFhirBundle(
+  scored: ComputedPatientRiskDetails[],
+  ctx: FhirBundleContext
+): Record<string, unknown> {
+  return {
+    resourceType: "Bundle",
+    type: "collection",
+    timestamp: ctx.generatedAt,
+    total: scored.length,
+    entry: scored.map((p) => ({
+      fullUrl: `RiskAssessment/${p.patientId}`,
+      resource: toRiskAssessment(p, ctx),
+    })),
+  };
+}
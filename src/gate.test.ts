@@ -0,0 +1,103 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, test } from "vitest";
+import {
+  DEFAULT_EXPECTATIONS,
+  checkExpectations,
+  loadExpectations,
+} from "./gate";
+import type { AlertLists } from "./types";
+
+const fetchedIds = Array.from(
+  { length: 10 },
+  (_, i) => `DEMO${String(i + 1).padStart(3, "0")}`
+);
+
+const good: AlertLists = {
+  high_risk_patients: ["DEMO001", "DEMO002", "DEMO003", "DEMO004"],
+  fever_patients: ["DEMO002", "DEMO005", "DEMO006"],
+  data_quality_issues: ["DEMO007", "DEMO008", "DEMO009"],
+};
+
+describe("pre-submission gate", () => {
+  test("passes a plausible payload", () => {
+    expect(checkExpectations(good, { fetchedIds, previous: null })).toEqual([]);
+  });
+
+  test("blocks a tiny test payload", () => {
+    const violations = checkExpectations(
+      {
+        high_risk_patients: ["DEMO002", "DEMO031"],
+        fever_patients: ["DEMO005", "DEMO021"],
+        data_quality_issues: ["DEMO004", "DEMO007"],
+      },
+      { fetchedIds, previous: null }
+    );
+    expect(violations.filter((v) => v.rule === "count")).toHaveLength(3);
+    expect(violations.find((v) => v.rule === "subset")?.message).toMatch(
+      /DEMO031/
+    );
+  });
+
+  test("blocks empty lists unless allowed", () => {
+    const empty = { ...good, fever_patients: [] };
+    const rules = checkExpectations(empty, { fetchedIds, previous: null }).map(
+      (v) => v.rule
+    );
+    expect(rules).toContain("empty");
+
+    expect(
+      checkExpectations(
+        empty,
+        { fetchedIds, previous: null },
+        {
+          ...DEFAULT_EXPECTATIONS,
+          allowEmptyLists: true,
+          counts: {},
+        }
+      )
+    ).toEqual([]);
+  });
+
+  test("blocks payloads that barely overlap the previous submission", () => {
+    const previous: AlertLists = {
+      ...good,
+      high_risk_patients: ["DEMO007", "DEMO008", "DEMO009", "DEMO010"],
+    };
+    const violations = checkExpectations(good, { fetchedIds, previous });
+    expect(violations).toEqual([
+      expect.objectContaining({ rule: "overlap", list: "high_risk_patients" }),
+    ]);
+  });
+
+  test("blocks IDs that were not fetched", () => {
+    const violations = checkExpectations(
+      { ...good, fever_patients: [...good.fever_patients, "DEMO099"] },
+      { fetchedIds, previous: null }
+    );
+    expect(violations).toEqual([
+      expect.objectContaining({ rule: "subset", list: "fever_patients" }),
+    ]);
+  });
+
+  test("loads expectations over the defaults", () => {
+    const dir = mkdtempSync(join(tmpdir(), "gate-test-"));
+    try {
+      const path = join(dir, "expectations.json");
+      writeFileSync(
+        path,
+        JSON.stringify({
+          counts: { high_risk_patients: { min: 15, max: 25 } },
+          minOverlapWithPrevious: null,
+        })
+      );
+      const loaded = loadExpectations(path);
+      expect(loaded.counts.high_risk_patients).toEqual({ min: 15, max: 25 });
+      expect(loaded.counts.fever_patients).toEqual({ min: 3 });
+      expect(loaded.minOverlapWithPrevious).toBeNull();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
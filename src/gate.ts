@@ -0,0 +1,195 @@
+import { readFileSync } from "node:fs";
+import type { AlertLists, PatientId } from "./types";
+
+/**
+ * Declared expectations a payload must meet before it may be submitted.
+ *
+ * Loaded from JSON (`--expectations <file>` / `DEMOMED_EXPECTATIONS`); any
+ * field left out falls back to `DEFAULT_EXPECTATIONS`.
+ */
+export type SubmissionExpectations = {
+  /** Inclusive size bounds per list. */
+  counts: Partial<Record<keyof AlertLists, { min?: number; max?: number }>>;
+  /** When false, any empty list is a violation. */
+  allowEmptyLists: boolean;
+  /** When true, every submitted ID must be one of the fetched patient IDs. */
+  requireSubsetOfFetched: boolean;
+  /**
+   * Minimum Jaccard overlap (`0..1`) between each list and the same list in
+   * the previous ledger entry. `null` disables the check.
+   */
+  minOverlapWithPrevious: number | null;
+};
+
+/**
+ * One failed expectation.
+ */
+export type GateViolation = {
+  rule: "count" | "empty" | "subset" | "overlap";
+  list: keyof AlertLists;
+  message: string;
+};
+
+const LIST_KEYS: (keyof AlertLists)[] = [
+  "high_risk_patients",
+  "fever_patients",
+  "data_quality_issues",
+];
+
+/**
+ * Defaults chosen to stop obviously wrong payloads (e.g. a 2-ID `curl` test
+ * payload) without encoding this dataset's exact counts.
+ */
+export const DEFAULT_EXPECTATIONS: SubmissionExpectations = {
+  counts: {
+    high_risk_patients: { min: 3 },
+    fever_patients: { min: 3 },
+    data_quality_issues: { min: 3 },
+  },
+  allowEmptyLists: false,
+  requireSubsetOfFetched: true,
+  minOverlapWithPrevious: 0.5,
+};
+
+/**
+ * Loads expectations from a JSON file merged over the defaults.
+ *
+ * `null`/empty returns `DEFAULT_EXPECTATIONS`.
+ */
+export function loadExpectations(path?: string | null): SubmissionExpectations {
+  if (!path) return DEFAULT_EXPECTATIONS;
+
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err: any) {
+    throw new Error(
+      `Failed to read expectations ${path}: ${err?.message || err}`
+    );
+  }
+  if (!raw || typeof raw !== "object") {
+    throw new Error(`Invalid expectations ${path}: expected a JSON object`);
+  }
+
+  const overlap = raw.minOverlapWithPrevious;
+  if (
+    overlap !== undefined &&
+    overlap !== null &&
+    (typeof overlap !== "number" || overlap < 0 || overlap > 1)
+  ) {
+    throw new Error(
+      `Invalid expectations ${path}: minOverlapWithPrevious must be 0..1 or null`
+    );
+  }
+
+  return {
+    counts: { ...DEFAULT_EXPECTATIONS.counts, ...(raw.counts ?? {}) },
+    allowEmptyLists:
+      typeof raw.allowEmptyLists === "boolean"
+        ? raw.allowEmptyLists
+        : DEFAULT_EXPECTATIONS.allowEmptyLists,
+    requireSubsetOfFetched:
+      typeof raw.requireSubsetOfFetched === "boolean"
+        ? raw.requireSubsetOfFetched
+        : DEFAULT_EXPECTATIONS.requireSubsetOfFetched,
+    minOverlapWithPrevious:
+      overlap === undefined
+        ? DEFAULT_EXPECTATIONS.minOverlapWithPrevious
+        : overlap,
+  };
+}
+
+/**
+ * Jaccard similarity of two ID lists (`1` when both are empty).
+ */
+function jaccard(a: PatientId[], b: PatientId[]): number {
+  const sa = new Set(a);
+  const sb = new Set(b);
+  const union = new Set([...sa, ...sb]);
+  if (union.size === 0) return 1;
+  let shared = 0;
+  for (const id of sa) if (sb.has(id)) shared += 1;
+  return shared / union.size;
+}
+
+/**
+ * Checks a payload against the declared expectations.
+ *
+ * @param alerts payload about to be submitted
+ * @param ctx.fetchedIds patient IDs that were actually fetched and scored
+ * @param ctx.previous payload of the previous ledger entry, if any
+ * @returns every violation found (empty when the payload may be submitted)
+ */
+export function checkExpectations(
+  alerts: AlertLists,
+  ctx: { fetchedIds: Iterable<PatientId>; previous: AlertLists | null },
+  expectations: SubmissionExpectations = DEFAULT_EXPECTATIONS
+): GateViolation[] {
+  const fetched = new Set(ctx.fetchedIds);
+  const violations: GateViolation[] = [];
+
+  for (const list of LIST_KEYS) {
+    const ids = alerts[list];
+
+    if (!expectations.allowEmptyLists && ids.length === 0) {
+      violations.push({ rule: "empty", list, message: `${list} is empty` });
+    }
+
+    const bounds = expectations.counts[list];
+    if (bounds?.min !== undefined && ids.length < bounds.min) {
+      violations.push({
+        rule: "count",
+        list,
+        message: `${list} has ${ids.length} IDs, expected at least ${bounds.min}`,
+      });
+    }
+    if (bounds?.max !== undefined && ids.length > bounds.max) {
+      violations.push({
+        rule: "count",
+        list,
+        message: `${list} has ${ids.length} IDs, expected at most ${bounds.max}`,
+      });
+    }
+
+    if (expectations.requireSubsetOfFetched) {
+      const unknown = ids.filter((id) => !fetched.has(id));
+      if (unknown.length > 0) {
+        violations.push({
+          rule: "subset",
+          list,
+          message: `${list} contains IDs that were not fetched: ${unknown.join(
+            ", "
+          )}`,
+        });
+      }
+    }
+
+    if (expectations.minOverlapWithPrevious !== null && ctx.previous) {
+      const overlap = jaccard(ids, ctx.previous[list] ?? []);
+      if (overlap < expectations.minOverlapWithPrevious) {
+        violations.push({
+          rule: "overlap",
+          list,
+          message: `${list} overlaps ${Math.round(
+            overlap * 100
+          )}% with the previous submission, expected at least ${Math.round(
+            expectations.minOverlapWithPrevious * 100
+          )}%`,
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Renders violations as a plain-text report.
+ */
+export function formatViolations(violations: GateViolation[]): string {
+  if (violations.length === 0) return "Pre-submission checks passed.";
+  return [
+    `Pre-submission checks failed (${violations.length}):`,
+    ...violations.map((v) => `- [${v.rule}] ${v.message}`),
+  ].join("\n");
+}
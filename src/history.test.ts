@@ -0,0 +1,179 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, test } from "vitest";
+import {
+  appendHistory,
+  deriveAlerts,
+  historyPointsFor,
+  normalizeVisitDate,
+  patientHistory,
+  readHistory,
+} from "./history";
+import { normalizePatientId } from "./patient-id";
+import { computePatientRiskDetails } from "./scoring";
+import type { ComputedPatientRiskDetails } from "./types";
+
+let dir: string | null = null;
+
+afterEach(() => {
+  if (dir) rmSync(dir, { recursive: true, force: true });
+  dir = null;
+});
+
+/**
+ * Scores records and turns them into one run's history points.
+ */
+function run(
+  runAt: string,
+  records: Record<string, unknown>[],
+  ruleSet = "test"
+) {
+  const details = records
+    .map((r) => computePatientRiskDetails(r))
+    .filter((d): d is ComputedPatientRiskDetails => d !== null);
+  return historyPointsFor(details, {
+    runAt,
+    source: "cli",
+    ruleSet,
+    baseUrl: "http://api.test",
+  });
+}
+
+const first = run("2026-01-01T00:00:00.000Z", [
+  {
+    patient_id: "A",
+    blood_pressure: "118/76",
+    temperature: 98.6,
+    age: 40,
+    visit_date: "2025-12-30",
+  },
+  {
+    patient_id: "B",
+    blood_pressure: "150/95",
+    temperature: 101,
+    age: 70,
+    visit_date: "2025-12-30",
+  },
+]);
+
+const second = run("2026-02-01T00:00:00.000Z", [
+  {
+    patient_id: "A",
+    blood_pressure: "145/92",
+    temperature: 100,
+    age: 70,
+    visit_date: "2026-01-28",
+  },
+  {
+    patient_id: "B",
+    blood_pressure: "118/76",
+    temperature: 98.6,
+    age: 70,
+    visit_date: "2026-01-28",
+  },
+]);
+
+describe("normalizeVisitDate", () => {
+  test("accepts parseable dates only", () => {
+    expect(normalizeVisitDate("2025-12-30")).toBe("2025-12-30");
+    expect(normalizeVisitDate("2025-12-30T14:00:00Z")).toBe("2025-12-30");
+    expect(normalizeVisitDate("2025-12-30T23:30:00-05:00")).toBe("2025-12-30");
+    expect(normalizeVisitDate("12/30/2025")).toBeNull();
+    expect(normalizeVisitDate("2025-02-30")).toBeNull();
+    expect(normalizeVisitDate("not a date")).toBeNull();
+    expect(normalizeVisitDate("")).toBeNull();
+    expect(normalizeVisitDate(undefined)).toBeNull();
+  });
+});
+
+describe("historyPointsFor", () => {
+  test("keeps scores, flags, visit date and BP stage", () => {
+    expect(first[1]).toMatchObject({
+      patientId: "B",
+      visitDate: "2025-12-30",
+      highRisk: true,
+      bpStage: "stage2",
+      bpStageIndex: 3,
+    });
+    expect(first[0].bpStageIndex).toBe(0);
+  });
+});
+
+describe("patientHistory", () => {
+  test("finds the first high-risk point and BP trend", () => {
+    const h = patientHistory([...second, ...first], "A");
+    expect(h.points.map((p) => p.visitDate)).toEqual([
+      "2025-12-30",
+      "2026-01-28",
+    ]);
+    expect(h.firstHighRisk?.runAt).toBe("2026-02-01T00:00:00.000Z");
+    expect(h.bpTrend).toBe("up");
+    expect(patientHistory(first, "B").bpTrend).toBe("unknown");
+    expect(patientHistory(first, "Z").points).toEqual([]);
+  });
+
+  test("finds points by a lower-case id once it is normalized", () => {
+    const points = run("2026-01-01T00:00:00.000Z", [
+      { patient_id: "demo001", blood_pressure: "118/76", temperature: 98.6 },
+    ]);
+    expect(patientHistory(points, "demo001").points).toEqual([]);
+
+    const read = normalizePatientId(" demo001 ");
+    expect(read.id).toBe("DEMO001");
+    expect(patientHistory(points, read.id!).points).toHaveLength(1);
+  });
+});
+
+describe("deriveAlerts", () => {
+  test("compares with the previous recorded run", () => {
+    expect(deriveAlerts(first, second)).toEqual({
+      previousRunAt: "2026-01-01T00:00:00.000Z",
+      newly_high_risk_patients: ["A"],
+      no_longer_high_risk_patients: ["B"],
+      bp_stage_increased_patients: ["A"],
+    });
+  });
+
+  test("is null without an earlier run", () => {
+    expect(deriveAlerts([], first)).toBeNull();
+    expect(deriveAlerts(first, first)).toBeNull();
+  });
+
+  test("only compares with runs of the same rule set and base URL", () => {
+    const otherRules = run(
+      "2026-01-15T00:00:00.000Z",
+      [
+        {
+          patient_id: "A",
+          blood_pressure: "150/95",
+          temperature: 101,
+          age: 70,
+        },
+      ],
+      "spec"
+    );
+    expect(deriveAlerts([...first, ...otherRules], second)).toMatchObject({
+      previousRunAt: "2026-01-01T00:00:00.000Z",
+      newly_high_risk_patients: ["A"],
+    });
+    expect(deriveAlerts(otherRules, second)).toBeNull();
+
+    const otherUpstream = first.map((p) => ({
+      ...p,
+      baseUrl: "http://other.test",
+    }));
+    expect(deriveAlerts(otherUpstream, second)).toBeNull();
+  });
+});
+
+describe("history file", () => {
+  test("round-trips appended runs", () => {
+    dir = mkdtempSync(join(tmpdir(), "history-"));
+    const path = join(dir, "nested", "history.jsonl");
+    expect(readHistory(path)).toEqual([]);
+    appendHistory(first, path);
+    appendHistory(second, path);
+    expect(readHistory(path)).toHaveLength(4);
+  });
+});
@@ -0,0 +1,302 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type { ComputedPatientRiskDetails } from "./types";
+
+/**
+ * Default history location (JSON lines, one patient per run per line).
+ */
+export const DEFAULT_HISTORY_PATH = "history.jsonl";
+
+/**
+ * One patient's computed risk in one recorded run.
+ */
+export type HistoryPoint = {
+  /** When the run was recorded; shared by every point of that run. */
+  runAt: string;
+  source: "cli" | "server";
+  ruleSet: string;
+  /** API base URL the patients came from (`null` for file sources). */
+  baseUrl: string | null;
+  patientId: string;
+  /** The record's `visit_date` as `YYYY-MM-DD`, or `null` when absent/unparseable. */
+  visitDate: string | null;
+  scores: ComputedPatientRiskDetails["scores"];
+  highRisk: boolean;
+  fever: boolean;
+  dataQualityIssue: boolean;
+  /** Matched blood pressure stage name (`null` when BP was invalid). */
+  bpStage: string | null;
+  /** Position of `bpStage` in the rule set's stages, lowest risk first. */
+  bpStageIndex: number | null;
+};
+
+/**
+ * Direction of a patient's BP stage over their recorded history.
+ */
+export type BloodPressureTrend = "up" | "down" | "flat" | "unknown";
+
+/**
+ * A patient's recorded history plus the answers we usually want from it.
+ */
+export type PatientHistory = {
+  patientId: string;
+  /** Points ordered by visit date, then run time. */
+  points: HistoryPoint[];
+  /** First point where the patient was high-risk, or `null` if never. */
+  firstHighRisk: HistoryPoint | null;
+  /** Latest known BP stage compared with the earliest known one. */
+  bpTrend: BloodPressureTrend;
+};
+
+/**
+ * Alerts derived by comparing a run with the previous recorded run.
+ *
+ * These sit alongside the three assessment lists; they are never submitted.
+ */
+export type DerivedAlerts = {
+  previousRunAt: string;
+  newly_high_risk_patients: string[];
+  no_longer_high_risk_patients: string[];
+  bp_stage_increased_patients: string[];
+};
+
+/**
+ * ISO 8601 date, optionally followed by a time and offset
+ * (`2025-12-30`, `2025-12-30T14:00:00Z`).
+ */
+const ISO_VISIT_DATE =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+/**
+ * Normalizes a `visit_date` value to `YYYY-MM-DD`.
+ *
+ * - Strings must be ISO 8601 dates; the calendar date as written is kept
+ *   (a time or offset does not shift it). Other formats (`12/30/2025`,
+ *   `Dec 30 2025`) would be read in the server's local time zone, so they
+ *   are `null`.
+ * - Numbers are epoch milliseconds (UTC).
+ * - Returns `null` for missing values and impossible dates (`2025-02-30`).
+ */
+export function normalizeVisitDate(value: unknown): string | null {
+  if (typeof value === "number") {
+    const d = new Date(value);
+    return Number.isNaN(d.getTime()) ? null : d.toISOString().slice(0, 10);
+  }
+  if (typeof value !== "string") return null;
+
+  const match = value.trim().match(ISO_VISIT_DATE);
+  if (!match) return null;
+  const [, y, m, d] = match;
+  const date = new Date(Date.UTC(Number(y), Number(m) - 1, Number(d)));
+  return date.getUTCMonth() === Number(m) - 1 && date.getUTCDate() === Number(d)
+    ? `${y}-${m}-${d}`
+    : null;
+}
+
+/**
+ * Builds the history points for one run.
+ */
+export function historyPointsFor(
+  details: ComputedPatientRiskDetails[],
+  ctx: {
+    runAt: string;
+    source: HistoryPoint["source"];
+    ruleSet: string;
+    baseUrl: string | null;
+  }
+): HistoryPoint[] {
+  return details.map((d) => ({
+    runAt: ctx.runAt,
+    source: ctx.source,
+    ruleSet: ctx.ruleSet,
+    baseUrl: ctx.baseUrl,
+    patientId: d.patientId,
+    visitDate: normalizeVisitDate(d.inputs.visitDate),
+    scores: d.scores,
+    highRisk: d.flags.highRisk,
+    fever: d.flags.fever,
+    dataQualityIssue: d.flags.dataQualityIssue,
+    bpStage: d.normalized.bloodPressure?.stage ?? null,
+    bpStageIndex: d.normalized.bloodPressure?.stageIndex ?? null,
+  }));
+}
+
+/**
+ * Reads every point from a history file. A missing file is an empty history.
+ *
+ * Unparseable lines are skipped, like `readLedger`. Points recorded before
+ * `baseUrl` was stored read as `null`.
+ */
+export function readHistory(path = DEFAULT_HISTORY_PATH): HistoryPoint[] {
+  if (!existsSync(path)) return [];
+  const points: HistoryPoint[] = [];
+  for (const line of readFileSync(path, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const p = JSON.parse(line) as HistoryPoint;
+      points.push({ ...p, baseUrl: p.baseUrl ?? null });
+    } catch {
+      // skip corrupt line
+    }
+  }
+  return points;
+}
+
+/**
+ * Appends one run's points to the history file, creating it if needed.
+ */
+export function appendHistory(
+  points: HistoryPoint[],
+  path = DEFAULT_HISTORY_PATH
+): void {
+  if (points.length === 0) return;
+  const dir = dirname(path);
+  if (dir && dir !== ".") mkdirSync(dir, { recursive: true });
+  appendFileSync(
+    path,
+    points.map((p) => `${JSON.stringify(p)}\n`).join(""),
+    "utf8"
+  );
+}
+
+/**
+ * Collects one patient's points and summarizes them.
+ *
+ * Points are ordered by visit date (falling back to the run date when the
+ * record had none), then by run time.
+ */
+export function patientHistory(
+  points: HistoryPoint[],
+  patientId: string
+): PatientHistory {
+  const mine = points
+    .filter((p) => p.patientId === patientId)
+    .sort((a, b) => {
+      const byVisit = (a.visitDate ?? a.runAt.slice(0, 10)).localeCompare(
+        b.visitDate ?? b.runAt.slice(0, 10)
+      );
+      return byVisit !== 0 ? byVisit : a.runAt.localeCompare(b.runAt);
+    });
+
+  const stages = mine
+    .map((p) => p.bpStageIndex)
+    .filter((s): s is number => s !== null);
+  let bpTrend: BloodPressureTrend = "unknown";
+  if (stages.length >= 2) {
+    const delta = stages[stages.length - 1] - stages[0];
+    bpTrend = delta > 0 ? "up" : delta < 0 ? "down" : "flat";
+  }
+
+  return {
+    patientId,
+    points: mine,
+    firstHighRisk: mine.find((p) => p.highRisk) ?? null,
+    bpTrend,
+  };
+}
+
+/**
+ * Compares a run with the most recent earlier run in the history that used
+ * the same rule set and base URL (other runs scored differently or saw other
+ * patients, so comparing with them gives false alerts).
+ *
+ * - newly high-risk: high-risk now, not high-risk (or absent) last run
+ * - no longer high-risk: high-risk last run, present now and not high-risk
+ * - BP stage increased: both runs have a BP stage and it went up
+ *
+ * Returns `null` when there is no comparable earlier run.
+ */
+export function deriveAlerts(
+  history: HistoryPoint[],
+  current: HistoryPoint[]
+): DerivedAlerts | null {
+  const run = current[0];
+  if (!run) return null;
+  const comparable = history.filter(
+    (p) =>
+      p.runAt !== run.runAt &&
+      p.ruleSet === run.ruleSet &&
+      p.baseUrl === run.baseUrl
+  );
+
+  let previousRunAt: string | null = null;
+  for (const p of comparable) {
+    if (previousRunAt === null || p.runAt > previousRunAt)
+      previousRunAt = p.runAt;
+  }
+  if (previousRunAt === null) return null;
+
+  const previous = new Map<string, HistoryPoint>();
+  for (const p of comparable) {
+    if (p.runAt === previousRunAt) previous.set(p.patientId, p);
+  }
+
+  const newly = new Set<string>();
+  const noLonger = new Set<string>();
+  const bpUp = new Set<string>();
+  for (const now of current) {
+    const before = previous.get(now.patientId);
+    if (now.highRisk && !before?.highRisk) newly.add(now.patientId);
+    if (before?.highRisk && !now.highRisk) noLonger.add(now.patientId);
+    if (
+      before?.bpStageIndex != null &&
+      now.bpStageIndex !== null &&
+      now.bpStageIndex > before.bpStageIndex
+    ) {
+      bpUp.add(now.patientId);
+    }
+  }
+
+  const sorted = (ids: Set<string>) =>
+    Array.from(ids).sort((a, b) => a.localeCompare(b));
+  return {
+    previousRunAt,
+    newly_high_risk_patients: sorted(newly),
+    no_longer_high_risk_patients: sorted(noLonger),
+    bp_stage_increased_patients: sorted(bpUp),
+  };
+}
+
+/**
+ * Renders a patient's history as a compact table for the CLI.
+ */
+export function formatPatientHistory(h: PatientHistory): string {
+  if (h.points.length === 0) return `No history recorded for ${h.patientId}.`;
+
+  const lines = [
+    `Patient ${h.patientId}: ${h.points.length} recorded run(s)`,
+    h.firstHighRisk
+      ? `First high-risk: visit ${h.firstHighRisk.visitDate ?? "?"} (run ${
+          h.firstHighRisk.runAt
+        }, total ${h.firstHighRisk.scores.total})`
+      : "Never high-risk.",
+    `BP stage trend: ${h.bpTrend}`,
+    "",
+  ];
+  for (const p of h.points) {
+    lines.push(
+      `${p.visitDate ?? "(no visit date)"} run ${p.runAt} [${p.source}] total ${
+        p.scores.total
+      } (bp ${p.scores.bp}, temp ${p.scores.temp}, age ${p.scores.age}) stage ${
+        p.bpStage ?? "?"
+      }${p.highRisk ? " HIGH-RISK" : ""}${p.fever ? " fever" : ""}${
+        p.dataQualityIssue ? " data-quality" : ""
+      }`
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Renders derived alerts for the CLI summary.
+ */
+export function formatDerivedAlerts(d: DerivedAlerts | null): string {
+  if (!d) return "No earlier run recorded; derived alerts start next run.";
+  const list = (ids: string[]) => (ids.length ? ids.join(", ") : "none");
+  return [
+    `Since last run (${d.previousRunAt}):`,
+    `- Newly high-risk: ${list(d.newly_high_risk_patients)}`,
+    `- No longer high-risk: ${list(d.no_longer_high_risk_patients)}`,
+    `- BP stage increased: ${list(d.bp_stage_increased_patients)}`,
+  ].join("\n");
+}
@@ -6,5 +6,6 @@
  */
 export * from "./api";
 export * from "./scoring";
+export * from "./rules";
 export * from "./alerts";
 export * from "./types";
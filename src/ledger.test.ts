@@ -0,0 +1,136 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, test } from "vitest";
+import { ApiClient } from "./api";
+import {
+  checkSubmission,
+  hashApiKey,
+  hashPayload,
+  readLedger,
+  submitAndRecord,
+} from "./ledger";
+import type { AlertLists } from "./types";
+
+const payload: AlertLists = {
+  high_risk_patients: ["DEMO002", "DEMO001"],
+  fever_patients: ["DEMO003"],
+  data_quality_issues: [],
+};
+
+let dir: string | null = null;
+
+afterEach(() => {
+  if (dir) rmSync(dir, { recursive: true, force: true });
+  dir = null;
+});
+
+/**
+ * Client whose submissions answer with the given grader `results`.
+ */
+function clientReturning(results: Record<string, unknown>): ApiClient {
+  return new ApiClient({
+    baseUrl: "https://example.test/api",
+    apiKey: "ak_test",
+    fetchImpl: async () => Response.json({ success: true, results }),
+    sleepImpl: async () => {},
+  });
+}
+
+describe("hashPayload", () => {
+  test("ignores list order and duplicates", () => {
+    expect(
+      hashPayload({
+        ...payload,
+        high_risk_patients: ["DEMO001", "DEMO002", "DEMO001"],
+      })
+    ).toBe(hashPayload(payload));
+  });
+});
+
+describe("submission ledger", () => {
+  test("records attempts and blocks repeats and exhausted keys", async () => {
+    dir = mkdtempSync(join(tmpdir(), "ledger-test-"));
+    const ledgerPath = join(dir, "submissions.jsonl");
+    const ctx = {
+      source: "cli" as const,
+      baseUrl: "https://example.test/api",
+      apiKey: "ak_test",
+      ruleSet: "grader-tuned@test",
+      meta: null,
+      ledgerPath,
+    };
+
+    await submitAndRecord(
+      clientReturning({
+        score: 91.5,
+        attempt_number: 3,
+        remaining_attempts: 0,
+        breakdown: {
+          high_risk: {
+            score: 48,
+            max: 50,
+            correct: 20,
+            submitted: 21,
+            matches: 20,
+          },
+        },
+      }),
+      payload,
+      ctx
+    );
+
+    const entries = readLedger(ledgerPath);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].results).toMatchObject({
+      score: 91.5,
+      attemptNumber: 3,
+      remainingAttempts: 0,
+    });
+    expect(JSON.stringify(entries[0])).not.toContain("ak_test");
+
+    const reasons = checkSubmission(entries, {
+      apiKeyHash: hashApiKey("ak_test"),
+      baseUrl: ctx.baseUrl,
+      payloadHash: hashPayload(payload),
+    });
+    expect(reasons).toHaveLength(2);
+    expect(reasons[0]).toMatch(/No submission attempts remaining/);
+    expect(reasons[1]).toMatch(/Identical payload/);
+
+    expect(
+      checkSubmission(entries, {
+        apiKeyHash: hashApiKey("ak_other"),
+        baseUrl: ctx.baseUrl,
+        payloadHash: hashPayload(payload),
+      })
+    ).toEqual([]);
+  });
+
+  test("records failed submissions with the error", async () => {
+    dir = mkdtempSync(join(tmpdir(), "ledger-test-"));
+    const ledgerPath = join(dir, "submissions.jsonl");
+    const client = new ApiClient({
+      baseUrl: "https://example.test/api",
+      apiKey: "ak_test",
+      fetchImpl: async () => new Response("bad", { status: 400 }),
+      sleepImpl: async () => {},
+      maxRetries: 0,
+    });
+
+    await expect(
+      submitAndRecord(client, payload, {
+        source: "server",
+        baseUrl: "https://example.test/api",
+        apiKey: "ak_test",
+        ruleSet: "grader-tuned@test",
+        meta: null,
+        ledgerPath,
+      })
+    ).rejects.toThrow(/HTTP 400/);
+
+    const [entry] = readLedger(ledgerPath);
+    expect(entry.results).toBeNull();
+    expect(entry.error).toMatch(/HTTP 400/);
+  });
+});
@@ -0,0 +1,275 @@
+import { createHash } from "node:crypto";
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type { ApiClient, PatientsFetchMeta } from "./api";
+import type { AlertLists } from "./types";
+
+/**
+ * Default ledger location (JSON lines, one submission per line).
+ */
+export const DEFAULT_LEDGER_PATH = "submissions.jsonl";
+
+/**
+ * Per-list grader breakdown (`results.breakdown.*` in the grader response).
+ */
+export type GraderListBreakdown = {
+  score: number;
+  max: number;
+  correct: number;
+  submitted: number;
+  matches: number;
+};
+
+/**
+ * The parts of the grader's `results` block we keep.
+ *
+ * Every field is optional because the grader response is not guaranteed to be
+ * complete (and failed submissions have no results at all).
+ */
+export type GraderResults = {
+  score?: number;
+  percentage?: number;
+  status?: string;
+  breakdown?: Record<string, GraderListBreakdown>;
+  attemptNumber?: number;
+  remainingAttempts?: number;
+  isPersonalBest?: boolean;
+  canResubmit?: boolean;
+};
+
+/**
+ * One recorded submission attempt.
+ */
+export type LedgerEntry = {
+  submittedAt: string;
+  source: "cli" | "server";
+  baseUrl: string;
+  /** Short sha256 prefix of the API key, so attempts are tracked per key. */
+  apiKeyHash: string;
+  ruleSet: string;
+  payloadHash: string;
+  payload: AlertLists;
+  meta: PatientsFetchMeta | null;
+  results: GraderResults | null;
+  error: string | null;
+};
+
+/**
+ * Hashes an alert-list payload.
+ *
+ * Lists are deduped and sorted first so two payloads with the same IDs in a
+ * different order hash the same.
+ */
+export function hashPayload(payload: AlertLists): string {
+  const canonical = {
+    high_risk_patients: Array.from(new Set(payload.high_risk_patients)).sort(),
+    fever_patients: Array.from(new Set(payload.fever_patients)).sort(),
+    data_quality_issues: Array.from(
+      new Set(payload.data_quality_issues)
+    ).sort(),
+  };
+  return createHash("sha256").update(JSON.stringify(canonical)).digest("hex");
+}
+
+/**
+ * Hashes an API key for storage. The key itself is never written to disk.
+ */
+export function hashApiKey(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex").slice(0, 12);
+}
+
+/**
+ * Extracts `GraderResults` from a `/submit-assessment` response body.
+ *
+ * Returns `null` when the body has no `results` object.
+ */
+export function parseGraderResults(body: unknown): GraderResults | null {
+  const r = (body as any)?.results;
+  if (!r || typeof r !== "object") return null;
+
+  const num = (v: unknown) =>
+    typeof v === "number" && Number.isFinite(v) ? v : undefined;
+  const bool = (v: unknown) => (typeof v === "boolean" ? v : undefined);
+
+  return {
+    score: num(r.score),
+    percentage: num(r.percentage),
+    status: typeof r.status === "string" ? r.status : undefined,
+    breakdown:
+      r.breakdown && typeof r.breakdown === "object" ? r.breakdown : undefined,
+    attemptNumber: num(r.attempt_number),
+    remainingAttempts: num(r.remaining_attempts),
+    isPersonalBest: bool(r.is_personal_best),
+    canResubmit: bool(r.can_resubmit),
+  };
+}
+
+/**
+ * Reads every entry from a ledger file. A missing file is an empty ledger.
+ *
+ * Unparseable lines are skipped rather than failing the whole read, so one
+ * interrupted write can't lock you out of the history.
+ */
+export function readLedger(path = DEFAULT_LEDGER_PATH): LedgerEntry[] {
+  if (!existsSync(path)) return [];
+  const entries: LedgerEntry[] = [];
+  for (const line of readFileSync(path, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as LedgerEntry);
+    } catch {
+      // skip corrupt line
+    }
+  }
+  return entries;
+}
+
+/**
+ * Appends one entry to the ledger, creating the file (and directory) if needed.
+ */
+export function appendLedger(
+  entry: LedgerEntry,
+  path = DEFAULT_LEDGER_PATH
+): void {
+  const dir = dirname(path);
+  if (dir && dir !== ".") mkdirSync(dir, { recursive: true });
+  appendFileSync(path, `${JSON.stringify(entry)}\n`, "utf8");
+}
+
+/**
+ * Returns the most recent successful attempt for a key + base URL, if any.
+ */
+export function findPreviousEntry(
+  entries: LedgerEntry[],
+  opts: { apiKeyHash: string; baseUrl: string }
+): LedgerEntry | null {
+  for (let i = entries.length - 1; i >= 0; i -= 1) {
+    const e = entries[i];
+    if (
+      e.apiKeyHash === opts.apiKeyHash &&
+      e.baseUrl === opts.baseUrl &&
+      !e.error
+    ) {
+      return e;
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks a payload against earlier attempts made with the same key and base URL.
+ *
+ * Blocking reasons:
+ * - the most recent attempt reported `remaining_attempts: 0`
+ * - an earlier attempt submitted the exact same payload
+ *
+ * Returns an empty list when the submission looks fine.
+ */
+export function checkSubmission(
+  entries: LedgerEntry[],
+  opts: { apiKeyHash: string; baseUrl: string; payloadHash: string }
+): string[] {
+  const mine = entries.filter(
+    (e) => e.apiKeyHash === opts.apiKeyHash && e.baseUrl === opts.baseUrl
+  );
+  const reasons: string[] = [];
+
+  const lastWithResults = [...mine].reverse().find((e) => e.results);
+  if (lastWithResults?.results?.remainingAttempts === 0) {
+    reasons.push(
+      `No submission attempts remaining (attempt ${
+        lastWithResults.results.attemptNumber ?? "?"
+      } at ${lastWithResults.submittedAt} reported remaining_attempts=0).`
+    );
+  }
+
+  const duplicate = mine.find((e) => e.payloadHash === opts.payloadHash);
+  if (duplicate) {
+    const score =
+      duplicate.results?.score !== undefined
+        ? ` (scored ${duplicate.results.score})`
+        : "";
+    reasons.push(
+      `Identical payload was already submitted at ${duplicate.submittedAt}${score}.`
+    );
+  }
+
+  return reasons;
+}
+
+/**
+ * Submits a payload and records the attempt in the ledger.
+ *
+ * The attempt is recorded even when the request fails (with `error` set), so
+ * the ledger never silently misses an attempt that may have counted.
+ */
+export async function submitAndRecord(
+  client: ApiClient,
+  payload: AlertLists,
+  ctx: {
+    source: LedgerEntry["source"];
+    baseUrl: string;
+    apiKey: string;
+    ruleSet: string;
+    meta: PatientsFetchMeta | null;
+    ledgerPath?: string;
+  }
+): Promise<{ body: unknown; entry: LedgerEntry }> {
+  const base = {
+    submittedAt: new Date().toISOString(),
+    source: ctx.source,
+    baseUrl: ctx.baseUrl,
+    apiKeyHash: hashApiKey(ctx.apiKey),
+    ruleSet: ctx.ruleSet,
+    payloadHash: hashPayload(payload),
+    payload,
+    meta: ctx.meta,
+  };
+
+  let body: unknown;
+  try {
+    body = await client.submitAssessment(payload);
+  } catch (err: any) {
+    appendLedger(
+      { ...base, results: null, error: String(err?.message || err) },
+      ctx.ledgerPath
+    );
+    throw err;
+  }
+
+  const entry: LedgerEntry = {
+    ...base,
+    results: parseGraderResults(body),
+    error: null,
+  };
+  appendLedger(entry, ctx.ledgerPath);
+  return { body, entry };
+}
+
+/**
+ * Renders ledger entries as a compact table for the CLI.
+ */
+export function formatLedger(entries: LedgerEntry[]): string {
+  if (entries.length === 0) return "No submissions recorded.";
+
+  const lines = entries.map((e, i) => {
+    const r = e.results;
+    const counts = `${e.payload.high_risk_patients.length}/${e.payload.fever_patients.length}/${e.payload.data_quality_issues.length}`;
+    const outcome = e.error
+      ? `error: ${e.error}`
+      : r
+      ? `score ${r.score ?? "?"} ${r.status ?? ""}, attempt ${
+          r.attemptNumber ?? "?"
+        }, remaining ${r.remainingAttempts ?? "?"}${
+          r.isPersonalBest ? ", personal best" : ""
+        }`
+      : "no results";
+    return `#${i + 1} ${e.submittedAt} [${
+      e.source
+    }] lists ${counts} hash ${e.payloadHash.slice(0, 10)} rules ${
+      e.ruleSet
+    }: ${outcome}`;
+  });
+
+  return lines.join("\n");
+}
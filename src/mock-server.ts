@@ -0,0 +1,103 @@
+import { MOCK_PROFILES, createMockApp } from "./mock";
+import type { MockFaultProfile, MockShapeVariant } from "./mock";
+
+/**
+ * Reads a probability (`0..1`) from an env var, or `undefined` when unset.
+ */
+function envRate(name: string): number | undefined {
+  const v = process.env[name];
+  if (v === undefined || v.trim() === "") return undefined;
+  const n = Number.parseFloat(v);
+  if (!Number.isFinite(n) || n < 0 || n > 1) {
+    throw new Error(`${name} must be a number between 0 and 1`);
+  }
+  return n;
+}
+
+/**
+ * Reads an integer from an env var, or `undefined` when unset.
+ */
+function envInt(name: string): number | undefined {
+  const v = process.env[name];
+  if (v === undefined || v.trim() === "") return undefined;
+  const n = Number.parseInt(v, 10);
+  if (!Number.isFinite(n)) throw new Error(`${name} must be an integer`);
+  return n;
+}
+
+/**
+ * Builds the fault profile from `MOCK_PROFILE` plus per-knob env overrides.
+ *
+ * - `MOCK_PROFILE`: `clean` | `flaky` (default) | `hostile`
+ * - `MOCK_SEED`, `MOCK_PATIENTS`
+ * - `MOCK_ERROR_RATE`, `MOCK_RATE_LIMIT_RATE`, `MOCK_EMPTY_PAGE_RATE`,
+ *   `MOCK_MISSING_PAGINATION_RATE`, `MOCK_FIELD_ALIAS_RATE`
+ * - `MOCK_RETRY_AFTER_VIA`: `header` | `body` | `none`
+ * - `MOCK_RETRY_AFTER_SECONDS`
+ * - `MOCK_SHAPES`: comma-separated list of `data,data.patients,patients,array`
+ */
+function loadProfile(): MockFaultProfile {
+  const name = process.env.MOCK_PROFILE || "flaky";
+  const base = MOCK_PROFILES[name];
+  if (!base) {
+    throw new Error(
+      `Unknown MOCK_PROFILE "${name}". Use one of: ${Object.keys(
+        MOCK_PROFILES
+      ).join(", ")}`
+    );
+  }
+
+  const overrides: Partial<MockFaultProfile> = {
+    seed: envInt("MOCK_SEED"),
+    patientCount: envInt("MOCK_PATIENTS"),
+    errorRate: envRate("MOCK_ERROR_RATE"),
+    rateLimitRate: envRate("MOCK_RATE_LIMIT_RATE"),
+    emptyPageRate: envRate("MOCK_EMPTY_PAGE_RATE"),
+    missingPaginationRate: envRate("MOCK_MISSING_PAGINATION_RATE"),
+    fieldAliasRate: envRate("MOCK_FIELD_ALIAS_RATE"),
+    retryAfterSeconds: envInt("MOCK_RETRY_AFTER_SECONDS"),
+  };
+
+  const via = process.env.MOCK_RETRY_AFTER_VIA;
+  if (via === "header" || via === "body" || via === "none") {
+    overrides.retryAfterVia = via;
+  }
+
+  const shapes = process.env.MOCK_SHAPES;
+  if (shapes) {
+    overrides.shapeVariants = shapes
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean) as MockShapeVariant[];
+  }
+
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, v]) => v !== undefined)
+  );
+  return { ...base, ...defined };
+}
+
+/**
+ * Starts the mock DemoMed API.
+ *
+ * Point the CLI or server at it with
+ * `DEMOMED_BASE_URL=http://localhost:4010/api` (any API key works).
+ */
+function main(): void {
+  const profile = loadProfile();
+  const app = createMockApp(profile);
+
+  const port = Number.parseInt(process.env.MOCK_PORT || "4010", 10);
+  app.listen(port, () => {
+    console.log(
+      `Mock DemoMed API ready on http://localhost:${port}/api (seed=${profile.seed}, patients=${profile.patientCount})`
+    );
+  });
+}
+
+try {
+  main();
+} catch (err) {
+  console.error("Fatal mock server error:", err);
+  process.exit(1);
+}
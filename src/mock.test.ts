@@ -0,0 +1,119 @@
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import request from "supertest";
+import { afterEach, describe, expect, test } from "vitest";
+import { ApiClient, getAllPatientsWithMeta } from "./api";
+import { MOCK_PROFILES, createMockApp, generateMockPatients } from "./mock";
+import type { MockFaultProfile } from "./mock";
+
+let server: Server | null = null;
+
+/**
+ * Starts a mock app on an ephemeral port and returns its `/api` base URL.
+ */
+async function startMock(profile: Partial<MockFaultProfile>): Promise<string> {
+  const app = createMockApp(profile);
+  server = await new Promise<Server>((resolve) => {
+    const s = app.listen(0, () => resolve(s));
+  });
+  const { port } = server.address() as AddressInfo;
+  return `http://127.0.0.1:${port}/api`;
+}
+
+afterEach(async () => {
+  if (server) await new Promise((resolve) => server!.close(resolve));
+  server = null;
+});
+
+/**
+ * Client tuned for tests: no real sleeping between retries.
+ */
+function testClient(baseUrl: string): ApiClient {
+  return new ApiClient({
+    baseUrl,
+    apiKey: "ak_test",
+    sleepImpl: async () => {},
+    maxRetries: 12,
+    minDelayMs: 1,
+  });
+}
+
+const fastFetch = {
+  sleepBetweenPagesMs: 0,
+  sleepBetweenAttemptsMs: 0,
+  maxPageAttempts: 12,
+};
+
+describe("mock DemoMed API", () => {
+  test("generates the same dataset for the same seed", () => {
+    expect(generateMockPatients(10, 7)).toEqual(generateMockPatients(10, 7));
+    expect(generateMockPatients(10, 7)).not.toEqual(
+      generateMockPatients(10, 8)
+    );
+  });
+
+  test("requires an api key", async () => {
+    const res = await request(createMockApp()).get("/api/patients");
+    expect(res.status).toBe(401);
+  });
+
+  test("reports retry-after in the body when configured", async () => {
+    const res = await request(
+      createMockApp({ rateLimitRate: 1, retryAfterVia: "body" })
+    )
+      .get("/api/patients")
+      .set("x-api-key", "ak_test");
+    expect(res.status).toBe(429);
+    expect(res.body.retry_after).toBe(0);
+    expect(res.headers["retry-after"]).toBeUndefined();
+  });
+
+  test("clean profile fetch is complete", async () => {
+    const baseUrl = await startMock({ patientCount: 23 });
+    const { patients, meta } = await getAllPatientsWithMeta(
+      testClient(baseUrl),
+      5,
+      fastFetch
+    );
+    expect(patients).toHaveLength(23);
+    expect(meta).toMatchObject({
+      expectedTotal: 23,
+      totalPages: 5,
+      uniquePatientIds: 23,
+      complete: true,
+    });
+  });
+
+  test("hostile profile still yields the full dataset", async () => {
+    const baseUrl = await startMock({
+      ...MOCK_PROFILES.hostile,
+      retryAfterSeconds: 0,
+    });
+    const { meta } = await getAllPatientsWithMeta(
+      testClient(baseUrl),
+      20,
+      fastFetch
+    );
+    expect(meta.uniquePatientIds).toBe(50);
+    expect(meta.complete).toBe(true);
+  });
+
+  test("grades submissions and counts attempts", async () => {
+    const baseUrl = await startMock({ maxSubmissions: 1 });
+    const client = testClient(baseUrl);
+    const res: any = await client.submitAssessment({
+      high_risk_patients: [],
+      fever_patients: [],
+      data_quality_issues: [],
+    });
+    expect(res.results.attempt_number).toBe(1);
+    expect(res.results.remaining_attempts).toBe(0);
+
+    const again = await fetch(`${baseUrl}/submit-assessment`, {
+      method: "POST",
+      headers: { "x-api-key": "ak_test", "content-type": "application/json" },
+      body: "{}",
+    });
+    expect(again.status).toBe(429);
+  });
+});
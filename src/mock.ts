@@ -0,0 +1,393 @@
+import express from "express";
+import { buildAlertLists } from "./alerts";
+import { computePatientRisk } from "./scoring";
+import type { AlertLists, PatientRecord } from "./types";
+
+/**
+ * Response envelope variants the real API has been seen to return.
+ *
+ * - `data`: `{ data: Patient[], pagination, metadata }`
+ * - `data.patients`: `{ data: { patients: Patient[] }, pagination, metadata }`
+ * - `patients`: `{ patients: Patient[], pagination, metadata }`
+ * - `array`: bare `Patient[]` (no pagination metadata)
+ */
+export type MockShapeVariant = "data" | "data.patients" | "patients" | "array";
+
+/**
+ * Fault profile for the mock DemoMed API.
+ *
+ * All rates are probabilities in `0..1` and are drawn from a seeded PRNG, so
+ * the same profile + seed + request sequence always produces the same faults.
+ */
+export type MockFaultProfile = {
+  seed: number;
+  patientCount: number;
+  /** Probability of a `500`/`503` on any request. */
+  errorRate: number;
+  /** Probability of a `429` on any request. */
+  rateLimitRate: number;
+  /** Where a `429` communicates its wait time. */
+  retryAfterVia: "header" | "body" | "none";
+  retryAfterSeconds: number;
+  /** Probability that an in-range page comes back with zero patients. */
+  emptyPageRate: number;
+  /** Envelope variants to rotate through (picked at random per response). */
+  shapeVariants: MockShapeVariant[];
+  /** Probability that a page drops its `pagination` block. */
+  missingPaginationRate: number;
+  /** Probability that a record uses alias keys instead of canonical ones. */
+  fieldAliasRate: number;
+  maxSubmissions: number;
+};
+
+/**
+ * Built-in fault profiles.
+ *
+ * - `clean`: no faults, canonical shapes (useful for quick offline demos)
+ * - `flaky`: roughly what the real assessment host does
+ * - `hostile`: frequent faults and every shape/alias variant
+ */
+export const MOCK_PROFILES: Record<string, MockFaultProfile> = {
+  clean: {
+    seed: 42,
+    patientCount: 50,
+    errorRate: 0,
+    rateLimitRate: 0,
+    retryAfterVia: "header",
+    retryAfterSeconds: 0,
+    emptyPageRate: 0,
+    shapeVariants: ["data"],
+    missingPaginationRate: 0,
+    fieldAliasRate: 0,
+    maxSubmissions: 3,
+  },
+  flaky: {
+    seed: 42,
+    patientCount: 50,
+    errorRate: 0.08,
+    rateLimitRate: 0.1,
+    retryAfterVia: "body",
+    retryAfterSeconds: 1,
+    emptyPageRate: 0.05,
+    shapeVariants: ["data", "data", "data", "data.patients", "patients"],
+    missingPaginationRate: 0.05,
+    fieldAliasRate: 0,
+    maxSubmissions: 3,
+  },
+  hostile: {
+    seed: 42,
+    patientCount: 50,
+    errorRate: 0.2,
+    rateLimitRate: 0.2,
+    retryAfterVia: "header",
+    retryAfterSeconds: 1,
+    emptyPageRate: 0.2,
+    shapeVariants: ["data", "data.patients", "patients", "array"],
+    missingPaginationRate: 0.2,
+    fieldAliasRate: 0.3,
+    maxSubmissions: 3,
+  },
+};
+
+/**
+ * Small deterministic PRNG (mulberry32).
+ *
+ * `Math.random()` can't be seeded, and deterministic faults are the whole
+ * point of the mock.
+ */
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Malformed values mirroring the README's data-quality examples.
+ */
+const BAD_BP: unknown[] = ["150/", "/90", "INVALID", "N/A", null, ""];
+const BAD_TEMP: unknown[] = ["TEMP_ERROR", "invalid", null, ""];
+const BAD_AGE: unknown[] = ["fifty-three", "unknown", null, ""];
+
+const DIAGNOSES = [
+  "Sample_Hypertension",
+  "Eval_Diabetes",
+  "Test_Asthma",
+  "Demo_Healthy",
+];
+const MEDICATIONS = [
+  "DemoMed_A 10mg, TestDrug_B 500mg",
+  "FakeMed 1000mg",
+  "",
+  "TestDrug_B 250mg",
+];
+
+/**
+ * Generates the seeded patient dataset served by the mock.
+ *
+ * Records use canonical keys (`patient_id`, `blood_pressure`, ...). Roughly
+ * one in six records carries a malformed BP, temperature or age value.
+ */
+export function generateMockPatients(
+  count: number,
+  seed: number
+): PatientRecord[] {
+  const rng = createRng(seed);
+  const pick = <T>(xs: T[]): T => xs[Math.floor(rng() * xs.length)];
+  const int = (min: number, max: number) =>
+    min + Math.floor(rng() * (max - min + 1));
+
+  const patients: PatientRecord[] = [];
+  for (let i = 1; i <= count; i += 1) {
+    const id = `DEMO${String(i).padStart(3, "0")}`;
+    const age: unknown = int(18, 90);
+    const bp: unknown = `${int(100, 165)}/${int(60, 100)}`;
+    const febrile = rng() < 0.2;
+    const temperature: unknown = febrile
+      ? Math.round((99.6 + rng() * 3) * 10) / 10
+      : Math.round((97 + rng() * 2.5) * 10) / 10;
+
+    const corrupt = rng() < 1 / 6 ? int(0, 2) : -1;
+    patients.push({
+      patient_id: id,
+      name: `MockPatient, ${id}`,
+      age: corrupt === 2 ? pick(BAD_AGE) : age,
+      gender: rng() < 0.5 ? "M" : "F",
+      blood_pressure: corrupt === 0 ? pick(BAD_BP) : bp,
+      temperature: corrupt === 1 ? pick(BAD_TEMP) : temperature,
+      visit_date: `2024-01-${String(int(1, 28)).padStart(2, "0")}`,
+      diagnosis: pick(DIAGNOSES),
+      medications: pick(MEDICATIONS),
+    });
+  }
+  return patients;
+}
+
+/**
+ * Rewrites a canonical record using field aliases the scorer accepts
+ * (`patientId`, `bloodPressure`, `temp_f`, `patientAge`, ...).
+ */
+function aliasRecord(p: PatientRecord, rng: () => number): PatientRecord {
+  const {
+    patient_id,
+    blood_pressure,
+    temperature,
+    age,
+    ...rest
+  }: Record<string, unknown> = p;
+  const variant = Math.floor(rng() * 2);
+  return variant === 0
+    ? {
+        ...rest,
+        patientId: patient_id,
+        bloodPressure: blood_pressure,
+        temp_f: temperature,
+        patientAge: age,
+      }
+    : {
+        ...rest,
+        id: patient_id,
+        bp: blood_pressure,
+        temperatureF: temperature,
+        Age: age,
+      };
+}
+
+/**
+ * Builds the grader-style per-list breakdown for a submission.
+ */
+function gradeList(
+  submitted: unknown,
+  correct: string[],
+  max: number
+): {
+  score: number;
+  max: number;
+  correct: number;
+  submitted: number;
+  matches: number;
+} {
+  const ids = Array.isArray(submitted)
+    ? Array.from(new Set(submitted.map(String)))
+    : [];
+  const expected = new Set(correct);
+  const matches = ids.filter((id) => expected.has(id)).length;
+  const wrong = ids.length - matches;
+  const ratio =
+    correct.length === 0
+      ? ids.length === 0
+        ? 1
+        : 0
+      : Math.max(matches - wrong, 0) / correct.length;
+  return {
+    score: Math.round(ratio * max),
+    max,
+    correct: correct.length,
+    submitted: ids.length,
+    matches,
+  };
+}
+
+/**
+ * Creates an Express app that stands in for the DemoMed API.
+ *
+ * Endpoints (mounted under `/api` to match the real base URL):
+ * - `GET /api/patients?page=&limit=` (default limit 5, max 20)
+ * - `POST /api/submit-assessment` (graded against the mock's own dataset
+ *   using the default rule set; `maxSubmissions` attempts per app instance)
+ *
+ * Every request must carry an `x-api-key` header (any non-empty value).
+ */
+export function createMockApp(
+  overrides: Partial<MockFaultProfile> = {}
+): express.Express {
+  const profile: MockFaultProfile = { ...MOCK_PROFILES.clean, ...overrides };
+  const rng = createRng(profile.seed);
+  const patients = generateMockPatients(profile.patientCount, profile.seed);
+
+  const expected: AlertLists = buildAlertLists(
+    patients
+      .map((p) => computePatientRisk(p))
+      .filter((c): c is NonNullable<typeof c> => c !== null)
+  );
+
+  let attempts = 0;
+  let bestScore = -1;
+  let requestCounter = 0;
+
+  const app = express();
+  app.use(express.json());
+
+  /**
+   * Authentication + fault injection shared by every endpoint.
+   */
+  app.use("/api", (req, res, nextFn) => {
+    if (!String(req.header("x-api-key") || "").trim()) {
+      return res.status(401).json({ error: "Missing x-api-key header" });
+    }
+
+    if (rng() < profile.rateLimitRate) {
+      if (profile.retryAfterVia === "header") {
+        res.setHeader("retry-after", String(profile.retryAfterSeconds));
+        return res.status(429).json({ error: "Rate limit exceeded" });
+      }
+      if (profile.retryAfterVia === "body") {
+        return res.status(429).json({
+          error: "Rate limit exceeded",
+          retry_after: profile.retryAfterSeconds,
+        });
+      }
+      return res.status(429).json({ error: "Rate limit exceeded" });
+    }
+
+    if (rng() < profile.errorRate) {
+      const status = rng() < 0.5 ? 500 : 503;
+      return res.status(status).json({ error: "Simulated upstream failure" });
+    }
+
+    return nextFn();
+  });
+
+  app.get("/api/patients", (req, res) => {
+    requestCounter += 1;
+    const page = Math.max(
+      Number.parseInt(String(req.query.page ?? "1"), 10) || 1,
+      1
+    );
+    const limit = Math.min(
+      Math.max(Number.parseInt(String(req.query.limit ?? "5"), 10) || 5, 1),
+      20
+    );
+    const total = patients.length;
+    const totalPages = Math.max(Math.ceil(total / limit), 1);
+
+    let rows = patients.slice((page - 1) * limit, page * limit);
+    if (rows.length > 0 && rng() < profile.emptyPageRate) rows = [];
+    rows = rows.map((p) =>
+      rng() < profile.fieldAliasRate ? aliasRecord(p, rng) : p
+    );
+
+    const variants = profile.shapeVariants.length
+      ? profile.shapeVariants
+      : (["data"] as MockShapeVariant[]);
+    const shape = variants[Math.floor(rng() * variants.length)];
+    if (shape === "array") return res.json(rows);
+
+    const envelope: Record<string, unknown> = {
+      metadata: {
+        timestamp: new Date().toISOString(),
+        version: "v1.0-mock",
+        requestId: String(requestCounter),
+      },
+    };
+    if (rng() >= profile.missingPaginationRate) {
+      envelope.pagination = {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrevious: page > 1,
+      };
+    }
+
+    if (shape === "data.patients") envelope.data = { patients: rows };
+    else if (shape === "patients") envelope.patients = rows;
+    else envelope.data = rows;
+
+    return res.json(envelope);
+  });
+
+  app.post("/api/submit-assessment", (req, res) => {
+    if (attempts >= profile.maxSubmissions) {
+      return res.status(429).json({
+        error: "No submission attempts remaining",
+        remaining_attempts: 0,
+      });
+    }
+    attempts += 1;
+
+    const body = req.body ?? {};
+    const highRisk = gradeList(
+      body.high_risk_patients,
+      expected.high_risk_patients,
+      50
+    );
+    const fever = gradeList(body.fever_patients, expected.fever_patients, 25);
+    const dataQuality = gradeList(
+      body.data_quality_issues,
+      expected.data_quality_issues,
+      25
+    );
+
+    const score = highRisk.score + fever.score + dataQuality.score;
+    const isPersonalBest = score > bestScore;
+    if (isPersonalBest) bestScore = score;
+
+    return res.json({
+      success: true,
+      message: "Assessment submitted successfully (mock)",
+      results: {
+        score,
+        percentage: score,
+        status: score >= 80 ? "PASS" : "FAIL",
+        breakdown: {
+          high_risk: highRisk,
+          fever,
+          data_quality: dataQuality,
+        },
+        feedback: { strengths: [], issues: [] },
+        attempt_number: attempts,
+        remaining_attempts: profile.maxSubmissions - attempts,
+        is_personal_best: isPersonalBest,
+        can_resubmit: attempts < profile.maxSubmissions,
+      },
+    });
+  });
+
+  return app;
+}
@@ -0,0 +1,147 @@
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, test } from "vitest";
+import { ApiClient, getAllPatientsWithMeta } from "./api";
+import {
+  MetricsCollector,
+  combineListeners,
+  formatMetricsSummary,
+  formatPrometheus,
+  jsonLinesLogger,
+  percentile,
+} from "./observability";
+import type { ApiEvent } from "./observability";
+
+let dir: string | null = null;
+
+afterEach(() => {
+  if (dir) rmSync(dir, { recursive: true, force: true });
+  dir = null;
+});
+
+/**
+ * A `request:end` event with the given status and duration.
+ */
+function end(status: number | null, durationMs: number): ApiEvent {
+  return {
+    type: "request:end",
+    at: "2026-01-01T00:00:00.000Z",
+    method: "GET",
+    url: "https://example.test/api/patients",
+    attempt: 1,
+    status,
+    durationMs,
+  };
+}
+
+describe("percentile", () => {
+  test("uses nearest rank", () => {
+    const values = Array.from({ length: 20 }, (_, i) => i + 1);
+    expect(percentile(values, 50)).toBe(10);
+    expect(percentile(values, 95)).toBe(19);
+    expect(percentile([7], 95)).toBe(7);
+    expect(percentile([], 50)).toBeNull();
+  });
+});
+
+describe("MetricsCollector", () => {
+  test("summarizes requests, retries, latency and sleeps", () => {
+    const m = new MetricsCollector();
+    const at = "2026-01-01T00:00:00.000Z";
+    for (const e of [
+      end(429, 10),
+      { type: "retry", at, reason: "rate_limited", url: null, attempt: 1 },
+      { type: "sleep", at, reason: "rate_limit", ms: 500 },
+      end(null, 30),
+      { type: "retry", at, reason: "timeout", url: null, attempt: 2 },
+      { type: "sleep", at, reason: "backoff", ms: 200 },
+      end(200, 20),
+    ] as ApiEvent[]) {
+      m.listener(e);
+    }
+
+    expect(m.summary()).toEqual({
+      requests: 3,
+      responses: { "429": 1, none: 1, "200": 1 },
+      retries: { total: 2, byReason: { rate_limited: 1, timeout: 1 } },
+      latencyMs: { p50: 20, p95: 30, max: 30 },
+      sleepMs: { total: 700, byReason: { rate_limit: 500, backoff: 200 } },
+      fetches: 0,
+    });
+    expect(formatMetricsSummary(m.summary())).toContain(
+      "Retries: 2 (rate_limited 1, timeout 1)"
+    );
+  });
+
+  test("keeps a bounded latency window but cumulative counters", () => {
+    const m = new MetricsCollector(2);
+    for (const ms of [100, 1, 2]) m.listener(end(200, ms));
+    expect(m.summary().requests).toBe(3);
+    expect(m.summary().latencyMs.max).toBe(2);
+    expect(m.latencyTotalMs).toBe(103);
+  });
+});
+
+describe("Prometheus text", () => {
+  test("exposes counters and latency quantiles", () => {
+    const m = new MetricsCollector();
+    m.listener(end(200, 40));
+    const text = formatPrometheus(m.summary(), m.latencyTotalMs);
+    expect(text).toContain("# TYPE demomed_upstream_requests_total counter");
+    expect(text).toContain("demomed_upstream_requests_total 1");
+    expect(text).toContain('demomed_upstream_responses_total{status="200"} 1');
+    expect(text).toContain(
+      'demomed_upstream_request_duration_ms{quantile="0.95"} 40'
+    );
+    expect(text).toContain("demomed_upstream_request_duration_ms_count 1");
+  });
+});
+
+describe("ApiClient events", () => {
+  test("a fetch emits request, retry and fetch events to every sink", async () => {
+    dir = mkdtempSync(join(tmpdir(), "events-"));
+    const logPath = join(dir, "events.jsonl");
+    const metrics = new MetricsCollector();
+
+    let calls = 0;
+    const client = new ApiClient({
+      baseUrl: "https://example.test/api",
+      apiKey: "ak_test",
+      fetchImpl: async () => {
+        calls += 1;
+        return calls === 1
+          ? new Response("down", { status: 503 })
+          : Response.json({
+              data: [{ patient_id: "P1" }],
+              pagination: { total: 1, totalPages: 1 },
+            });
+      },
+      sleepImpl: async () => {},
+      minDelayMs: 1,
+      onEvent: combineListeners(metrics.listener, jsonLinesLogger(logPath)),
+    });
+
+    await getAllPatientsWithMeta(client, 20, {
+      maxPageAttempts: 1,
+      sleepBetweenPagesMs: 0,
+    });
+
+    const events = readFileSync(logPath, "utf8")
+      .trim()
+      .split("\n")
+      .map((l) => JSON.parse(l));
+    expect(events[0]).toMatchObject({ type: "fetch:start", limit: 20 });
+    expect(events.map((e) => e.type)).toContain("retry");
+    expect(events[events.length - 1]).toMatchObject({
+      type: "fetch:end",
+      uniquePatientIds: 1,
+      complete: true,
+    });
+
+    const s = metrics.summary();
+    expect(s.retries.byReason).toEqual({ server_error: 1 });
+    expect(s.responses["503"]).toBe(1);
+    expect(s.fetches).toBe(1);
+  });
+});
@@ -0,0 +1,298 @@
+import { appendFileSync } from "node:fs";
+
+/**
+ * Why a request (or page read) was tried again.
+ */
+export type RetryReason =
+  | "rate_limited"
+  | "server_error"
+  | "timeout"
+  | "network"
+  | "malformed"
+  | "empty_page"
+  | "circuit_open";
+
+/**
+ * Why the client slept.
+ * - `rate_limit`: waiting for a token-bucket token
+ * - `backoff`: between retries of one request
+ * - `empty_page`: between re-reads of an empty page
+ * - `page`: between sequential page reads
+ * - `circuit_open`: waiting for an open circuit breaker to allow a trial
+ */
+export type SleepReason =
+  | "rate_limit"
+  | "backoff"
+  | "empty_page"
+  | "page"
+  | "circuit_open";
+
+/**
+ * Events emitted by `ApiClient` and `getAllPatientsWithMeta(...)`.
+ *
+ * `at` is an ISO timestamp; durations are in milliseconds.
+ */
+export type ApiEvent =
+  | {
+      type: "request:start";
+      at: string;
+      method: string;
+      url: string;
+      attempt: number;
+    }
+  | {
+      type: "request:end";
+      at: string;
+      method: string;
+      url: string;
+      attempt: number;
+      /** `null` when no response arrived (timeout, network error). */
+      status: number | null;
+      durationMs: number;
+      error?: string;
+    }
+  | {
+      type: "retry";
+      at: string;
+      reason: RetryReason;
+      url: string | null;
+      page?: number;
+      attempt: number;
+    }
+  | { type: "sleep"; at: string; reason: SleepReason; ms: number }
+  | { type: "fetch:start"; at: string; limit: number }
+  | {
+      type: "fetch:end";
+      at: string;
+      durationMs: number;
+      pageReads: number;
+      uniquePatientIds: number;
+      complete: boolean;
+    };
+
+/**
+ * An event as emitted, before `ApiClient.emit(...)` stamps `at`.
+ */
+export type ApiEventInit = ApiEvent extends infer E
+  ? E extends ApiEvent
+    ? Omit<E, "at">
+    : never
+  : never;
+
+/**
+ * Receives every event. Listeners must not throw.
+ */
+export type ApiEventListener = (event: ApiEvent) => void;
+
+/**
+ * Fans one event out to several listeners, skipping missing ones.
+ */
+export function combineListeners(
+  ...listeners: (ApiEventListener | null | undefined)[]
+): ApiEventListener {
+  const active = listeners.filter((l): l is ApiEventListener => !!l);
+  return (event) => {
+    for (const l of active) l(event);
+  };
+}
+
+/**
+ * JSON-lines logger sink: one event per line.
+ *
+ * @param target file path to append to, or `"stderr"`.
+ */
+export function jsonLinesLogger(target: string): ApiEventListener {
+  return (event) => {
+    const line = `${JSON.stringify(event)}\n`;
+    if (target === "stderr") process.stderr.write(line);
+    else appendFileSync(target, line, "utf8");
+  };
+}
+
+/**
+ * In-memory metrics for one fetch (or, on the server, the whole process).
+ */
+export type MetricsSummary = {
+  requests: number;
+  /** Responses by HTTP status; `"none"` counts attempts with no response. */
+  responses: Record<string, number>;
+  retries: { total: number; byReason: Partial<Record<RetryReason, number>> };
+  latencyMs: { p50: number | null; p95: number | null; max: number | null };
+  sleepMs: { total: number; byReason: Partial<Record<SleepReason, number>> };
+  fetches: number;
+};
+
+/**
+ * Nearest-rank percentile of sorted values (`null` when empty).
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.max(Math.ceil((p / 100) * sorted.length), 1);
+  return sorted[Math.min(rank, sorted.length) - 1];
+}
+
+/**
+ * In-memory metrics sink.
+ *
+ * Latencies are kept in a sliding window (`maxSamples`, default 1000) so a
+ * long-running server doesn't grow without bound; counters are cumulative.
+ */
+export class MetricsCollector {
+  private readonly maxSamples: number;
+  private requests = 0;
+  private fetches = 0;
+  private readonly responses: Record<string, number> = {};
+  private readonly retries: Partial<Record<RetryReason, number>> = {};
+  private readonly sleeps: Partial<Record<SleepReason, number>> = {};
+  private latencies: number[] = [];
+  private latencySumMs = 0;
+
+  constructor(maxSamples = 1000) {
+    this.maxSamples = Math.max(maxSamples, 1);
+  }
+
+  /**
+   * Listener to hand to `ApiClient` (bound, so it can be passed around).
+   */
+  readonly listener: ApiEventListener = (event) => {
+    switch (event.type) {
+      case "request:end": {
+        this.requests += 1;
+        const key = event.status === null ? "none" : String(event.status);
+        this.responses[key] = (this.responses[key] ?? 0) + 1;
+        this.latencies.push(event.durationMs);
+        this.latencySumMs += event.durationMs;
+        if (this.latencies.length > this.maxSamples) this.latencies.shift();
+        break;
+      }
+      case "retry":
+        this.retries[event.reason] = (this.retries[event.reason] ?? 0) + 1;
+        break;
+      case "sleep":
+        this.sleeps[event.reason] = (this.sleeps[event.reason] ?? 0) + event.ms;
+        break;
+      case "fetch:end":
+        this.fetches += 1;
+        break;
+      default:
+        break;
+    }
+  };
+
+  /**
+   * Total request latency recorded (all samples, not just the window).
+   */
+  get latencyTotalMs(): number {
+    return this.latencySumMs;
+  }
+
+  /**
+   * Current summary.
+   */
+  summary(): MetricsSummary {
+    const sorted = [...this.latencies].sort((a, b) => a - b);
+    const sum = (r: Partial<Record<string, number>>) =>
+      Object.values(r).reduce<number>((a, b) => a + (b ?? 0), 0);
+    return {
+      requests: this.requests,
+      responses: { ...this.responses },
+      retries: { total: sum(this.retries), byReason: { ...this.retries } },
+      latencyMs: {
+        p50: percentile(sorted, 50),
+        p95: percentile(sorted, 95),
+        max: sorted.length ? sorted[sorted.length - 1] : null,
+      },
+      sleepMs: { total: sum(this.sleeps), byReason: { ...this.sleeps } },
+      fetches: this.fetches,
+    };
+  }
+}
+
+/**
+ * One-line-per-topic summary for the CLI.
+ */
+export function formatMetricsSummary(s: MetricsSummary): string {
+  const byReason = (r: Partial<Record<string, number>>) => {
+    const parts = Object.entries(r).map(([k, v]) => `${k} ${v}`);
+    return parts.length ? ` (${parts.join(", ")})` : "";
+  };
+  const ms = (v: number | null) => (v === null ? "?" : `${Math.round(v)}ms`);
+  return [
+    `Requests: ${s.requests}, responses${byReason(s.responses)}`,
+    `Retries: ${s.retries.total}${byReason(s.retries.byReason)}`,
+    `Latency: p50 ${ms(s.latencyMs.p50)}, p95 ${ms(s.latencyMs.p95)}, max ${ms(
+      s.latencyMs.max
+    )}`,
+    `Slept: ${Math.round(s.sleepMs.total)}ms${byReason(s.sleepMs.byReason)}`,
+  ].join("\n");
+}
+
+/**
+ * Prometheus text exposition of a metrics summary (`GET /metrics`).
+ */
+export function formatPrometheus(
+  s: MetricsSummary,
+  latencyTotalMs: number
+): string {
+  const lines: string[] = [];
+  const metric = (
+    name: string,
+    type: "counter" | "gauge" | "summary",
+    help: string,
+    /** `[suffix (labels or _sum/_count), value]` pairs */
+    samples: [string, number][]
+  ) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    for (const [suffix, value] of samples)
+      lines.push(`${name}${suffix} ${value}`);
+  };
+  const labelled = (label: string, r: Partial<Record<string, number>>) =>
+    Object.entries(r).map(([k, v]): [string, number] => [
+      `{${label}="${k}"}`,
+      v ?? 0,
+    ]);
+
+  metric(
+    "demomed_upstream_requests_total",
+    "counter",
+    "Upstream HTTP attempts sent.",
+    [["", s.requests]]
+  );
+  metric(
+    "demomed_upstream_responses_total",
+    "counter",
+    'Upstream responses by status ("none" = no response).',
+    labelled("status", s.responses)
+  );
+  metric(
+    "demomed_upstream_retries_total",
+    "counter",
+    "Retries by reason.",
+    labelled("reason", s.retries.byReason)
+  );
+  metric(
+    "demomed_upstream_sleep_ms_total",
+    "counter",
+    "Milliseconds spent sleeping, by reason.",
+    labelled("reason", s.sleepMs.byReason)
+  );
+  metric(
+    "demomed_upstream_request_duration_ms",
+    "summary",
+    "Upstream request latency (quantiles over the recent window).",
+    [
+      ...(s.latencyMs.p50 !== null
+        ? ([['{quantile="0.5"}', s.latencyMs.p50]] as [string, number][])
+        : []),
+      ...(s.latencyMs.p95 !== null
+        ? ([['{quantile="0.95"}', s.latencyMs.p95]] as [string, number][])
+        : []),
+      ["_sum", latencyTotalMs],
+      ["_count", s.requests],
+    ]
+  );
+  metric("demomed_fetches_total", "counter", "Completed patient fetches.", [
+    ["", s.fetches],
+  ]);
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,102 @@
+import { describe, expect, test } from "vitest";
+import { dedupeByPatientId } from "./api";
+import {
+  formatPatientIdRejections,
+  normalizePatientId,
+  readPatientId,
+  resolvePatientIdRules,
+} from "./patient-id";
+import { computePatientRisk } from "./scoring";
+
+const demoRules = resolvePatientIdRules("^DEMO\\d{3}$");
+
+describe("resolvePatientIdRules", () => {
+  test("defaults to any id, upper-cased, and validates values", () => {
+    expect(resolvePatientIdRules()).toEqual({ pattern: null, case: "upper" });
+    expect(resolvePatientIdRules(" ^P\\d+$ ", "Preserve")).toEqual({
+      pattern: "^P\\d+$",
+      case: "preserve",
+    });
+    expect(() => resolvePatientIdRules("(")).toThrow(
+      /Invalid patient id pattern/
+    );
+    expect(() => resolvePatientIdRules("", "title")).toThrow(
+      /Unknown patient id case "title"/
+    );
+  });
+});
+
+describe("normalizePatientId", () => {
+  test("trims, removes inner whitespace and applies the case", () => {
+    expect(normalizePatientId(" demo 001\t").id).toBe("DEMO001");
+    expect(
+      normalizePatientId("Demo001", { pattern: null, case: "lower" }).id
+    ).toBe("demo001");
+    expect(
+      normalizePatientId("Demo001", { pattern: null, case: "preserve" }).id
+    ).toBe("Demo001");
+  });
+
+  test("coerces integers and rejects other types", () => {
+    expect(normalizePatientId(42).id).toBe("42");
+    expect(normalizePatientId(4.2).rejection?.code).toBe("ID_INVALID_TYPE");
+    expect(normalizePatientId({ id: 1 }).rejection?.code).toBe(
+      "ID_INVALID_TYPE"
+    );
+    expect(normalizePatientId("   ").rejection?.code).toBe("ID_MISSING");
+  });
+
+  test("checks the canonical format after normalizing", () => {
+    expect(normalizePatientId("demo001", demoRules).id).toBe("DEMO001");
+    expect(normalizePatientId("DEMO01", demoRules).rejection).toMatchObject({
+      code: "ID_FORMAT",
+      message: 'Patient id "DEMO01" does not match /^DEMO\\d{3}$/',
+    });
+  });
+});
+
+describe("readPatientId", () => {
+  test("uses the first non-blank id key and reports where it came from", () => {
+    expect(readPatientId({ patient_id: " ", id: 7 }).id).toBe("7");
+    expect(readPatientId({ patientId: true }).rejection).toMatchObject({
+      code: "ID_INVALID_TYPE",
+      key: "patientId",
+      value: true,
+    });
+    expect(readPatientId({ age: 40 }).rejection).toMatchObject({
+      code: "ID_MISSING",
+      key: null,
+    });
+    expect(readPatientId(null).rejection?.code).toBe("ID_MISSING");
+  });
+});
+
+describe("shared id rules", () => {
+  test("dedupe and scoring agree on the normalized id", () => {
+    const records = [
+      { patient_id: "demo001 ", age: 70 },
+      { patient_id: "DEMO001", age: 70 },
+      { patient_id: 12, age: 30 },
+      { patient_id: "DEMO1", age: 30 },
+    ];
+    const { patients, uniquePatientIds, rejectedIds } = dedupeByPatientId(
+      records,
+      { patientIds: demoRules }
+    );
+    expect(uniquePatientIds).toBe(1);
+    expect(rejectedIds.map((r) => [r.value, r.code])).toEqual([
+      [12, "ID_FORMAT"],
+      ["DEMO1", "ID_FORMAT"],
+    ]);
+    expect(
+      patients.map(
+        (p) =>
+          computePatientRisk(p, undefined, { patientIds: demoRules })
+            ?.patientId ?? null
+      )
+    ).toEqual(["DEMO001", null, null]);
+    expect(formatPatientIdRejections(rejectedIds)).toContain(
+      '- patient_id 12: ID_FORMAT (Patient id "12" does not match'
+    );
+  });
+});
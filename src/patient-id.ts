@@ -0,0 +1,189 @@
+import type { PatientId, PatientIdCase, PatientIdRules } from "./types";
+
+/**
+ * Keys a patient id may be read from, in lookup order (the API is not
+ * consistent about which one it uses).
+ */
+export const PATIENT_ID_KEYS = ["patient_id", "patientId", "id", "patientID"];
+
+/**
+ * Accepted `PatientIdRules.case` values.
+ */
+export const PATIENT_ID_CASES: readonly PatientIdCase[] = [
+  "upper",
+  "lower",
+  "preserve",
+];
+
+/**
+ * Default rules: any non-empty id, upper-cased (`"demo001 "` -> `"DEMO001"`).
+ */
+export const DEFAULT_PATIENT_ID_RULES: PatientIdRules = {
+  pattern: null,
+  case: "upper",
+};
+
+/**
+ * Why a record's id was rejected.
+ *
+ * - `ID_MISSING`: none of `PATIENT_ID_KEYS` holds a non-blank value
+ * - `ID_INVALID_TYPE`: the value is not a string or an integer
+ * - `ID_FORMAT`: the normalized id doesn't match the configured pattern
+ */
+export type PatientIdCode = "ID_MISSING" | "ID_INVALID_TYPE" | "ID_FORMAT";
+
+/**
+ * A record dropped for its patient id.
+ */
+export type PatientIdRejection = {
+  code: PatientIdCode;
+  message: string;
+  /** Key the id was read from (`null` for `ID_MISSING`). */
+  key: string | null;
+  value: unknown;
+};
+
+/**
+ * Result of reading a record's id: the canonical id, or why there is none.
+ */
+export type PatientIdResult =
+  | { id: PatientId; rejection: null }
+  | { id: null; rejection: PatientIdRejection };
+
+/**
+ * Compiled patterns, keyed by source (rules are shared by every record).
+ */
+const compiledPatterns = new Map<string, RegExp>();
+
+/**
+ * Compiles a pattern once, with the source in the error message.
+ */
+function compilePattern(pattern: string): RegExp {
+  let re = compiledPatterns.get(pattern);
+  if (!re) {
+    try {
+      re = new RegExp(pattern);
+    } catch (err: any) {
+      throw new Error(
+        `Invalid patient id pattern /${pattern}/: ${err?.message || err}`
+      );
+    }
+    compiledPatterns.set(pattern, re);
+  }
+  return re;
+}
+
+/**
+ * Builds rules from flag/env values (`DEMOMED_PATIENT_ID_PATTERN`,
+ * `DEMOMED_PATIENT_ID_CASE`).
+ *
+ * Empty values keep the defaults; an invalid pattern or unknown case throws.
+ */
+export function resolvePatientIdRules(
+  pattern?: string | null,
+  idCase?: string | null
+): PatientIdRules {
+  const p = (pattern ?? "").trim();
+  const c = (idCase ?? "").trim().toLowerCase();
+  if (c && !(PATIENT_ID_CASES as readonly string[]).includes(c)) {
+    throw new Error(
+      `Unknown patient id case "${idCase}" (expected ${PATIENT_ID_CASES.join(
+        ", "
+      )})`
+    );
+  }
+  if (p) compilePattern(p);
+  return {
+    pattern: p || DEFAULT_PATIENT_ID_RULES.pattern,
+    case: (c || DEFAULT_PATIENT_ID_RULES.case) as PatientIdCase,
+  };
+}
+
+/**
+ * Normalizes one id value under `rules`.
+ *
+ * @param key key the value was read from (reported on rejection)
+ */
+export function normalizePatientId(
+  value: unknown,
+  rules: PatientIdRules = DEFAULT_PATIENT_ID_RULES,
+  key: string | null = null
+): PatientIdResult {
+  const reject = (code: PatientIdCode, message: string): PatientIdResult => ({
+    id: null,
+    rejection: { code, message, key, value },
+  });
+
+  let text: string;
+  if (typeof value === "string") text = value;
+  else if (typeof value === "number" && Number.isSafeInteger(value))
+    text = String(value);
+  else if (value === undefined || value === null)
+    return reject("ID_MISSING", "No patient id");
+  else
+    return reject(
+      "ID_INVALID_TYPE",
+      `Patient id ${JSON.stringify(value)} is not a string or integer`
+    );
+
+  let id = text.replace(/\s+/g, "");
+  if (!id) return reject("ID_MISSING", "Blank patient id");
+  if (rules.case === "upper") id = id.toUpperCase();
+  else if (rules.case === "lower") id = id.toLowerCase();
+
+  if (rules.pattern && !compilePattern(rules.pattern).test(id)) {
+    return reject(
+      "ID_FORMAT",
+      `Patient id "${id}" does not match /${rules.pattern}/`
+    );
+  }
+  return { id, rejection: null };
+}
+
+/**
+ * Reads and normalizes a record's patient id.
+ *
+ * The first of `PATIENT_ID_KEYS` holding a non-blank value is used (a later
+ * key is not consulted when that value is rejected).
+ */
+export function readPatientId(
+  record: unknown,
+  rules: PatientIdRules = DEFAULT_PATIENT_ID_RULES
+): PatientIdResult {
+  const obj =
+    record && typeof record === "object"
+      ? (record as Record<string, unknown>)
+      : {};
+  for (const key of PATIENT_ID_KEYS) {
+    const value = obj[key];
+    if (value === undefined || value === null) continue;
+    if (typeof value === "string" && !value.trim()) continue;
+    return normalizePatientId(value, rules, key);
+  }
+  return {
+    id: null,
+    rejection: {
+      code: "ID_MISSING",
+      message: `No patient id (${PATIENT_ID_KEYS.join(", ")})`,
+      key: null,
+      value: undefined,
+    },
+  };
+}
+
+/**
+ * One line per rejected record, e.g. `- id 12.5: ID_INVALID_TYPE (...)`.
+ */
+export function formatPatientIdRejections(
+  rejections: PatientIdRejection[]
+): string {
+  return [
+    `Rejected ${rejections.length} record(s) without a valid patient_id:`,
+    ...rejections.map(
+      (r) =>
+        `- ${r.key ?? "(no id)"}${
+          r.key ? ` ${JSON.stringify(r.value)}` : ""
+        }: ${r.code} (${r.message})`
+    ),
+  ].join("\n");
+}
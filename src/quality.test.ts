@@ -0,0 +1,88 @@
+import { describe, expect, test } from "vitest";
+import { detectPatientsDataShape } from "./api";
+import {
+  buildDataQualityReport,
+  formatQualityMarkdown,
+  valuePattern,
+} from "./quality";
+
+const records = [
+  { patient_id: "A", blood_pressure: "150/", temperature: 99, age: 40 },
+  { patient_id: "B", bp: "N/A", temperature: null, age: 50 },
+  { patient_id: "C", blood_pressure: "120/80", temp_f: 98, age: 30 },
+  { blood_pressure: "120/80", temperature: 98, age: 30 },
+];
+
+describe("valuePattern", () => {
+  test("groups values by shape", () => {
+    expect(valuePattern("150/")).toBe("9/");
+    expect(valuePattern("N/A")).toBe("A/A");
+    expect(valuePattern("fifty-three")).toBe("A-A");
+    expect(valuePattern("TEMP_ERROR")).toBe("A_A");
+    expect(valuePattern("")).toBe('""');
+    expect(valuePattern(null)).toBe("null");
+    expect(valuePattern(undefined)).toBe("(missing)");
+  });
+});
+
+describe("detectPatientsDataShape", () => {
+  test("names the array normalizePatientsData reads", () => {
+    expect(detectPatientsDataShape({ data: [] })).toBe("data");
+    expect(detectPatientsDataShape({ data: { patients: [] } })).toBe(
+      "data.patients"
+    );
+    expect(detectPatientsDataShape({ patients: [] })).toBe("patients");
+    expect(detectPatientsDataShape({ error: "x" })).toBe("none");
+  });
+});
+
+describe("buildDataQualityReport", () => {
+  test("aggregates issues, aliases, shapes and dropped records", () => {
+    const report = buildDataQualityReport(records, undefined, {
+      pages: [{ data: [] }, { data: { patients: [] } }, { data: [] }],
+    });
+
+    expect(report.totalRecords).toBe(4);
+    expect(report.scoredPatients).toBe(3);
+    expect(report.droppedMissingId).toBe(1);
+    expect(report.rejectedIds).toEqual([
+      expect.objectContaining({ code: "ID_MISSING", key: null }),
+    ]);
+    expect(report.patientsWithIssues).toBe(2);
+
+    expect(report.fields.bloodPressure).toEqual({
+      invalid: 2,
+      percentInvalid: 66.7,
+      byCode: { BP_MISSING_DIASTOLIC: 1, BP_NON_NUMERIC: 1 },
+      patterns: { "9/": 1, "A/A": 1 },
+      aliases: { blood_pressure: 2, bp: 1 },
+    });
+    expect(report.fields.temperature.byCode).toEqual({ NULL: 1 });
+    expect(report.fields.temperature.aliases).toEqual({
+      temperature: 2,
+      temp_f: 1,
+    });
+    expect(report.fields.age.invalid).toBe(0);
+
+    expect(report.responseShapes).toEqual({ data: 2, "data.patients": 1 });
+    expect(report.issues.map((i) => [i.patientId, i.field, i.code])).toEqual([
+      ["A", "bloodPressure", "BP_MISSING_DIASTOLIC"],
+      ["B", "bloodPressure", "BP_NON_NUMERIC"],
+      ["B", "temperature", "NULL"],
+    ]);
+  });
+
+  test("response shapes are null without page bodies", () => {
+    expect(buildDataQualityReport(records).responseShapes).toBeNull();
+  });
+
+  test("renders Markdown", () => {
+    const md = formatQualityMarkdown(buildDataQualityReport(records));
+    expect(md).toContain("# Data-quality report");
+    expect(md).toContain("- Dropped (missing or invalid patient id): 1");
+    expect(md).toContain("| (none) | — | ID_MISSING |");
+    expect(md).not.toContain("`undefined`");
+    expect(md).toContain("| Blood pressure | 2 | 66.7% |");
+    expect(md).toContain("| B | Temperature | NULL | `null` |");
+  });
+});
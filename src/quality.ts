@@ -0,0 +1,281 @@
+import { detectPatientsDataShape } from "./api";
+import type { PatientsDataShape } from "./api";
+import { readPatientId } from "./patient-id";
+import type { PatientIdRejection } from "./patient-id";
+import { DEFAULT_RULE_SET } from "./rules";
+import { computePatientRiskDetails, extractRiskInputKeys } from "./scoring";
+import type {
+  ComputedPatientRiskDetails,
+  PatientId,
+  RiskRuleSet,
+  ScoringOptions,
+  ValidationCode,
+  ValidationIssue,
+} from "./types";
+
+/**
+ * Scoring inputs that can be rejected.
+ */
+export type QualityField = keyof ComputedPatientRiskDetails["issues"];
+
+/**
+ * One rejected input for one patient.
+ */
+export type PatientQualityIssue = ValidationIssue & {
+  patientId: PatientId;
+  field: QualityField;
+  value: unknown;
+};
+
+/**
+ * Aggregate health of one scoring input across the dataset.
+ */
+export type FieldQualityStats = {
+  invalid: number;
+  /** `invalid` as a percentage of scored patients (one decimal). */
+  percentInvalid: number;
+  byCode: Partial<Record<ValidationCode, number>>;
+  /** Rejected values grouped by shape (see `valuePattern(...)`). */
+  patterns: Record<string, number>;
+  /** How often each alias key was the one read (`(none)` = field absent). */
+  aliases: Record<string, number>;
+};
+
+/**
+ * Data-quality report for a fetched dataset.
+ */
+export type DataQualityReport = {
+  /** Records handed to the scorer (after dedupe). */
+  totalRecords: number;
+  scoredPatients: number;
+  /** Records `computePatientRisk(...)` skipped for lacking a valid patient id. */
+  droppedMissingId: number;
+  /** Why each of those records' id was rejected, in record order. */
+  rejectedIds: PatientIdRejection[];
+  patientsWithIssues: number;
+  fields: Record<QualityField, FieldQualityStats>;
+  /** Page reads per response shape; `null` when page bodies weren't kept. */
+  responseShapes: Partial<Record<PatientsDataShape, number>> | null;
+  issues: PatientQualityIssue[];
+};
+
+const FIELDS: QualityField[] = ["bloodPressure", "temperature", "age"];
+
+const FIELD_LABELS: Record<QualityField, string> = {
+  bloodPressure: "Blood pressure",
+  temperature: "Temperature",
+  age: "Age",
+};
+
+/**
+ * Reduces a raw value to its shape so similar malformed values group
+ * together: digit runs become `9`, letter runs become `A`, punctuation is
+ * kept (`"150/"` -> `9/`, `"N/A"` -> `A/A`, `"fifty-three"` -> `A-A`).
+ */
+export function valuePattern(value: unknown): string {
+  if (value === undefined) return "(missing)";
+  if (value === null) return "null";
+  if (typeof value !== "string") return `<${typeof value}>`;
+  if (!value.trim()) return '""';
+  return value
+    .trim()
+    .replace(/\d+/g, "9")
+    .replace(/[a-z]+/gi, "A");
+}
+
+/**
+ * Adds one to a counter in a record.
+ */
+function bump<K extends string>(counts: Partial<Record<K, number>>, key: K) {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+/**
+ * Rounds a ratio to a one-decimal percentage (`0` when `total` is 0).
+ */
+function percent(count: number, total: number): number {
+  return total === 0 ? 0 : Math.round((count / total) * 1000) / 10;
+}
+
+/**
+ * Builds the data-quality report for a set of patient records.
+ *
+ * @param records patient records as returned by the fetch (after dedupe)
+ * @param rules scoring rule set (affects e.g. `BP_OUT_OF_STAGES`)
+ * @param opts.pages raw page bodies, used to count response shapes
+ * @param opts.scoring scoring options (parse mode)
+ */
+export function buildDataQualityReport(
+  records: unknown[],
+  rules: RiskRuleSet = DEFAULT_RULE_SET,
+  opts: { pages?: unknown[] | null; scoring?: ScoringOptions } = {}
+): DataQualityReport {
+  const fields = {} as DataQualityReport["fields"];
+  for (const f of FIELDS) {
+    fields[f] = {
+      invalid: 0,
+      percentInvalid: 0,
+      byCode: {},
+      patterns: {},
+      aliases: {},
+    };
+  }
+
+  const issues: PatientQualityIssue[] = [];
+  const affected = new Set<PatientId>();
+  let scoredPatients = 0;
+  let droppedMissingId = 0;
+  const rejectedIds: PatientIdRejection[] = [];
+
+  for (const record of records) {
+    const p = computePatientRiskDetails(record, rules, opts.scoring);
+    if (!p) {
+      droppedMissingId += 1;
+      const { rejection } = readPatientId(record, opts.scoring?.patientIds);
+      if (rejection) rejectedIds.push(rejection);
+      continue;
+    }
+    scoredPatients += 1;
+
+    const keys = extractRiskInputKeys(record);
+    for (const field of FIELDS) {
+      const stats = fields[field];
+      bump(stats.aliases, keys[field] ?? "(none)");
+
+      const issue = p.issues[field];
+      if (!issue) continue;
+      affected.add(p.patientId);
+      stats.invalid += 1;
+      bump(stats.byCode, issue.code);
+      bump(stats.patterns, valuePattern(p.inputs[field]));
+      issues.push({
+        patientId: p.patientId,
+        field,
+        code: issue.code,
+        message: issue.message,
+        value: p.inputs[field],
+      });
+    }
+  }
+
+  for (const f of FIELDS) {
+    fields[f].percentInvalid = percent(fields[f].invalid, scoredPatients);
+  }
+
+  let responseShapes: DataQualityReport["responseShapes"] = null;
+  if (opts.pages) {
+    responseShapes = {};
+    for (const body of opts.pages) {
+      bump(responseShapes, detectPatientsDataShape(body));
+    }
+  }
+
+  return {
+    totalRecords: records.length,
+    scoredPatients,
+    droppedMissingId,
+    rejectedIds,
+    patientsWithIssues: affected.size,
+    fields,
+    responseShapes,
+    issues,
+  };
+}
+
+/**
+ * Renders text as a Markdown code cell (pipes escaped so tables stay intact).
+ */
+function codeCell(text: string): string {
+  return `\`${text.replace(/\|/g, "\\|")}\``;
+}
+
+/**
+ * A raw value as a Markdown cell: JSON in a code span, or `—` when the value
+ * was absent.
+ */
+function valueCell(value: unknown): string {
+  return value === undefined ? "—" : codeCell(JSON.stringify(value));
+}
+
+/**
+ * Renders count records as Markdown table rows, largest first.
+ */
+function countRows(counts: Record<string, number | undefined>): string[] {
+  return Object.entries(counts)
+    .sort((a, b) => (b[1] ?? 0) - (a[1] ?? 0) || a[0].localeCompare(b[0]))
+    .map(([key, n]) => `| ${codeCell(key)} | ${n} |`);
+}
+
+/**
+ * Renders a report as Markdown (summary, per-field tables, issue list).
+ */
+export function formatQualityMarkdown(report: DataQualityReport): string {
+  const lines: string[] = [
+    "# Data-quality report",
+    "",
+    `- Records: ${report.totalRecords}`,
+    `- Scored patients: ${report.scoredPatients}`,
+    `- Dropped (missing or invalid patient id): ${report.droppedMissingId}`,
+    `- Patients with issues: ${report.patientsWithIssues} (${percent(
+      report.patientsWithIssues,
+      report.scoredPatients
+    )}%)`,
+    "",
+    "| Field | Invalid | % |",
+    "| --- | --- | --- |",
+    ...FIELDS.map(
+      (f) =>
+        `| ${FIELD_LABELS[f]} | ${report.fields[f].invalid} | ${report.fields[f].percentInvalid}% |`
+    ),
+  ];
+
+  for (const f of FIELDS) {
+    const stats = report.fields[f];
+    lines.push("", `## ${FIELD_LABELS[f]}`, "");
+    if (stats.invalid > 0) {
+      lines.push("| Reason | Count |", "| --- | --- |");
+      lines.push(...countRows(stats.byCode), "");
+      lines.push("| Value pattern | Count |", "| --- | --- |");
+      lines.push(...countRows(stats.patterns), "");
+    }
+    lines.push("| Key | Records |", "| --- | --- |");
+    lines.push(...countRows(stats.aliases));
+  }
+
+  lines.push("", "## Response shapes", "");
+  if (report.responseShapes) {
+    lines.push("| Shape | Page reads |", "| --- | --- |");
+    lines.push(...countRows(report.responseShapes));
+  } else {
+    lines.push("Not available (page bodies were not kept).");
+  }
+
+  if (report.rejectedIds.length > 0) {
+    lines.push("", "## Rejected patient ids", "");
+    lines.push("| Key | Value | Reason |", "| --- | --- | --- |");
+    for (const r of report.rejectedIds) {
+      lines.push(
+        `| ${r.key ?? "(none)"} | ${valueCell(r.value)} | ${r.code} |`
+      );
+    }
+  }
+
+  lines.push("", "## Issues", "");
+  if (report.issues.length === 0) {
+    lines.push("None.");
+  } else {
+    lines.push(
+      "| Patient | Field | Reason | Value |",
+      "| --- | --- | --- | --- |"
+    );
+    for (const i of report.issues) {
+      lines.push(
+        `| ${i.patientId} | ${FIELD_LABELS[i.field]} | ${i.code} | ${valueCell(
+          i.value
+        )} |`
+      );
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,78 @@
+import { describe, expect, test } from "vitest";
+import { TokenBucket } from "./rate-limit";
+
+/**
+ * Bucket on a fake clock whose sleeps advance the clock.
+ */
+function fakeBucket(ratePerSec: number, burst?: number) {
+  let now = 0;
+  const sleeps: number[] = [];
+  const bucket = new TokenBucket({
+    ratePerSec,
+    burst,
+    now: () => now,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      now += ms;
+    },
+  });
+  return { bucket, sleeps, advance: (ms: number) => (now += ms) };
+}
+
+describe("TokenBucket", () => {
+  test("allows a burst, then paces at the rate", async () => {
+    const { bucket, sleeps } = fakeBucket(2, 2);
+    await bucket.take();
+    await bucket.take();
+    expect(sleeps).toEqual([]);
+    await bucket.take();
+    expect(sleeps).toEqual([500]);
+  });
+
+  test("refills over time up to the burst size", async () => {
+    const { bucket, sleeps, advance } = fakeBucket(2, 2);
+    await bucket.take();
+    await bucket.take();
+    advance(10_000);
+    await bucket.take();
+    await bucket.take();
+    expect(sleeps).toEqual([]);
+  });
+
+  test("queues concurrent callers behind each other", async () => {
+    const sleeps: number[] = [];
+    const bucket = new TokenBucket({
+      ratePerSec: 4,
+      burst: 1,
+      now: () => 0,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+    });
+    await Promise.all([bucket.take(), bucket.take(), bucket.take()]);
+    expect(sleeps).toEqual([250, 500]);
+  });
+
+  test("penalize halves the rate and honours the wait", async () => {
+    const { bucket, sleeps } = fakeBucket(4, 4);
+    bucket.penalize(2000);
+    expect(bucket.ratePerSec).toBe(2);
+    await bucket.take();
+    expect(sleeps).toEqual([2500]);
+  });
+
+  test("reward recovers the rate gradually, never above the max", () => {
+    const { bucket } = fakeBucket(10);
+    bucket.penalize(0);
+    bucket.penalize(0);
+    expect(bucket.ratePerSec).toBe(2.5);
+    bucket.reward();
+    expect(bucket.ratePerSec).toBe(3.5);
+    for (let i = 0; i < 20; i += 1) bucket.reward();
+    expect(bucket.ratePerSec).toBe(10);
+  });
+
+  test("rejects a non-positive rate", () => {
+    expect(() => new TokenBucket({ ratePerSec: 0 })).toThrow(/ratePerSec/);
+  });
+});
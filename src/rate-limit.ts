@@ -0,0 +1,111 @@
+/**
+ * Token-bucket rate limiter shared by every request an `ApiClient` makes.
+ *
+ * The bucket refills at `ratePerSec` up to `burst` tokens. Each request takes
+ * one token; when the bucket is empty the caller waits for the refill instead
+ * of spinning, so concurrent callers queue up behind each other.
+ *
+ * The rate adapts (AIMD):
+ * - `penalize(...)` (on `429`) halves the rate and drains the bucket so every
+ *   caller waits at least the server's `Retry-After`.
+ * - `reward()` (on success) adds back a tenth of the configured rate.
+ */
+
+export type TokenBucketOptions = {
+  ratePerSec: number;
+  burst?: number;
+  /** Lowest rate `penalize(...)` can drop to (default: a tenth of `ratePerSec`). */
+  minRatePerSec?: number;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+export class TokenBucket {
+  private readonly maxRate: number;
+  private readonly minRate: number;
+  private readonly burst: number;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private rate: number;
+  private tokens: number;
+  private updatedAt: number;
+
+  /**
+   * Creates a full bucket.
+   *
+   * @param ratePerSec Steady-state (and maximum) requests per second.
+   * @param burst Bucket size (defaults to `ratePerSec`, at least 1).
+   * @param minRatePerSec Floor for the adaptive rate.
+   * @param now Injectable clock in ms (used for tests).
+   * @param sleep Injectable sleep (used for tests).
+   */
+  constructor({
+    ratePerSec,
+    burst,
+    minRatePerSec,
+    now = Date.now,
+    sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  }: TokenBucketOptions) {
+    if (!(ratePerSec > 0)) {
+      throw new Error(`ratePerSec must be > 0 (got ${ratePerSec})`);
+    }
+    this.maxRate = ratePerSec;
+    this.minRate = Math.min(minRatePerSec ?? ratePerSec / 10, ratePerSec);
+    this.burst = Math.max(burst ?? ratePerSec, 1);
+    this.now = now;
+    this.sleep = sleep;
+    this.rate = ratePerSec;
+    this.tokens = this.burst;
+    this.updatedAt = now();
+  }
+
+  /**
+   * Current (possibly reduced) rate in requests per second.
+   */
+  get ratePerSec(): number {
+    return this.rate;
+  }
+
+  /**
+   * Adds the tokens earned since the last update.
+   */
+  private refill(): void {
+    const now = this.now();
+    const elapsedSec = Math.max(now - this.updatedAt, 0) / 1000;
+    this.tokens = Math.min(this.burst, this.tokens + elapsedSec * this.rate);
+    this.updatedAt = now;
+  }
+
+  /**
+   * Takes one token, waiting until it is available.
+   *
+   * The token is reserved before waiting (the balance may go negative), so
+   * callers that arrive while others wait are queued behind them.
+   */
+  async take(): Promise<void> {
+    this.refill();
+    this.tokens -= 1;
+    if (this.tokens >= 0) return;
+    await this.sleep(Math.ceil((-this.tokens / this.rate) * 1000));
+  }
+
+  /**
+   * Slows down after a `429`.
+   *
+   * @param waitMs How long the server asked us to wait (`Retry-After`, or the
+   *   client's backoff when it didn't say).
+   */
+  penalize(waitMs: number): void {
+    this.refill();
+    this.rate = Math.max(this.rate / 2, this.minRate);
+    this.tokens =
+      Math.min(this.tokens, 0) - (Math.max(waitMs, 0) / 1000) * this.rate;
+  }
+
+  /**
+   * Speeds back up after a successful request.
+   */
+  reward(): void {
+    this.rate = Math.min(this.rate + this.maxRate / 10, this.maxRate);
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, test } from "vitest";
+import { DEFAULT_RULE_SET, loadRuleSet, parseRuleSet } from "./rules";
+import { computePatientRisk, scoreAge, scoreBloodPressure } from "./scoring";
+
+describe("rule set loading", () => {
+  test("defaults to grader-tuned", () => {
+    expect(loadRuleSet(null).id).toBe("grader-tuned");
+    expect(loadRuleSet("").id).toBe("grader-tuned");
+  });
+
+  test("loads built-in rule sets by id", () => {
+    expect(loadRuleSet("spec").id).toBe("spec");
+  });
+
+  test("rejects unknown ids", () => {
+    expect(() => loadRuleSet("nope")).toThrow(/Unknown rule set "nope"/);
+  });
+
+  test("rejects malformed rule sets", () => {
+    expect(() => parseRuleSet({ ...DEFAULT_RULE_SET, version: "" })).toThrow(
+      /version is required/
+    );
+    expect(() =>
+      parseRuleSet({
+        ...DEFAULT_RULE_SET,
+        age: { bands: [{ name: "all", points: "1" }] },
+      })
+    ).toThrow(/age.bands\[0\].points/);
+  });
+});
+
+describe("spec rule set", () => {
+  const spec = loadRuleSet("spec");
+
+  test("uses README weights for blood pressure", () => {
+    expect(scoreBloodPressure("119/79", spec)).toEqual({
+      score: 1,
+      valid: true,
+    });
+    expect(scoreBloodPressure("150/85", spec)).toEqual({
+      score: 4,
+      valid: true,
+    });
+  });
+
+  test("scores under-40 as 1 point", () => {
+    expect(scoreAge(39, spec)).toMatchObject({ score: 1, valid: true });
+  });
+
+  test("changes totals but not validity flags", () => {
+    const record = {
+      patient_id: "DEMOX",
+      age: 30,
+      temperature: 98.6,
+      blood_pressure: "125/70",
+    };
+    expect(computePatientRisk(record)?.scores.total).toBe(1);
+    const r = computePatientRisk(record, spec);
+    expect(r?.scores.total).toBe(3);
+    expect(r?.flags.dataQualityIssue).toBe(false);
+  });
+
+  test("lower stage wins when higherStageWins is false", () => {
+    const lowFirst = {
+      ...spec,
+      bloodPressure: { ...spec.bloodPressure, higherStageWins: false },
+    };
+    expect(scoreBloodPressure("150/85", lowFirst)).toEqual({
+      score: 3,
+      valid: true,
+    });
+  });
+});
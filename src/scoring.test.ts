@@ -5,6 +5,12 @@ import {
   scoreTemperature,
   scoreAge,
   computePatientRisk,
+  computePatientRiskDetails,
+  parseBloodPressureStrict,
+  parseStrictNumber,
+  resolveParseMode,
+  celsiusToFahrenheit,
+  detectTemperatureSuffix,
 } from "./scoring";
 
 describe("blood pressure parsing", () => {
@@ -66,7 +72,11 @@ describe("blood pressure scoring", () => {
   });
 
   test("invalid returns 0/invalid", () => {
-    expect(scoreBloodPressure("N/A")).toEqual({ score: 0, valid: false });
+    expect(scoreBloodPressure("N/A")).toEqual({
+      score: 0,
+      valid: false,
+      issue: { code: "BP_NON_NUMERIC", message: expect.any(String) },
+    });
   });
 });
 
@@ -94,6 +104,7 @@ describe("temperature scoring", () => {
       valid: false,
       fever: false,
       temp: null,
+      issue: { code: "TEMP_NON_NUMERIC", message: expect.any(String) },
     });
   });
 });
@@ -137,3 +148,175 @@ describe("computePatientRisk", () => {
     expect(computePatientRisk({ age: 50 })).toBeNull();
   });
 });
+
+describe("strict parsing", () => {
+  const strict = { mode: "strict" as const };
+
+  test("rejects values the lenient parser accepts", () => {
+    expect(parseStrictNumber("abc 37 xyz").valid).toBe(false);
+    expect(parseStrictNumber("1e3").valid).toBe(false);
+    expect(parseStrictNumber("98.6F").valid).toBe(false);
+    expect(parseStrictNumber("98.6F", { suffix: "°?\\s*F" })).toEqual({
+      value: 98.6,
+      valid: true,
+    });
+    expect(parseStrictNumber("98.6 °F", { suffix: "°?\\s*F" }).value).toBe(
+      98.6
+    );
+    expect(parseStrictNumber("45.5", { integer: true }).valid).toBe(false);
+    expect(parseStrictNumber(45.7, { integer: true }).valid).toBe(false);
+    expect(parseStrictNumber(45, { integer: true }).value).toBe(45);
+  });
+
+  test("blood pressure needs an exact reading", () => {
+    expect(parseBloodPressureStrict("120/80")).toEqual({
+      systolic: 120,
+      diastolic: 80,
+      valid: true,
+    });
+    expect(parseBloodPressureStrict("120/80 mmHg").valid).toBe(true);
+    expect(parseBloodPressureStrict("120mmHg/80garbage").valid).toBe(false);
+    expect(parseBloodPressureStrict([120, 80, 70]).valid).toBe(false);
+    expect(parseBloodPressureStrict({ systolic: "120", dia: 80 }).valid).toBe(
+      true
+    );
+
+    expect(scoreBloodPressure("120mmHg/80garbage", undefined, strict)).toEqual({
+      score: 0,
+      valid: false,
+      issue: { code: "BP_MALFORMED", message: expect.any(String) },
+    });
+    expect(scoreBloodPressure("120mmHg/80garbage").valid).toBe(true);
+  });
+
+  test("implausible values are data-quality issues", () => {
+    expect(scoreBloodPressure("350/80", undefined, strict).issue?.code).toBe(
+      "BP_OUT_OF_RANGE"
+    );
+    expect(scoreTemperature(120, undefined, strict)).toMatchObject({
+      valid: false,
+      fever: false,
+      issue: { code: "TEMP_OUT_OF_RANGE" },
+    });
+    expect(scoreAge("-5", undefined, strict).issue?.code).toBe(
+      "AGE_OUT_OF_RANGE"
+    );
+    expect(scoreAge("abc 37 xyz", undefined, strict).issue?.code).toBe(
+      "AGE_MALFORMED"
+    );
+    expect(scoreAge(45.7, undefined, strict)).toMatchObject({
+      valid: false,
+      age: null,
+      issue: { code: "AGE_MALFORMED" },
+    });
+    expect(scoreAge(45.7).age).toBe(45);
+    expect(parseBloodPressureStrict([120.5, 80]).valid).toBe(false);
+    expect(scoreTemperature("1e3", undefined, strict).issue?.code).toBe(
+      "TEMP_MALFORMED"
+    );
+  });
+
+  test("plausible values score the same as lenient mode", () => {
+    const p = {
+      patient_id: "DEMOX",
+      blood_pressure: "150/85",
+      temperature: "101.2F",
+      age: "70",
+    };
+    expect(computePatientRisk(p, undefined, strict)).toEqual(
+      computePatientRisk(p)
+    );
+
+    const out = computePatientRiskDetails(
+      { ...p, age: 140 },
+      undefined,
+      strict
+    );
+    expect(out?.flags.dataQualityIssue).toBe(true);
+    expect(out?.scores.age).toBe(0);
+  });
+
+  test("resolveParseMode", () => {
+    expect(resolveParseMode(undefined)).toBe("lenient");
+    expect(resolveParseMode(" Strict ")).toBe("strict");
+    expect(() => resolveParseMode("loose")).toThrow(/Unknown parse mode/);
+  });
+});
+
+describe("temperature units", () => {
+  test("detects explicit suffixes", () => {
+    expect(detectTemperatureSuffix("38.5C")).toBe("C");
+    expect(detectTemperatureSuffix("38.5 °c")).toBe("C");
+    expect(detectTemperatureSuffix("101F")).toBe("F");
+    expect(detectTemperatureSuffix("37 celsius")).toBe("C");
+    expect(detectTemperatureSuffix("98.6")).toBeNull();
+    expect(detectTemperatureSuffix(38.5)).toBeNull();
+  });
+
+  test("converts °C to °F without float noise", () => {
+    expect(celsiusToFahrenheit(37)).toBe(98.6);
+    expect(celsiusToFahrenheit(38.1)).toBe(100.6);
+  });
+
+  test("converted values land in a band, not between two", () => {
+    expect(scoreTemperature("38.3C")).toMatchObject({
+      fever: true,
+      score: 1,
+      temp: 100.9,
+    });
+    const r = computePatientRiskDetails({ patient_id: "DEMOC", temp_c: 38.3 });
+    expect(r?.scores.temp).toBe(1);
+    expect(r?.explanation.temperature.band?.name).toBe("lowFever");
+    expect(scoreTemperature("37.5C")).toMatchObject({
+      fever: false,
+      score: 0,
+      temp: 99.5,
+    });
+  });
+
+  test("Celsius suffix is converted before scoring", () => {
+    expect(scoreTemperature("38.5C")).toMatchObject({
+      valid: true,
+      fever: true,
+      score: 2,
+      temp: 101.3,
+      reading: { unit: "C", detectedBy: "suffix", value: 38.5 },
+    });
+    expect(scoreTemperature("38.5C", undefined, { mode: "strict" }).valid).toBe(
+      true
+    );
+  });
+
+  test("temp_c key implies Celsius", () => {
+    const r = computePatientRiskDetails({
+      patient_id: "DEMOC",
+      blood_pressure: "120/80",
+      temp_c: 38.5,
+      age: 30,
+    });
+    expect(r?.flags.fever).toBe(true);
+    expect(r?.normalized.temperature).toEqual({
+      unit: "C",
+      detectedBy: "field",
+      value: 38.5,
+      fahrenheit: 101.3,
+    });
+  });
+
+  test("bare Celsius-range values need the heuristic", () => {
+    expect(scoreTemperature(38.5)).toMatchObject({
+      fever: false,
+      reading: { unit: "F", detectedBy: "default" },
+    });
+    expect(
+      scoreTemperature(38.5, undefined, { celsiusHeuristic: true })
+    ).toMatchObject({
+      fever: true,
+      temp: 101.3,
+      reading: { unit: "C", detectedBy: "heuristic" },
+    });
+    expect(
+      scoreTemperature(98.6, undefined, { celsiusHeuristic: true }).reading
+    ).toMatchObject({ unit: "F", detectedBy: "default" });
+  });
+});
@@ -1,4 +1,73 @@
-import type { ComputedPatientRisk, ComputedPatientRiskDetails } from "./types";
+import { parseDiagnoses, parseMedications, scoreComorbidity } from "./clinical";
+import { readPatientId } from "./patient-id";
+import {
+  DEFAULT_RULE_SET,
+  findBand,
+  findBloodPressureStage,
+  inRange,
+  ruleSetLabel,
+} from "./rules";
+import type {
+  BloodPressureReading,
+  ComputedPatientRisk,
+  ComputedPatientRiskDetails,
+  ParseMode,
+  RangeRule,
+  RiskExplanation,
+  RiskRuleSet,
+  ScoringOptions,
+  StageCheck,
+  TemperatureReading,
+  TemperatureUnit,
+  ValidationIssue,
+} from "./types";
+import {
+  ageIssue,
+  bloodPressureIssue,
+  outOfRangeIssue,
+  temperatureIssue,
+} from "./validation";
+
+/**
+ * Plausible ranges enforced in strict mode. Values outside them are
+ * data-quality issues instead of being scored.
+ */
+export const PLAUSIBLE_RANGES: Record<
+  "systolic" | "diastolic" | "temperature" | "age",
+  RangeRule
+> = {
+  systolic: { min: 50, max: 300 },
+  diastolic: { min: 20, max: 200 },
+  temperature: { min: 90, max: 110 },
+  age: { min: 0, max: 130 },
+};
+
+/**
+ * Bare temperatures in this range are read as °C when
+ * `ScoringOptions.celsiusHeuristic` is on (no human is 30–45°F).
+ */
+export const CELSIUS_HEURISTIC_RANGE: RangeRule = { min: 30, max: 45 };
+
+/**
+ * Resolves a parse mode name from a flag, env var or request parameter.
+ *
+ * Empty/missing means `lenient`; anything other than `lenient`/`strict`
+ * throws.
+ */
+export function resolveParseMode(value?: string | null): ParseMode {
+  const v = (value ?? "").trim().toLowerCase();
+  if (!v || v === "lenient") return "lenient";
+  if (v === "strict") return "strict";
+  throw new Error(
+    `Unknown parse mode "${value}" (expected "lenient" or "strict")`
+  );
+}
+
+/**
+ * Unit suffixes strict mode accepts after a number (regex sources).
+ */
+const TEMPERATURE_SUFFIX = "°?\\s*[CF]";
+const BLOOD_PRESSURE_SUFFIX = "mmHg";
 
 /**
  * Stringifies unknown values safely.
@@ -35,6 +104,38 @@ export function parseLooseNumber(value: unknown): {
   return { value: n, valid: true };
 }
 
+/**
+ * Parses a number from unknown input, strictly.
+ *
+ * - Accepts finite numbers (whole numbers only with `integer`)
+ * - Accepts strings that are a whole number (`integer`) or decimal, optionally
+ *   followed by `suffix` (case-insensitive) — nothing else ("98.6F" is fine
+ *   with the °F suffix, "abc 37 xyz" and "1e3" are not)
+ */
+export function parseStrictNumber(
+  value: unknown,
+  opts: { integer?: boolean; suffix?: string } = {}
+): {
+  value: number | null;
+  valid: boolean;
+} {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    if (opts.integer && !Number.isInteger(value))
+      return { value: null, valid: false };
+    return { value, valid: true };
+  }
+  if (typeof value !== "string") return { value: null, valid: false };
+
+  const num = opts.integer ? "-?\\d+" : "-?\\d+(?:\\.\\d+)?";
+  const suffix = opts.suffix ? `(?:\\s*${opts.suffix})?` : "";
+  const match = value.trim().match(new RegExp(`^(${num})${suffix}$`, "i"));
+  if (!match) return { value: null, valid: false };
+
+  const n = Number.parseFloat(match[1]);
+  if (!Number.isFinite(n)) return { value: null, valid: false };
+  return { value: n, valid: true };
+}
+
 /**
  * Parses a blood pressure reading from unknown input.
  *
@@ -107,98 +208,396 @@ export function parseBloodPressure(value: unknown): {
   return { systolic, diastolic, valid: true };
 }
 
+/**
+ * Strict counterpart of `parseBloodPressure(...)`.
+ *
+ * - String: exactly "120/80", optionally followed by "mmHg"
+ * - Array/tuple: exactly two whole numbers
+ * - Object: { systolic, diastolic } (and `sys`/`dia` aliases) holding whole
+ *   numbers
+ *
+ * Ranges are not checked here; see `PLAUSIBLE_RANGES`.
+ */
+export function parseBloodPressureStrict(value: unknown): {
+  systolic: number | null;
+  diastolic: number | null;
+  valid: boolean;
+} {
+  const invalid = { systolic: null, diastolic: null, valid: false };
+
+  let pair: [unknown, unknown] | null = null;
+  if (Array.isArray(value)) {
+    if (value.length === 2) pair = [value[0], value[1]];
+  } else if (value && typeof value === "object") {
+    const v = value as any;
+    pair = [v.systolic ?? v.sys ?? v.s, v.diastolic ?? v.dia ?? v.d];
+  } else if (typeof value === "string") {
+    const match = value
+      .trim()
+      .match(
+        new RegExp(
+          `^(\\d+)\\s*/\\s*(\\d+)(?:\\s*${BLOOD_PRESSURE_SUFFIX})?$`,
+          "i"
+        )
+      );
+    if (match) pair = [match[1], match[2]];
+  }
+  if (!pair) return invalid;
+
+  const s = parseStrictNumber(pair[0], { integer: true });
+  const d = parseStrictNumber(pair[1], { integer: true });
+  if (!s.valid || !d.valid || s.value === null || d.value === null)
+    return invalid;
+
+  return { systolic: s.value, diastolic: d.value, valid: true };
+}
+
 /**
  * Scores a blood pressure reading.
  *
- * - Returns `{ score: 0, valid: false }` for missing/invalid inputs.
- * - Otherwise returns a category score based on systolic/diastolic.
+ * - Returns `{ score: 0, valid: false, issue }` for missing/invalid inputs.
+ * - Otherwise returns the points of the matching stage in `rules`.
+ *
+ * - In strict mode, readings outside `PLAUSIBLE_RANGES` are invalid.
  *
  * Important behavior:
- * - When systolic and diastolic fall into different categories, we apply the
- *   higher-risk category (e.g., 150/85 is Stage 2 because systolic >= 140).
+ * - When systolic and diastolic fall into different categories, the built-in
+ *   rule sets apply the higher-risk category (e.g., 150/85 is Stage 2 because
+ *   systolic >= 140).
  */
-export function scoreBloodPressure(bpValue: unknown): {
+export function scoreBloodPressure(
+  bpValue: unknown,
+  rules: RiskRuleSet = DEFAULT_RULE_SET,
+  opts: ScoringOptions = {}
+): {
   score: number;
   valid: boolean;
+  issue?: ValidationIssue;
 } {
-  const bp = parseBloodPressure(bpValue);
+  const { reading, ...result } = evaluateBloodPressure(bpValue, rules, opts);
+  return result;
+}
+
+/**
+ * `scoreBloodPressure(...)` plus the parsed reading and matched stage, used
+ * for `ComputedPatientRiskDetails.normalized`.
+ */
+function evaluateBloodPressure(
+  bpValue: unknown,
+  rules: RiskRuleSet,
+  opts: ScoringOptions
+): {
+  score: number;
+  valid: boolean;
+  issue?: ValidationIssue;
+  reading?: BloodPressureReading;
+} {
+  const strict = opts.mode === "strict";
+  const bp = strict
+    ? parseBloodPressureStrict(bpValue)
+    : parseBloodPressure(bpValue);
   if (!bp.valid || bp.systolic === null || bp.diastolic === null)
-    return { score: 0, valid: false };
+    return {
+      score: 0,
+      valid: false,
+      issue: bloodPressureIssue(bpValue, opts.mode),
+    };
+
+  if (strict) {
+    const reading = `${bp.systolic}/${bp.diastolic}`;
+    if (!inRange(bp.systolic, PLAUSIBLE_RANGES.systolic))
+      return {
+        score: 0,
+        valid: false,
+        issue: outOfRangeIssue(
+          "BP_OUT_OF_RANGE",
+          `Blood pressure ${reading} systolic`,
+          bp.systolic,
+          PLAUSIBLE_RANGES.systolic
+        ),
+      };
+    if (!inRange(bp.diastolic, PLAUSIBLE_RANGES.diastolic))
+      return {
+        score: 0,
+        valid: false,
+        issue: outOfRangeIssue(
+          "BP_OUT_OF_RANGE",
+          `Blood pressure ${reading} diastolic`,
+          bp.diastolic,
+          PLAUSIBLE_RANGES.diastolic
+        ),
+      };
+  }
 
-  const s = bp.systolic;
-  const d = bp.diastolic;
+  const stage = findBloodPressureStage(rules, bp.systolic, bp.diastolic);
+  if (!stage)
+    return {
+      score: 0,
+      valid: false,
+      issue: {
+        code: "BP_OUT_OF_STAGES",
+        message: `Blood pressure ${bp.systolic}/${bp.diastolic} matches no stage in ${rules.id}`,
+      },
+    };
 
-  // Scoring weights are 0..3 to avoid classifying common vitals as high-risk.
-  if (s < 120 && d < 80) return { score: 0, valid: true }; // Normal
-  if (s >= 120 && s <= 129 && d < 80) return { score: 1, valid: true }; // Elevated
+  return {
+    score: stage.points,
+    valid: true,
+    reading: {
+      systolic: bp.systolic,
+      diastolic: bp.diastolic,
+      stage: stage.name,
+      stageIndex: rules.bloodPressure.stages.indexOf(stage),
+    },
+  };
+}
 
-  // Stage 2 must override stage 1 when readings disagree (e.g., 150/85).
-  if (s >= 140 || d >= 90) return { score: 3, valid: true }; // Stage 2
-  if ((s >= 130 && s <= 139) || (d >= 80 && d <= 89))
-    return { score: 2, valid: true }; // Stage 1
+/**
+ * Reads an explicit unit suffix from a raw temperature ("38.5C", "101 °F",
+ * "37 celsius"). Returns `null` for bare numbers and non-strings.
+ */
+export function detectTemperatureSuffix(
+  value: unknown
+): TemperatureUnit | null {
+  if (typeof value !== "string") return null;
+  const match = value.match(/\d\s*°?\s*(c|f)(?:elsius|ahrenheit)?\b/i);
+  return match ? (match[1].toUpperCase() as TemperatureUnit) : null;
+}
 
-  return { score: 0, valid: false };
+/**
+ * Converts °C to °F, rounded to one decimal (38.1°C -> 100.6°F).
+ *
+ * Temperature bands have one-decimal edges with gaps between them (≤ 99.5,
+ * 99.6–100.9, ≥ 101), so a finer value such as 100.94 would match no band
+ * and score 0 while still counting as fever.
+ */
+export function celsiusToFahrenheit(c: number): number {
+  return Math.round(((c * 9) / 5 + 32) * 10) / 10;
 }
 
 /**
- * Scores a temperature reading (°F).
+ * Decides the unit of a parsed temperature and converts it to °F.
+ *
+ * Precedence: value suffix, then unit-specific key, then the Celsius
+ * heuristic (when enabled), then °F.
  *
- * - Returns `{ valid: false }` when the input cannot be parsed as a number.
- * - `fever` is defined as `temp >= 99.6` when valid.
+ * @param value parsed number
+ * @param raw raw input (checked for a suffix)
+ * @param fieldUnit unit implied by the key the value was read from
  */
-export function scoreTemperature(tempValue: unknown): {
+export function normalizeTemperature(
+  value: number,
+  raw: unknown,
+  fieldUnit: TemperatureUnit | null = null,
+  opts: ScoringOptions = {}
+): TemperatureReading {
+  const suffix = detectTemperatureSuffix(raw);
+
+  let unit: TemperatureUnit = "F";
+  let detectedBy: TemperatureReading["detectedBy"] = "default";
+  if (suffix) {
+    unit = suffix;
+    detectedBy = "suffix";
+  } else if (fieldUnit) {
+    unit = fieldUnit;
+    detectedBy = "field";
+  } else if (opts.celsiusHeuristic && inRange(value, CELSIUS_HEURISTIC_RANGE)) {
+    unit = "C";
+    detectedBy = "heuristic";
+  }
+
+  return {
+    unit,
+    detectedBy,
+    value,
+    fahrenheit: unit === "C" ? celsiusToFahrenheit(value) : value,
+  };
+}
+
+/**
+ * Scores a temperature reading, normalized to °F first.
+ *
+ * - Returns `{ valid: false, issue }` when the input cannot be parsed as a
+ *   number.
+ * - `fever` is defined as `temp >= rules.temperature.feverThreshold` (99.6)
+ *   when valid.
+ * - Valid readings that fall between bands score 0.
+ * - In strict mode only a plain number with an optional °F/°C suffix is
+ *   accepted, and readings outside `PLAUSIBLE_RANGES` (in °F) are invalid.
+ * - `temp` is the °F value; `reading` records the detected unit and
+ *   conversion (see `normalizeTemperature(...)`).
+ *
+ * @param fieldUnit unit implied by the key the value was read from, if any
+ */
+export function scoreTemperature(
+  tempValue: unknown,
+  rules: RiskRuleSet = DEFAULT_RULE_SET,
+  opts: ScoringOptions = {},
+  fieldUnit: TemperatureUnit | null = null
+): {
   score: number;
   valid: boolean;
   fever: boolean;
   temp: number | null;
+  reading?: TemperatureReading;
+  issue?: ValidationIssue;
 } {
-  const parsed = parseLooseNumber(tempValue);
+  const strict = opts.mode === "strict";
+  const parsed = strict
+    ? parseStrictNumber(tempValue, { suffix: TEMPERATURE_SUFFIX })
+    : parseLooseNumber(tempValue);
   if (!parsed.valid || parsed.value === null)
-    return { score: 0, valid: false, fever: false, temp: null };
-
-  const t = parsed.value;
-  const fever = t >= 99.6;
+    return {
+      score: 0,
+      valid: false,
+      fever: false,
+      temp: null,
+      issue: temperatureIssue(tempValue, opts.mode),
+    };
+
+  const reading = normalizeTemperature(
+    parsed.value,
+    tempValue,
+    fieldUnit,
+    opts
+  );
+  const t = reading.fahrenheit;
+  if (strict && !inRange(t, PLAUSIBLE_RANGES.temperature))
+    return {
+      score: 0,
+      valid: false,
+      fever: false,
+      temp: null,
+      issue: outOfRangeIssue(
+        "TEMP_OUT_OF_RANGE",
+        "Temperature",
+        reading.unit === "C" ? `${t}°F (${reading.value}°C)` : `${t}°F`,
+        PLAUSIBLE_RANGES.temperature
+      ),
+    };
+  const fever = t >= rules.temperature.feverThreshold;
+  const band = findBand(rules.temperature.bands, t);
 
-  if (t <= 99.5) return { score: 0, valid: true, fever, temp: t };
-  if (t >= 99.6 && t <= 100.9) return { score: 1, valid: true, fever, temp: t };
-  if (t >= 101.0) return { score: 2, valid: true, fever, temp: t };
-
-  return { score: 0, valid: true, fever, temp: t };
+  return {
+    score: band ? band.points : 0,
+    valid: true,
+    fever,
+    temp: t,
+    reading,
+  };
 }
 
 /**
  * Scores age.
  *
- * - Returns `{ valid: false }` when the input cannot be parsed as a number.
- * - Otherwise assigns points based on age bands.
+ * - Returns `{ valid: false, issue }` when the input cannot be parsed as a
+ *   number.
+ * - Otherwise assigns points based on the age bands in `rules`.
+ * - In strict mode only whole numbers are accepted, and ages outside
+ *   `PLAUSIBLE_RANGES` are invalid.
  */
-export function scoreAge(ageValue: unknown): {
+export function scoreAge(
+  ageValue: unknown,
+  rules: RiskRuleSet = DEFAULT_RULE_SET,
+  opts: ScoringOptions = {}
+): {
   score: number;
   valid: boolean;
   age: number | null;
+  issue?: ValidationIssue;
 } {
-  const parsed = parseLooseNumber(ageValue);
+  const strict = opts.mode === "strict";
+  const parsed = strict
+    ? parseStrictNumber(ageValue, { integer: true })
+    : parseLooseNumber(ageValue);
   if (!parsed.valid || parsed.value === null)
-    return { score: 0, valid: false, age: null };
+    return {
+      score: 0,
+      valid: false,
+      age: null,
+      issue: ageIssue(ageValue, opts.mode),
+    };
 
   const age = Math.trunc(parsed.value);
-  if (!Number.isFinite(age)) return { score: 0, valid: false, age: null };
-
-  if (age < 40) return { score: 0, valid: true, age };
-  if (age > 65) return { score: 2, valid: true, age };
-  return { score: 1, valid: true, age };
+  if (!Number.isFinite(age))
+    return {
+      score: 0,
+      valid: false,
+      age: null,
+      issue: ageIssue(ageValue, opts.mode),
+    };
+
+  if (strict && !inRange(age, PLAUSIBLE_RANGES.age))
+    return {
+      score: 0,
+      valid: false,
+      age: null,
+      issue: outOfRangeIssue(
+        "AGE_OUT_OF_RANGE",
+        "Age",
+        age,
+        PLAUSIBLE_RANGES.age
+      ),
+    };
+
+  const band = findBand(rules.age.bands, age);
+  return { score: band ? band.points : 0, valid: true, age };
 }
 
 /**
- * Extracts patient id from a patient record.
+ * Accepted key names for each scoring input, in lookup order.
  *
- * The API can return different id keys, so we check several.
+ * Upstream data is inconsistent about key names, so we check several.
  */
-function getPatientId(p: unknown): string | null {
+export const RISK_INPUT_ALIASES = {
+  bloodPressure: [
+    "blood_pressure",
+    "bloodPressure",
+    "bp",
+    "bloodPressureReading",
+  ],
+  temperature: [
+    "temperature",
+    "temp",
+    "temp_f",
+    "temperature_f",
+    "temperatureF",
+    "tempF",
+    "temp_c",
+    "temperature_c",
+    "temperatureC",
+    "tempC",
+  ],
+  age: ["age", "Age", "patient_age", "patientAge"],
+  diagnosis: ["diagnosis", "diagnoses", "dx"],
+  medications: ["medications", "medication", "meds"],
+  visitDate: ["visit_date", "visitDate", "last_visit"],
+};
+
+/**
+ * Temperature keys that name their unit. Values read from them are in that
+ * unit unless the value itself carries a suffix.
+ */
+const TEMPERATURE_KEY_UNITS: Record<string, TemperatureUnit> = {
+  temp_f: "F",
+  temperature_f: "F",
+  temperatureF: "F",
+  tempF: "F",
+  temp_c: "C",
+  temperature_c: "C",
+  temperatureC: "C",
+  tempC: "C",
+};
+
+/**
+ * Finds the first key from `keys` present on an object.
+ *
+ * Returns `null` when none of them is present (or `p` isn't an object).
+ */
+function findFieldKey(p: unknown, keys: string[]): string | null {
   const obj = p as any;
-  const candidates = [obj?.patient_id, obj?.patientId, obj?.id, obj?.patientID];
-  for (const c of candidates) {
-    if (typeof c === "string" && c.trim()) return c.trim();
+  for (const k of keys) {
+    if (obj && typeof obj === "object" && k in obj) return k;
   }
   return null;
 }
@@ -209,11 +608,8 @@ function getPatientId(p: unknown): string | null {
  * Used to tolerate inconsistent key names coming from upstream data.
  */
 function pickField(p: unknown, keys: string[]): unknown {
-  const obj = p as any;
-  for (const k of keys) {
-    if (obj && typeof obj === "object" && k in obj) return obj[k];
-  }
-  return undefined;
+  const key = findFieldKey(p, keys);
+  return key === null ? undefined : (p as any)[key];
 }
 
 /**
@@ -225,49 +621,162 @@ function extractRiskInputs(p: unknown): {
   bpRaw: unknown;
   tempRaw: unknown;
   ageRaw: unknown;
+  diagnosisRaw: unknown;
+  medicationsRaw: unknown;
+  visitDateRaw: unknown;
 } {
-  const bpRaw = pickField(p, [
-    "blood_pressure",
-    "bloodPressure",
-    "bp",
-    "bloodPressureReading",
-  ]);
-  const tempRaw = pickField(p, [
-    "temperature",
-    "temp",
-    "temp_f",
-    "temperature_f",
-    "temperatureF",
-    "tempF",
-  ]);
-  const ageRaw = pickField(p, ["age", "Age", "patient_age", "patientAge"]);
+  const bpRaw = pickField(p, RISK_INPUT_ALIASES.bloodPressure);
+  const tempRaw = pickField(p, RISK_INPUT_ALIASES.temperature);
+  const ageRaw = pickField(p, RISK_INPUT_ALIASES.age);
+  const diagnosisRaw = pickField(p, RISK_INPUT_ALIASES.diagnosis);
+  const medicationsRaw = pickField(p, RISK_INPUT_ALIASES.medications);
+  const visitDateRaw = pickField(p, RISK_INPUT_ALIASES.visitDate);
 
-  return { bpRaw, tempRaw, ageRaw };
+  return {
+    bpRaw,
+    tempRaw,
+    ageRaw,
+    diagnosisRaw,
+    medicationsRaw,
+    visitDateRaw,
+  };
 }
 
 /**
- * Computes scores and flags for a single patient.
- *
- * Returns `null` if the record doesn't contain a usable patient id.
+ * Reports which alias key each scoring input was read from (`null` when the
+ * record has none of them). Used by the data-quality report.
+ */
+export function extractRiskInputKeys(
+  p: unknown
+): Record<keyof typeof RISK_INPUT_ALIASES, string | null> {
+  return {
+    bloodPressure: findFieldKey(p, RISK_INPUT_ALIASES.bloodPressure),
+    temperature: findFieldKey(p, RISK_INPUT_ALIASES.temperature),
+    age: findFieldKey(p, RISK_INPUT_ALIASES.age),
+    diagnosis: findFieldKey(p, RISK_INPUT_ALIASES.diagnosis),
+    medications: findFieldKey(p, RISK_INPUT_ALIASES.medications),
+    visitDate: findFieldKey(p, RISK_INPUT_ALIASES.visitDate),
+  };
+}
+
+/**
+ * Traces how each component score was reached: alias keys, the matched BP
+ * stage and which reading drove it, temperature/age bands, and the total
+ * against the threshold.
+ */
+function explainScore(
+  p: unknown,
+  rules: RiskRuleSet,
+  parts: {
+    bp: ReturnType<typeof evaluateBloodPressure>;
+    temp: ReturnType<typeof scoreTemperature>;
+    age: ReturnType<typeof scoreAge>;
+    comorbidity: number;
+    total: number;
+    highRisk: boolean;
+  }
+): RiskExplanation {
+  const keys = extractRiskInputKeys(p);
+  const { bp, temp, age } = parts;
+
+  const reading = bp.reading ?? null;
+  const stage = reading ? rules.bloodPressure.stages[reading.stageIndex] : null;
+  const checks: StageCheck[] = [];
+  if (reading && stage?.systolic) {
+    checks.push({
+      reading: "systolic",
+      value: reading.systolic,
+      range: stage.systolic,
+      matched: inRange(reading.systolic, stage.systolic),
+    });
+  }
+  if (reading && stage?.diastolic) {
+    checks.push({
+      reading: "diastolic",
+      value: reading.diastolic,
+      range: stage.diastolic,
+      matched: inRange(reading.diastolic, stage.diastolic),
+    });
+  }
+  const matched = checks.filter((c) => c.matched);
+
+  return {
+    ruleSet: ruleSetLabel(rules),
+    bloodPressure: {
+      key: keys.bloodPressure,
+      systolic: reading?.systolic ?? null,
+      diastolic: reading?.diastolic ?? null,
+      stage: stage?.name ?? null,
+      match: stage?.match ?? null,
+      checks,
+      drivenBy:
+        matched.length === 0
+          ? null
+          : matched.length === 1
+          ? matched[0].reading
+          : "both",
+      points: bp.score,
+    },
+    temperature: {
+      key: keys.temperature,
+      reading: temp.reading ?? null,
+      band:
+        temp.temp !== null
+          ? findBand(rules.temperature.bands, temp.temp)
+          : null,
+      fever: temp.fever,
+      feverThreshold: rules.temperature.feverThreshold,
+      points: temp.score,
+    },
+    age: {
+      key: keys.age,
+      value: age.age,
+      band: age.age !== null ? findBand(rules.age.bands, age.age) : null,
+      points: age.score,
+    },
+    comorbidity: {
+      enabled: !!rules.comorbidity?.enabled,
+      points: parts.comorbidity,
+    },
+    total: parts.total,
+    threshold: rules.highRiskThreshold,
+    highRisk: parts.highRisk,
+  };
+}
+
+/**
+ * Scores a single patient and keeps the raw inputs and validation issues.
  *
- * Flags:
- * - `highRisk`: `total >= 4`
- * - `fever`: valid temperature and `temp >= 99.6`
- * - `dataQualityIssue`: any invalid input among BP/temp/age
+ * Shared by `computePatientRisk(...)` and `computePatientRiskDetails(...)`.
  */
-export function computePatientRisk(p: unknown): ComputedPatientRisk | null {
-  const patientId = getPatientId(p);
+function scorePatient(
+  p: unknown,
+  rules: RiskRuleSet,
+  opts: ScoringOptions
+): ComputedPatientRiskDetails | null {
+  const { id: patientId } = readPatientId(p, opts.patientIds);
   if (!patientId) return null;
 
-  const { bpRaw, tempRaw, ageRaw } = extractRiskInputs(p);
+  const { bpRaw, tempRaw, ageRaw, diagnosisRaw, medicationsRaw, visitDateRaw } =
+    extractRiskInputs(p);
+
+  const bp = evaluateBloodPressure(bpRaw, rules, opts);
+  const tempKey = findFieldKey(p, RISK_INPUT_ALIASES.temperature);
+  const temp = scoreTemperature(
+    tempRaw,
+    rules,
+    opts,
+    tempKey ? TEMPERATURE_KEY_UNITS[tempKey] ?? null : null
+  );
+  const age = scoreAge(ageRaw, rules, opts);
 
-  const bp = scoreBloodPressure(bpRaw);
-  const temp = scoreTemperature(tempRaw);
-  const age = scoreAge(ageRaw);
+  const diagnoses = parseDiagnoses(diagnosisRaw);
+  const medications = parseMedications(medicationsRaw);
+  const comorbidity = scoreComorbidity(diagnoses, medications, rules);
 
-  const total = bp.score + temp.score + age.score;
+  const total = bp.score + temp.score + age.score + comorbidity;
   const dataQualityIssue = !bp.valid || !temp.valid || !age.valid;
-  const highRisk = total >= 4;
+  const highRisk = total >= rules.highRiskThreshold;
 
   return {
     patientId,
@@ -275,6 +784,7 @@ export function computePatientRisk(p: unknown): ComputedPatientRisk | null {
       bp: bp.score,
       temp: temp.score,
       age: age.score,
+      comorbidity,
       total,
     },
     flags: {
@@ -285,28 +795,80 @@ export function computePatientRisk(p: unknown): ComputedPatientRisk | null {
       dataQualityIssue,
       highRisk,
     },
+    inputs: {
+      bloodPressure: bpRaw,
+      temperature: tempRaw,
+      age: ageRaw,
+      diagnosis: diagnosisRaw,
+      medications: medicationsRaw,
+      visitDate: visitDateRaw,
+    },
+    clinical: {
+      diagnoses,
+      medications,
+    },
+    normalized: {
+      bloodPressure: bp.reading ?? null,
+      temperature: temp.reading ?? null,
+    },
+    issues: {
+      bloodPressure: bp.issue ?? null,
+      temperature: temp.issue ?? null,
+      age: age.issue ?? null,
+    },
+    explanation: explainScore(p, rules, {
+      bp,
+      temp,
+      age,
+      comorbidity,
+      total,
+      highRisk,
+    }),
   };
 }
 
 /**
- * Like `computePatientRisk(...)`, but includes the raw input values used.
+ * Computes scores and flags for a single patient.
+ *
+ * Returns `null` if the record doesn't contain a valid patient id (see
+ * `readPatientId(...)`; `opts.patientIds` sets the format). The returned
+ * `patientId` is the normalized one.
+ *
+ * `scores.comorbidity` (diagnosis/medication points) is 0 unless
+ * `rules.comorbidity.enabled` is set, so by default `total` is BP + temp + age.
+ *
+ * Flags:
+ * - `highRisk`: `total >= rules.highRiskThreshold` (4 in the built-in sets)
+ * - `fever`: valid temperature and `temp >= rules.temperature.feverThreshold`
+ * - `dataQualityIssue`: any invalid input among BP/temp/age
+ *
+ * `opts.mode` selects lenient (default) or strict parsing.
+ */
+export function computePatientRisk(
+  p: unknown,
+  rules: RiskRuleSet = DEFAULT_RULE_SET,
+  opts: ScoringOptions = {}
+): ComputedPatientRisk | null {
+  const details = scorePatient(p, rules, opts);
+  if (!details) return null;
+
+  const { patientId, scores, flags } = details;
+  return { patientId, scores, flags };
+}
+
+/**
+ * Like `computePatientRisk(...)`, but includes the raw input values used,
+ * the validation issue (reason code + message) for each rejected input and an
+ * `explanation` trace of the rules that produced the score (rendered by
+ * `formatRiskExplanation(...)`).
  *
- * This powers the `/scored` endpoint and UI table for human verification.
+ * This powers the `/scored` endpoint, the data-quality report and the UI table
+ * for human verification.
  */
 export function computePatientRiskDetails(
-  p: unknown
+  p: unknown,
+  rules: RiskRuleSet = DEFAULT_RULE_SET,
+  opts: ScoringOptions = {}
 ): ComputedPatientRiskDetails | null {
-  const base = computePatientRisk(p);
-  if (!base) return null;
-
-  const { bpRaw, tempRaw, ageRaw } = extractRiskInputs(p);
-
-  return {
-    ...base,
-    inputs: {
-      bloodPressure: bpRaw,
-      temperature: tempRaw,
-      age: ageRaw,
-    },
-  };
+  return scorePatient(p, rules, opts);
 }
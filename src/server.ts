@@ -1,12 +1,149 @@
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { basename, join } from "node:path";
 import express from "express";
 import next from "next";
-import { ApiClient, getAllPatientsWithMeta } from "./api";
+import { ApiClient } from "./api";
+import type { DedupeOptions, PatientsFetchMeta } from "./api";
 import { buildAlertLists } from "./alerts";
-import { computePatientRisk, computePatientRiskDetails } from "./scoring";
-import type { AlertLists, ComputedPatientRiskDetails } from "./types";
+import { DatasetCache } from "./dataset-cache";
+import type { DatasetCacheInfo } from "./dataset-cache";
+import { diffRuns, loadRun } from "./diff";
+import { flagConflictedPatients, resolveDuplicatePolicy } from "./duplicates";
+import { ApiError, RateLimitedError, httpStatusForError } from "./errors";
+import { formatRiskExplanation, scoreWhatIf } from "./explain";
+import {
+  OUTPUT_CONTENT_TYPES,
+  OUTPUT_FORMATS,
+  alertListsToCsv,
+  alertListsToNdjson,
+  resolveOutputFormat,
+  scoredToCsv,
+  scoredToFhirBundle,
+  scoredToNdjson,
+} from "./formats";
+import type { OutputFormat } from "./formats";
+import { checkExpectations, formatViolations, loadExpectations } from "./gate";
+import {
+  DEFAULT_HISTORY_PATH,
+  appendHistory,
+  deriveAlerts,
+  historyPointsFor,
+  patientHistory,
+  readHistory,
+} from "./history";
+import type { DerivedAlerts } from "./history";
+import {
+  DEFAULT_LEDGER_PATH,
+  checkSubmission,
+  findPreviousEntry,
+  hashApiKey,
+  hashPayload,
+  readLedger,
+  submitAndRecord,
+} from "./ledger";
+import {
+  MetricsCollector,
+  combineListeners,
+  formatPrometheus,
+  jsonLinesLogger,
+} from "./observability";
+import type { MetricsSummary } from "./observability";
+import { normalizePatientId, resolvePatientIdRules } from "./patient-id";
+import { buildDataQualityReport, formatQualityMarkdown } from "./quality";
+import { loadRuleSet, ruleSetLabel } from "./rules";
+import {
+  DEFAULT_SCHEMA_BASELINE_PATH,
+  detectSchemaDrift,
+  readSchemaBaseline,
+} from "./schema-drift";
+import type { SchemaDriftReport } from "./schema-drift";
+import {
+  computePatientRisk,
+  computePatientRiskDetails,
+  resolveParseMode,
+} from "./scoring";
+import { patientsFromSnapshot, readSnapshot } from "./snapshot";
+import {
+  createPatientSource,
+  parseColumnMapping,
+  parseSourceSpec,
+} from "./sources";
+import type { CsvColumnMapping, PatientSourceSpec } from "./sources";
+import type {
+  AlertLists,
+  ComputedPatientRiskDetails,
+  RiskRuleSet,
+  ScoringOptions,
+} from "./types";
 
 const DEFAULT_BASE_URL = "https://assessment.ksensetech.com/api";
 
+/**
+ * Upstream metrics for every fetch this process has made (`GET /metrics`).
+ */
+const processMetrics = new MetricsCollector();
+
+/**
+ * Optional JSON-lines request log: `DEMOMED_LOG_JSON` (`1`/`stderr` for
+ * stderr, anything else is a file path).
+ */
+const requestLog = process.env.DEMOMED_LOG_JSON
+  ? jsonLinesLogger(
+      process.env.DEMOMED_LOG_JSON === "1"
+        ? "stderr"
+        : process.env.DEMOMED_LOG_JSON
+    )
+  : null;
+
+/**
+ * Where patients come from: `DEMOMED_SOURCE` (default the DemoMed API, or a
+ * CSV/JSON/NDJSON file) with `DEMOMED_CSV_COLUMNS` as the CSV column mapping.
+ * Parsed once in `main()` so a bad value stops the server at startup.
+ */
+let serverSource: PatientSourceSpec = { kind: "api" };
+let serverColumns: CsvColumnMapping = {};
+
+/**
+ * How records are reduced to one per patient: which duplicate to keep
+ * (`DEMOMED_DUPLICATE_POLICY`, default `first`) and the patient id rules
+ * (`DEMOMED_PATIENT_ID_PATTERN`, `DEMOMED_PATIENT_ID_CASE`); and whether
+ * conflicting duplicates make the patient a data-quality issue
+ * (`DEMOMED_FLAG_DUPLICATE_CONFLICTS=1`). Set in `main()`.
+ */
+let dedupeOptions: DedupeOptions = {};
+let flagConflicts = false;
+
+/**
+ * Fetched datasets shared by `/alerts`, `/scored`, `/quality`,
+ * `/schema-drift` and `/submit` (see `datasetCacheKey(...)`), fresh for
+ * `DEMOMED_CACHE_TTL_SECONDS`. Created in `main()`.
+ */
+let datasetCache: DatasetCache<FetchedDataset>;
+
+/**
+ * `runAt` of each run recorded in the patient history, keyed by dataset id,
+ * rule set and scoring options, so reloading `/scored` for the same fetch
+ * (or submitting it) records it once.
+ */
+const recordedRuns = new Map<string, string>();
+
+/**
+ * Reads `DEMOMED_CACHE_TTL_SECONDS` (default 300; `0` refetches on every
+ * request, still sharing concurrent fetches).
+ */
+function getCacheTtlMs(): number {
+  const raw = process.env.DEMOMED_CACHE_TTL_SECONDS;
+  if (raw === undefined || raw.trim() === "") return 300_000;
+  const seconds = Number(raw);
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    throw new Error(
+      `Invalid DEMOMED_CACHE_TTL_SECONDS "${raw}" (expected seconds >= 0)`
+    );
+  }
+  return seconds * 1000;
+}
+
 /**
  * Gets the DemoMed API key for this request.
  *
@@ -41,28 +178,370 @@ function getBaseUrl(req: express.Request): string {
 }
 
 /**
- * Computes the three assessment alert lists (high-risk, fever, data quality).
+ * Page size from `?limit=` (or `DEMOMED_LIMIT`, default 20), clamped to 1..20
+ * like `ApiPatientSource`. Unparseable values read as 20, so requests for the
+ * same data share one cache entry and dataset id.
+ */
+function getLimit(req: express.Request): number {
+  const limit = Number.parseInt(
+    String(req.query.limit ?? process.env.DEMOMED_LIMIT ?? "20"),
+    10
+  );
+  return Number.isNaN(limit) ? 20 : Math.min(Math.max(limit, 1), 20);
+}
+
+/**
+ * Gets the scoring rule set for this request.
  *
- * This is the shared core for:
- * - `GET /alerts`
- * - `POST /submit`
+ * Priority:
+ * 1) `rules` query parameter (built-in id only)
+ * 2) `x-rule-set` header (built-in id only)
+ * 3) `DEMOMED_RULES` env var (built-in id or JSON path)
+ * 4) default (`grader-tuned`)
+ *
+ * Request-supplied values are restricted to built-in ids so clients cannot
+ * make the server read arbitrary files.
+ */
+function getRuleSet(req: express.Request): RiskRuleSet {
+  const queryRules =
+    typeof req.query.rules === "string" ? req.query.rules.trim() : "";
+  const headerRules = (req.header("x-rule-set") || "").trim();
+  const requested = queryRules || headerRules;
+  if (requested) return loadRequestedRuleSet(requested);
+  return loadRuleSet(process.env.DEMOMED_RULES);
+}
+
+/**
+ * Loads a rule set named by a request, refusing file paths.
+ */
+function loadRequestedRuleSet(name: string): RiskRuleSet {
+  if (name.toLowerCase().endsWith(".json")) {
+    throw new Error("Rule set files can only be configured via DEMOMED_RULES.");
+  }
+  return loadRuleSet(name);
+}
+
+/**
+ * Gets the scoring options for this request.
+ *
+ * Parse mode priority:
+ * 1) `parseMode` query parameter
+ * 2) `x-parse-mode` header
+ * 3) `DEMOMED_PARSE_MODE` env var
+ * 4) default (`lenient`)
+ *
+ * The Celsius heuristic is on with `?celsiusHeuristic=1` or
+ * `DEMOMED_CELSIUS_HEURISTIC=1`.
+ */
+function getScoringOptions(req: express.Request): ScoringOptions {
+  const queryMode =
+    typeof req.query.parseMode === "string" ? req.query.parseMode.trim() : "";
+  const headerMode = (req.header("x-parse-mode") || "").trim();
+  return {
+    mode: resolveParseMode(
+      queryMode || headerMode || process.env.DEMOMED_PARSE_MODE
+    ),
+    celsiusHeuristic:
+      isTruthyParam(req.query.celsiusHeuristic) ||
+      isTruthyParam(process.env.DEMOMED_CELSIUS_HEURISTIC),
+    patientIds: dedupeOptions.patientIds,
+  };
+}
+
+/**
+ * Answers a failed upstream call with the status that fits the error (see
+ * `httpStatusForError`): 401, 429 (with `Retry-After` when known), 504, or 502.
+ *
+ * Typed `ApiClient` errors also report `code` (the error name), the upstream
+ * status and the attempt count.
+ */
+function sendError(
+  res: express.Response,
+  err: any,
+  fallback: string
+): express.Response {
+  if (err instanceof RateLimitedError && err.retryAfterSeconds !== null) {
+    res.setHeader("retry-after", String(err.retryAfterSeconds));
+  }
+  return res.status(httpStatusForError(err)).json({
+    error: err?.message || fallback,
+    ...(err instanceof ApiError
+      ? {
+          code: err.name,
+          upstreamStatus: err.status,
+          attempts: err.attempts,
+        }
+      : {}),
+  });
+}
+
+/**
+ * Picks the response format: `?format=` when given, otherwise the best match
+ * for the `Accept` header (`text/csv`, `application/x-ndjson` /
+ * `application/ndjson`, `application/fhir+json`, `application/json`; no
+ * header or `*\/*` means JSON).
+ *
+ * Returns `null` when nothing in `supported` is acceptable (answer 406);
+ * throws on an unknown `?format=` (answer 400).
+ */
+function getOutputFormat(
+  req: express.Request,
+  supported: readonly OutputFormat[]
+): OutputFormat | null {
+  if (typeof req.query.format === "string" && req.query.format.trim()) {
+    const format = resolveOutputFormat(req.query.format);
+    return supported.includes(format) ? format : null;
+  }
+  const types = supported.map((f) => OUTPUT_CONTENT_TYPES[f]);
+  if (supported.includes("ndjson")) types.push("application/ndjson");
+  const accepted = req.accepts(types);
+  if (!accepted) return null;
+  return accepted === "application/ndjson"
+    ? "ndjson"
+    : supported.find((f) => OUTPUT_CONTENT_TYPES[f] === accepted) ?? null;
+}
+
+/**
+ * Answers 406 with the formats an endpoint can produce.
+ */
+function sendNotAcceptable(
+  res: express.Response,
+  supported: readonly OutputFormat[]
+): express.Response {
+  return res.status(406).json({
+    error: `Not acceptable. Supported formats: ${supported.join(", ")}.`,
+    formats: supported,
+  });
+}
+
+/**
+ * Formats `/alerts` can produce (FHIR needs the scored details; use
+ * `/scored`).
+ */
+const ALERT_FORMATS: readonly OutputFormat[] = ["json", "csv", "ndjson"];
+
+/**
+ * Interprets a query parameter as a boolean (`1`, `true`, `yes`).
+ */
+function isTruthyParam(value: unknown): boolean {
+  if (typeof value !== "string") return false;
+  const v = value.toLowerCase();
+  return v === "1" || v === "true" || v === "yes";
+}
+
+/**
+ * Compares a dataset's raw pages with the schema baseline
+ * (`DEMOMED_SCHEMA_BASELINE`, default `schema-baseline.json`).
+ */
+function schemaDriftFor(dataset: Dataset): SchemaDriftReport {
+  return detectSchemaDrift(
+    dataset.pages,
+    readSchemaBaseline(
+      process.env.DEMOMED_SCHEMA_BASELINE || DEFAULT_SCHEMA_BASELINE_PATH
+    )
+  );
+}
+
+/**
+ * Patients to score plus the metadata describing where they came from.
+ */
+type Dataset = {
+  patients: Record<string, unknown>[];
+  meta: PatientsFetchMeta;
+  /** Raw page bodies in read order (for the data-quality report). */
+  pages: unknown[];
+  /** Upstream request metrics for this fetch (`null` for snapshots). */
+  stats: MetricsSummary | null;
+  snapshot: { file: string; createdAt: string } | null;
+  /** API base URL the patients came from (`null` for file sources). */
+  upstream: string | null;
+  /** Which cached fetch this is (`null` for snapshots). */
+  cache: DatasetCacheInfo | null;
+};
+
+/**
+ * A fetch as stored in `datasetCache`.
+ */
+type FetchedDataset = Omit<Dataset, "snapshot" | "cache">;
+
+/**
+ * Identifies a fetch by cache key and content: the same patients (and
+ * completeness) give the same id, so a refresh that returns unchanged data
+ * keeps the id clients already hold. The key keeps two API keys that see
+ * identical data from sharing (and overwriting) one entry.
+ */
+function datasetIdOf(dataset: FetchedDataset, key: string): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        key,
+        patients: dataset.patients,
+        complete: dataset.meta.complete,
+      })
+    )
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Cache key for a fetch: source, base URL, API key hash and page size.
+ */
+function datasetCacheKey(
+  apiKey: string,
+  baseUrl: string,
+  limit: number
+): string {
+  const source =
+    serverSource.kind === "api"
+      ? "api"
+      : `${serverSource.kind}:${serverSource.path}`;
+  return [source, baseUrl, hashApiKey(apiKey), limit].join("|");
+}
+
+/**
+ * Echoes the dataset id (`x-dataset-id`), when it was fetched
+ * (`x-dataset-fetched-at`) and whether the cache served it
+ * (`x-cache: hit|miss`).
+ *
+ * Not an `ETag`: the same dataset scored with different rules gives a
+ * different body, so conditional GETs on the id would return stale lists.
+ */
+function setDatasetHeaders(res: express.Response, dataset: Dataset): void {
+  if (!dataset.cache) return;
+  res.setHeader("x-dataset-id", dataset.cache.datasetId);
+  res.setHeader("x-dataset-fetched-at", dataset.cache.fetchedAt);
+  res.setHeader("x-cache", dataset.cache.hit ? "hit" : "miss");
+}
+
+/**
+ * Resolves a file name to a path inside the snapshot directory.
+ *
+ * The directory is `DEMOMED_SNAPSHOT_DIR` (default `snapshots`). Only plain
+ * file names are accepted so requests cannot read files outside it. A missing
+ * `.json` extension is added.
+ *
+ * @param param query parameter name (used in the error message)
+ * @param name requested file name
+ */
+function resolveSnapshotFile(param: string, name: string): string {
+  if (name !== basename(name) || name.startsWith(".")) {
+    throw new Error(
+      `${param} must be a file name inside the snapshot directory`
+    );
+  }
+  const dir = process.env.DEMOMED_SNAPSHOT_DIR || "snapshots";
+  return join(dir, name.endsWith(".json") ? name : `${name}.json`);
+}
+
+/**
+ * Resolves `?snapshot=<name>` to a file inside the snapshot directory.
+ *
+ * Returns `null` when no snapshot was requested.
+ */
+function getSnapshotPath(req: express.Request): string | null {
+  const name =
+    typeof req.query.snapshot === "string" ? req.query.snapshot.trim() : "";
+  if (!name) return null;
+  return resolveSnapshotFile("snapshot", name);
+}
+
+/**
+ * Loads the patients to score: from a snapshot file when one is given,
+ * otherwise from `datasetCache`, fetching from the configured source
+ * (`DEMOMED_SOURCE`; by default every page of the DemoMed API) when there is
+ * no fresh entry.
  *
  * @param apiKey DemoMed API key
  * @param baseUrl DemoMed API base URL
  * @param limit page size (capped to 1..20)
- * @param opts.requireComplete when true, throws if fetch cannot be confirmed complete
+ * @param snapshotPath snapshot file to read instead of fetching
+ * @param opts.refresh fetch again even if the cache has a fresh entry
  */
-async function computeAlerts(
+async function loadDataset(
   apiKey: string,
   baseUrl: string,
-  limit = 20,
-  opts: { requireComplete?: boolean } = {}
-): Promise<AlertLists> {
-  const client = new ApiClient({ baseUrl, apiKey });
-  const { patients, meta } = await getAllPatientsWithMeta(
-    client,
-    Math.min(Math.max(limit, 1), 20)
+  limit: number,
+  snapshotPath: string | null,
+  opts: { refresh?: boolean } = {}
+): Promise<Dataset> {
+  if (snapshotPath) {
+    const snapshot = readSnapshot(snapshotPath);
+    return {
+      ...patientsFromSnapshot(snapshot, dedupeOptions),
+      pages: snapshot.pages.map((p) => p.body),
+      stats: null,
+      snapshot: { file: basename(snapshotPath), createdAt: snapshot.createdAt },
+      upstream: snapshot.baseUrl,
+      cache: null,
+    };
+  }
+
+  const { entry, hit } = await datasetCache.get(
+    datasetCacheKey(apiKey, baseUrl, limit),
+    () => fetchDataset(apiKey, baseUrl, limit),
+    opts
   );
+  return {
+    ...entry.value,
+    snapshot: null,
+    cache: DatasetCache.info(entry, hit),
+  };
+}
+
+/**
+ * Fetches from the configured source, bypassing the cache.
+ */
+async function fetchDataset(
+  apiKey: string,
+  baseUrl: string,
+  limit: number
+): Promise<FetchedDataset> {
+  const metrics = new MetricsCollector();
+  const client = new ApiClient({
+    baseUrl,
+    apiKey,
+    onEvent: combineListeners(
+      metrics.listener,
+      processMetrics.listener,
+      requestLog
+    ),
+  });
+  const source = createPatientSource(serverSource, {
+    client,
+    baseUrl,
+    limit,
+    columns: serverColumns,
+    dedupe: dedupeOptions,
+  });
+  const { patients, meta, pages } = await source.load();
+  return {
+    patients,
+    meta,
+    pages,
+    stats: source.kind === "api" ? metrics.summary() : null,
+    upstream: source.kind === "api" ? baseUrl : null,
+  };
+}
+
+/**
+ * Computes the three assessment alert lists (high-risk, fever, data quality).
+ *
+ * This is the shared core for:
+ * - `GET /alerts`
+ * - `POST /submit`
+ *
+ * @param dataset patients + fetch metadata
+ * @param rules scoring rule set
+ * @param scoring scoring options (parse mode)
+ * @param opts.requireComplete when true, throws if fetch cannot be confirmed complete
+ */
+function computeAlerts(
+  dataset: Dataset,
+  rules: RiskRuleSet,
+  scoring: ScoringOptions,
+  opts: { requireComplete?: boolean } = {}
+): AlertLists {
+  const { patients, meta } = dataset;
 
   if (
     opts.requireComplete &&
@@ -80,11 +559,15 @@ async function computeAlerts(
 
   const computed = [];
   for (const p of patients) {
-    const c = computePatientRisk(p);
+    const c = computePatientRisk(p, rules, scoring);
     if (c) computed.push(c);
   }
 
-  return buildAlertLists(computed);
+  return buildAlertLists(
+    flagConflicts
+      ? flagConflictedPatients(computed, meta.duplicates?.conflicts)
+      : computed
+  );
 }
 
 /**
@@ -93,25 +576,60 @@ async function computeAlerts(
  * This powers the verification UI (`GET /scored`) so you can inspect exactly
  * why each patient was classified the way they were.
  */
-async function computeScoredPatients(
-  apiKey: string,
-  baseUrl: string,
-  limit = 20
-): Promise<ComputedPatientRiskDetails[]> {
-  const client = new ApiClient({ baseUrl, apiKey });
-  const { patients } = await getAllPatientsWithMeta(
-    client,
-    Math.min(Math.max(limit, 1), 20)
-  );
-
+function computeScoredPatients(
+  dataset: Dataset,
+  rules: RiskRuleSet,
+  scoring: ScoringOptions
+): ComputedPatientRiskDetails[] {
   const computed: ComputedPatientRiskDetails[] = [];
-  for (const p of patients) {
-    const c = computePatientRiskDetails(p);
+  for (const p of dataset.patients) {
+    const c = computePatientRiskDetails(p, rules, scoring);
     if (c) computed.push(c);
   }
 
   computed.sort((a, b) => a.patientId.localeCompare(b.patientId));
-  return computed;
+  return flagConflicts
+    ? flagConflictedPatients(computed, dataset.meta.duplicates?.conflicts)
+    : computed;
+}
+
+/**
+ * Records a scored fetch in the patient history (once per dataset, rule set
+ * and scoring options) and derives alerts against the run recorded before it
+ * with the same rule set and base URL.
+ *
+ * Like the CLI, only live API fetches are recorded: snapshots and file
+ * sources are scored without touching the history.
+ */
+function recordServerRun(
+  dataset: Dataset,
+  scored: ComputedPatientRiskDetails[],
+  rules: RiskRuleSet,
+  scoring: ScoringOptions
+): DerivedAlerts | null {
+  const historyPath = process.env.DEMOMED_HISTORY || DEFAULT_HISTORY_PATH;
+  const live = serverSource.kind === "api" && dataset.cache !== null;
+  const runKey = [
+    dataset.cache?.datasetId,
+    ruleSetLabel(rules),
+    scoring.mode ?? "lenient",
+    scoring.celsiusHeuristic ? "C" : "F",
+  ].join("|");
+  const recordedAt = live ? recordedRuns.get(runKey) : undefined;
+  const runAt = recordedAt ?? new Date().toISOString();
+
+  const points = historyPointsFor(scored, {
+    runAt,
+    source: "server",
+    ruleSet: ruleSetLabel(rules),
+    baseUrl: dataset.upstream,
+  });
+  const earlier = readHistory(historyPath).filter((p) => p.runAt < runAt);
+  if (live && !recordedAt) {
+    appendHistory(points, historyPath);
+    recordedRuns.set(runKey, runAt);
+  }
+  return deriveAlerts(earlier, points);
 }
 
 /**
@@ -120,11 +638,87 @@ async function computeScoredPatients(
  * Endpoints:
  * - `GET /alerts`: returns the three computed alert lists
  * - `GET /scored`: returns a per-patient breakdown for verification
+ * - `GET /scored/:id/explain`: one patient's explanation trace (alias keys,
+ *   BP stage and the reading that drove it, temperature/age bands, total vs
+ *   threshold) as JSON plus the rendered `text`
+ * - `POST /score`: what-if scoring of ad-hoc records (one object or an array
+ *   in the body) with no upstream fetch; each result adds the rendered `text`
+ *   and the inputs sitting on a band edge (`boundaries`)
+ * - `GET /quality`: data-quality report (invalid counts per field and reason,
+ *   value patterns, alias/response-shape usage, rejected inputs);
+ *   `?format=markdown` returns Markdown instead of JSON
  * - `POST /submit`: computes alerts (requires complete fetch) and submits to grader
+ * - `POST /refresh`: refetches the patients, replacing the cached dataset
+ * - `GET /diff?a=<file>&b=<file>`: compares two alert-list files or snapshots
+ *   from the snapshot directory (`?rulesB=` re-scores side B with other rules;
+ *   `404` only when a file is missing)
+ * - `GET /submissions`: lists attempts recorded in the submission ledger
+ * - `GET /metrics`: upstream request metrics for this process (Prometheus text)
+ * - `GET /patients/:id/history`: one patient's recorded runs, first high-risk
+ *   point and BP stage trend (the id is normalized like fetched ids)
+ *
+ * `POST /submit` first answers `409` on schema drift when
+ * `DEMOMED_REFUSE_ON_DRIFT=1`, unless called with `?allowDrift=1`. It then
+ * checks the payload against the declared expectations
+ * (`DEMOMED_EXPECTATIONS`, see `src/gate.ts`) and answers `422` with the
+ * violations if any fail, unless called with `?ignoreExpectations=1`. It then
+ * records every attempt in the ledger (`DEMOMED_LEDGER`, default
+ * `submissions.jsonl`) and answers `409` when the payload repeats an earlier
+ * attempt or no attempts remain, unless called with `?force=1` (which skips
+ * only this check).
+ *
+ * Live fetches scored by `/scored` (JSON) or submitted by `/submit` are
+ * recorded in the patient history (`DEMOMED_HISTORY`, default
+ * `history.jsonl`), once per fetch and rule set; `/scored` includes alerts
+ * derived from the run recorded before it as `derived`.
+ *
+ * All of these accept `?rules=<id>` to pick a scoring rule set; the rule set
+ * used is echoed in the `x-rule-set` header (`/alerts`, `/submit`) or body
+ * (`/scored`, `/quality`, `/score`). `/alerts`, `/scored`, `/quality`,
+ * `/score`, `/diff` and `/submit` also accept `?parseMode=strict|lenient` (or `x-parse-mode`, `DEMOMED_PARSE_MODE`),
+ * echoed in the `x-parse-mode` header or `parseMode` field, and
+ * `?celsiusHeuristic=1` to read bare 30–45 temperatures as °C.
+ *
+ * `/scored` and `/quality` include the fetch's request metrics as `stats`
+ * (requests, retries by reason, p50/p95 latency, time slept). `/scored` also
+ * reports records sharing a patient id as `duplicates` (the
+ * `DEMOMED_DUPLICATE_POLICY` that picked one, and copies that disagree on
+ * BP/temp/age); with `DEMOMED_FLAG_DUPLICATE_CONFLICTS=1` those patients are
+ * data-quality issues.
+ *
+ * Fetches are cached per base URL, API key and page size for
+ * `DEMOMED_CACHE_TTL_SECONDS` (default 300), and concurrent requests share one
+ * fetch. Responses name the dataset they scored in `x-dataset-id` (and `cache`
+ * in JSON bodies); `POST /submit?datasetId=<id>` (or `x-dataset-id`) submits
+ * exactly that dataset, answering `409` once it was refreshed away or evicted.
+ *
+ * Upstream failures map to `401` (bad API key), `429` (still rate limited,
+ * with `Retry-After`), `504` (timeouts) or `502` (anything else).
+ *
+ * `/alerts`, `/scored` and `/quality` also accept `?snapshot=<file>` to score a saved
+ * snapshot (see `npm run cli -- --snapshot`) instead of fetching. No API key is
+ * needed in that case.
  *
  * Everything else is handled by Next.js.
  */
 async function main(): Promise<void> {
+  serverSource = parseSourceSpec(process.env.DEMOMED_SOURCE);
+  serverColumns = parseColumnMapping(process.env.DEMOMED_CSV_COLUMNS);
+  dedupeOptions = {
+    duplicatePolicy: resolveDuplicatePolicy(
+      process.env.DEMOMED_DUPLICATE_POLICY
+    ),
+    patientIds: resolvePatientIdRules(
+      process.env.DEMOMED_PATIENT_ID_PATTERN,
+      process.env.DEMOMED_PATIENT_ID_CASE
+    ),
+  };
+  flagConflicts = isTruthyParam(process.env.DEMOMED_FLAG_DUPLICATE_CONFLICTS);
+  datasetCache = new DatasetCache<FetchedDataset>({
+    ttlMs: getCacheTtlMs(),
+    idOf: datasetIdOf,
+  });
+
   const dev = process.env.NODE_ENV !== "production";
   const app = next({ dev });
   const handle = app.getRequestHandler();
@@ -136,54 +730,422 @@ async function main(): Promise<void> {
 
   // GET /alerts -> compute lists
   server.get("/alerts", async (req, res) => {
+    let snapshotPath: string | null;
+    try {
+      snapshotPath = getSnapshotPath(req);
+    } catch (err: any) {
+      return res
+        .status(400)
+        .json({ error: err?.message || "Invalid snapshot" });
+    }
+
     const apiKey = getApiKey(req);
-    if (!apiKey)
+    if (!apiKey && !snapshotPath && serverSource.kind === "api")
       return res.status(400).json({
         error: "Missing x-api-key header (or DEMOMED_API_KEY env var).",
       });
 
     const baseUrl = getBaseUrl(req);
-    const limit = Number.parseInt(
-      String(req.query.limit ?? process.env.DEMOMED_LIMIT ?? "20"),
-      10
-    );
+    const limit = getLimit(req);
 
+    let rules: RiskRuleSet;
+    let scoring: ScoringOptions;
+    let format: OutputFormat | null;
     try {
-      const alerts = await computeAlerts(apiKey, baseUrl, limit);
-      return res.json(alerts);
+      rules = getRuleSet(req);
+      scoring = getScoringOptions(req);
+      format = getOutputFormat(req, ALERT_FORMATS);
     } catch (err: any) {
       return res
-        .status(502)
-        .json({ error: err?.message || "Failed to compute alerts" });
+        .status(400)
+        .json({ error: err?.message || "Invalid scoring options" });
+    }
+    if (!format) return sendNotAcceptable(res, ALERT_FORMATS);
+
+    try {
+      const dataset = await loadDataset(
+        apiKey ?? "",
+        baseUrl,
+        limit,
+        snapshotPath
+      );
+      const alerts = computeAlerts(dataset, rules, scoring);
+      setDatasetHeaders(res, dataset);
+      res.setHeader("x-rule-set", ruleSetLabel(rules));
+      res.setHeader("x-parse-mode", scoring.mode ?? "lenient");
+      if (dataset.snapshot) {
+        res.setHeader("x-snapshot-created-at", dataset.snapshot.createdAt);
+      }
+      res.vary("Accept");
+      if (format === "csv") {
+        res.type(OUTPUT_CONTENT_TYPES.csv);
+        return res.send(alertListsToCsv(alerts));
+      }
+      if (format === "ndjson") {
+        res.type(OUTPUT_CONTENT_TYPES.ndjson);
+        return res.send(alertListsToNdjson(alerts));
+      }
+      return res.json(alerts);
+    } catch (err: any) {
+      return sendError(res, err, "Failed to compute alerts");
     }
   });
 
   // GET /scored -> per-patient scores/flags (debug/verification UI)
   server.get("/scored", async (req, res) => {
+    let snapshotPath: string | null;
+    try {
+      snapshotPath = getSnapshotPath(req);
+    } catch (err: any) {
+      return res
+        .status(400)
+        .json({ error: err?.message || "Invalid snapshot" });
+    }
+
     const apiKey = getApiKey(req);
-    if (!apiKey)
+    if (!apiKey && !snapshotPath && serverSource.kind === "api")
       return res.status(400).json({
         error: "Missing x-api-key header (or DEMOMED_API_KEY env var).",
       });
 
     const baseUrl = getBaseUrl(req);
-    const limit = Number.parseInt(
-      String(req.query.limit ?? process.env.DEMOMED_LIMIT ?? "20"),
-      10
-    );
+    const limit = getLimit(req);
+
+    let rules: RiskRuleSet;
+    let scoring: ScoringOptions;
+    let format: OutputFormat | null;
+    try {
+      rules = getRuleSet(req);
+      scoring = getScoringOptions(req);
+      format = getOutputFormat(req, OUTPUT_FORMATS);
+    } catch (err: any) {
+      return res
+        .status(400)
+        .json({ error: err?.message || "Invalid scoring options" });
+    }
+    if (!format) return sendNotAcceptable(res, OUTPUT_FORMATS);
+
+    try {
+      const dataset = await loadDataset(
+        apiKey ?? "",
+        baseUrl,
+        limit,
+        snapshotPath
+      );
+      const scored = computeScoredPatients(dataset, rules, scoring);
+      setDatasetHeaders(res, dataset);
+      res.vary("Accept");
+      if (format === "csv") {
+        res.type(OUTPUT_CONTENT_TYPES.csv);
+        return res.send(scoredToCsv(scored));
+      }
+      if (format === "ndjson") {
+        res.type(OUTPUT_CONTENT_TYPES.ndjson);
+        return res.send(scoredToNdjson(scored));
+      }
+      if (format === "fhir") {
+        res.type(OUTPUT_CONTENT_TYPES.fhir);
+        return res.send(
+          JSON.stringify(
+            scoredToFhirBundle(scored, {
+              ruleSet: rules,
+              generatedAt: new Date().toISOString(),
+            })
+          )
+        );
+      }
+      return res.json({
+        data: scored,
+        derived: recordServerRun(dataset, scored, rules, scoring),
+        ruleSet: { id: rules.id, version: rules.version },
+        parseMode: scoring.mode ?? "lenient",
+        celsiusHeuristic: !!scoring.celsiusHeuristic,
+        snapshot: dataset.snapshot,
+        meta: dataset.meta,
+        duplicates: dataset.meta.duplicates ?? null,
+        rejectedIds: dataset.meta.rejectedIds ?? [],
+        flagConflicts,
+        stats: dataset.stats,
+        cache: dataset.cache,
+      });
+    } catch (err: any) {
+      return sendError(res, err, "Failed to compute scored patients");
+    }
+  });
+
+  // GET /scored/:id/explain -> why one patient scored what they did
+  server.get("/scored/:id/explain", async (req, res) => {
+    let snapshotPath: string | null;
+    try {
+      snapshotPath = getSnapshotPath(req);
+    } catch (err: any) {
+      return res
+        .status(400)
+        .json({ error: err?.message || "Invalid snapshot" });
+    }
+
+    const apiKey = getApiKey(req);
+    if (!apiKey && !snapshotPath && serverSource.kind === "api")
+      return res.status(400).json({
+        error: "Missing x-api-key header (or DEMOMED_API_KEY env var).",
+      });
 
+    const baseUrl = getBaseUrl(req);
+    const limit = getLimit(req);
+
+    let rules: RiskRuleSet;
+    let scoring: ScoringOptions;
     try {
-      const scored = await computeScoredPatients(apiKey, baseUrl, limit);
-      return res.json({ data: scored });
+      rules = getRuleSet(req);
+      scoring = getScoringOptions(req);
     } catch (err: any) {
       return res
-        .status(502)
-        .json({ error: err?.message || "Failed to compute scored patients" });
+        .status(400)
+        .json({ error: err?.message || "Invalid scoring options" });
+    }
+
+    const read = normalizePatientId(req.params.id, scoring.patientIds);
+    if (read.id === null)
+      return res.status(400).json({ error: read.rejection.message });
+    const patientId = read.id;
+
+    try {
+      const dataset = await loadDataset(
+        apiKey ?? "",
+        baseUrl,
+        limit,
+        snapshotPath
+      );
+      setDatasetHeaders(res, dataset);
+      const patient = computeScoredPatients(dataset, rules, scoring).find(
+        (p) => p.patientId === patientId
+      );
+      if (!patient)
+        return res
+          .status(404)
+          .json({ error: `Patient ${patientId} not found in the dataset.` });
+
+      return res.json({
+        patientId,
+        explanation: patient.explanation,
+        text: formatRiskExplanation(patient),
+        ruleSet: { id: rules.id, version: rules.version },
+        parseMode: scoring.mode ?? "lenient",
+        celsiusHeuristic: !!scoring.celsiusHeuristic,
+        snapshot: dataset.snapshot,
+        cache: dataset.cache,
+      });
+    } catch (err: any) {
+      return sendError(res, err, "Failed to explain patient score");
+    }
+  });
+
+  // POST /score -> score ad-hoc vitals (what-if), no upstream fetch
+  server.post("/score", (req, res) => {
+    let rules: RiskRuleSet;
+    let scoring: ScoringOptions;
+    try {
+      rules = getRuleSet(req);
+      scoring = getScoringOptions(req);
+    } catch (err: any) {
+      return res
+        .status(400)
+        .json({ error: err?.message || "Invalid scoring options" });
+    }
+
+    try {
+      return res.json({
+        data: scoreWhatIf(req.body, rules, scoring),
+        ruleSet: { id: rules.id, version: rules.version },
+        parseMode: scoring.mode ?? "lenient",
+        celsiusHeuristic: !!scoring.celsiusHeuristic,
+      });
+    } catch (err: any) {
+      return res
+        .status(400)
+        .json({ error: err?.message || "Invalid patient records" });
+    }
+  });
+
+  // GET /quality -> validation issues by field/reason code
+  server.get("/quality", async (req, res) => {
+    let snapshotPath: string | null;
+    try {
+      snapshotPath = getSnapshotPath(req);
+    } catch (err: any) {
+      return res
+        .status(400)
+        .json({ error: err?.message || "Invalid snapshot" });
+    }
+
+    const apiKey = getApiKey(req);
+    if (!apiKey && !snapshotPath && serverSource.kind === "api")
+      return res.status(400).json({
+        error: "Missing x-api-key header (or DEMOMED_API_KEY env var).",
+      });
+
+    const baseUrl = getBaseUrl(req);
+    const limit = getLimit(req);
+
+    let rules: RiskRuleSet;
+    let scoring: ScoringOptions;
+    try {
+      rules = getRuleSet(req);
+      scoring = getScoringOptions(req);
+    } catch (err: any) {
+      return res
+        .status(400)
+        .json({ error: err?.message || "Invalid scoring options" });
+    }
+
+    try {
+      const dataset = await loadDataset(
+        apiKey ?? "",
+        baseUrl,
+        limit,
+        snapshotPath
+      );
+      const report = buildDataQualityReport(dataset.patients, rules, {
+        pages: dataset.pages,
+        scoring,
+      });
+      setDatasetHeaders(res, dataset);
+      if (req.query.format === "markdown") {
+        res.type("text/markdown");
+        return res.send(formatQualityMarkdown(report));
+      }
+      return res.json({
+        ...report,
+        ruleSet: { id: rules.id, version: rules.version },
+        parseMode: scoring.mode ?? "lenient",
+        celsiusHeuristic: !!scoring.celsiusHeuristic,
+        snapshot: dataset.snapshot,
+        stats: dataset.stats,
+        cache: dataset.cache,
+      });
+    } catch (err: any) {
+      return sendError(res, err, "Failed to build quality report");
+    }
+  });
+
+  // GET /schema-drift -> page envelopes/record keys vs the recorded baseline
+  server.get("/schema-drift", async (req, res) => {
+    let snapshotPath: string | null;
+    try {
+      snapshotPath = getSnapshotPath(req);
+    } catch (err: any) {
+      return res
+        .status(400)
+        .json({ error: err?.message || "Invalid snapshot" });
+    }
+
+    const apiKey = getApiKey(req);
+    if (!apiKey && !snapshotPath && serverSource.kind === "api")
+      return res.status(400).json({
+        error: "Missing x-api-key header (or DEMOMED_API_KEY env var).",
+      });
+
+    const baseUrl = getBaseUrl(req);
+    const limit = getLimit(req);
+
+    try {
+      const dataset = await loadDataset(
+        apiKey ?? "",
+        baseUrl,
+        limit,
+        snapshotPath
+      );
+      setDatasetHeaders(res, dataset);
+      return res.json({
+        ...schemaDriftFor(dataset),
+        snapshot: dataset.snapshot,
+        cache: dataset.cache,
+      });
+    } catch (err: any) {
+      return sendError(res, err, "Failed to check schema drift");
+    }
+  });
+
+  // POST /refresh -> refetch and replace the cached dataset
+  server.post("/refresh", async (req, res) => {
+    const apiKey = getApiKey(req);
+    if (!apiKey && serverSource.kind === "api")
+      return res.status(400).json({
+        error: "Missing x-api-key header (or DEMOMED_API_KEY env var).",
+      });
+
+    const baseUrl = getBaseUrl(req);
+    const limit = getLimit(req);
+
+    try {
+      const dataset = await loadDataset(apiKey ?? "", baseUrl, limit, null, {
+        refresh: true,
+      });
+      setDatasetHeaders(res, dataset);
+      return res.json({
+        ...dataset.cache,
+        meta: dataset.meta,
+        stats: dataset.stats,
+      });
+    } catch (err: any) {
+      return sendError(res, err, "Failed to refresh patients");
+    }
+  });
+
+  // GET /diff?a=&b= -> compare two alert-list files / snapshots
+  server.get("/diff", (req, res) => {
+    const a = typeof req.query.a === "string" ? req.query.a.trim() : "";
+    const b = typeof req.query.b === "string" ? req.query.b.trim() : "";
+    if (!a || !b)
+      return res
+        .status(400)
+        .json({ error: "Both ?a= and ?b= file names are required." });
+
+    let pathA: string;
+    let pathB: string;
+    let rulesA: RiskRuleSet;
+    let rulesB: RiskRuleSet;
+    let scoring: ScoringOptions;
+    try {
+      pathA = resolveSnapshotFile("a", a);
+      pathB = resolveSnapshotFile("b", b);
+      rulesA = getRuleSet(req);
+      scoring = getScoringOptions(req);
+      rulesB =
+        typeof req.query.rulesB === "string" && req.query.rulesB.trim()
+          ? loadRequestedRuleSet(req.query.rulesB.trim())
+          : rulesA;
+    } catch (err: any) {
+      return res.status(400).json({ error: err?.message || "Invalid request" });
+    }
+
+    for (const [param, path] of [
+      ["a", pathA],
+      ["b", pathB],
+    ]) {
+      if (!existsSync(path))
+        return res
+          .status(404)
+          .json({ error: `${param}: ${basename(path)} not found.` });
+    }
+
+    try {
+      const opts = { scoring, dedupe: dedupeOptions };
+      return res.json(
+        diffRuns(loadRun(pathA, rulesA, opts), loadRun(pathB, rulesB, opts))
+      );
+    } catch (err: any) {
+      return sendError(res, err, "Failed to diff");
     }
   });
 
   // POST /submit -> compute lists then submit
   server.post("/submit", async (req, res) => {
+    if (serverSource.kind !== "api")
+      return res.status(409).json({
+        error: `Submission needs the DemoMed API source (DEMOMED_SOURCE is a ${serverSource.kind} file).`,
+      });
+
     const apiKey = getApiKey(req);
     if (!apiKey)
       return res.status(400).json({
@@ -191,23 +1153,157 @@ async function main(): Promise<void> {
       });
 
     const baseUrl = getBaseUrl(req);
-    const limit = Number.parseInt(
-      String(req.query.limit ?? process.env.DEMOMED_LIMIT ?? "20"),
-      10
-    );
+    const limit = getLimit(req);
+
+    let rules: RiskRuleSet;
+    let scoring: ScoringOptions;
+    try {
+      rules = getRuleSet(req);
+      scoring = getScoringOptions(req);
+    } catch (err: any) {
+      return res
+        .status(400)
+        .json({ error: err?.message || "Invalid scoring options" });
+    }
+
+    // Pin the submission to the dataset the user reviewed, when named.
+    const datasetId =
+      typeof req.query.datasetId === "string" && req.query.datasetId.trim()
+        ? req.query.datasetId.trim()
+        : req.header("x-dataset-id")?.trim() || null;
+    let pinned: Dataset | null = null;
+    if (datasetId) {
+      const entry = datasetCache.byId(datasetId);
+      if (!entry || entry.key !== datasetCacheKey(apiKey, baseUrl, limit))
+        return res.status(409).json({
+          error: `Dataset ${datasetId} is no longer cached for these credentials. Reload, review and submit again.`,
+        });
+      pinned = {
+        ...entry.value,
+        snapshot: null,
+        cache: DatasetCache.info(entry, true),
+      };
+    }
 
     try {
-      const alerts = await computeAlerts(apiKey, baseUrl, limit, {
+      const dataset =
+        pinned ?? (await loadDataset(apiKey, baseUrl, limit, null));
+      setDatasetHeaders(res, dataset);
+      const alerts = computeAlerts(dataset, rules, scoring, {
         requireComplete: true,
       });
-      const client = new ApiClient({ baseUrl, apiKey });
-      const result = await client.submitAssessment(alerts);
-      return res.json(result);
+      const ledgerPath = process.env.DEMOMED_LEDGER || DEFAULT_LEDGER_PATH;
+      const ledger = readLedger(ledgerPath);
+      const ledgerKey = { apiKeyHash: hashApiKey(apiKey), baseUrl };
+
+      // Opt-in: DEMOMED_REFUSE_ON_DRIFT=1 blocks submission on schema drift.
+      if (
+        isTruthyParam(process.env.DEMOMED_REFUSE_ON_DRIFT) &&
+        !isTruthyParam(req.query.allowDrift)
+      ) {
+        const drift = schemaDriftFor(dataset);
+        if (drift.drifted) {
+          return res.status(409).json({
+            error:
+              "Submission blocked: the upstream schema drifted from the baseline. Retry with ?allowDrift=1 to override.",
+            drift: drift.changes,
+            payload: alerts,
+          });
+        }
+      }
+
+      const scored = computeScoredPatients(dataset, rules, scoring);
+      const violations = checkExpectations(
+        alerts,
+        {
+          fetchedIds: scored.map((s) => s.patientId),
+          previous: findPreviousEntry(ledger, ledgerKey)?.payload ?? null,
+        },
+        loadExpectations(process.env.DEMOMED_EXPECTATIONS)
+      );
+      if (
+        violations.length > 0 &&
+        !isTruthyParam(req.query.ignoreExpectations)
+      ) {
+        return res.status(422).json({
+          error: `${formatViolations(
+            violations
+          )}\nRetry with ?ignoreExpectations=1 to override.`,
+          violations,
+          payload: alerts,
+        });
+      }
+
+      const blockers = checkSubmission(ledger, {
+        ...ledgerKey,
+        payloadHash: hashPayload(alerts),
+      });
+      if (blockers.length > 0 && !isTruthyParam(req.query.force)) {
+        return res.status(409).json({
+          error:
+            "Submission blocked by ledger. Retry with ?force=1 to override.",
+          reasons: blockers,
+          payload: alerts,
+        });
+      }
+
+      const client = new ApiClient({
+        baseUrl,
+        apiKey,
+        onEvent: combineListeners(processMetrics.listener, requestLog),
+      });
+      const { body } = await submitAndRecord(client, alerts, {
+        source: "server",
+        baseUrl,
+        apiKey,
+        ruleSet: ruleSetLabel(rules),
+        meta: dataset.meta,
+        ledgerPath,
+      });
+      recordServerRun(dataset, scored, rules, scoring);
+      res.setHeader("x-rule-set", ruleSetLabel(rules));
+      res.setHeader("x-parse-mode", scoring.mode ?? "lenient");
+      return res.json(body);
+    } catch (err: any) {
+      return sendError(res, err, "Failed to submit assessment");
+    }
+  });
+
+  // GET /submissions -> recorded submission attempts
+  server.get("/submissions", (_req, res) => {
+    const ledgerPath = process.env.DEMOMED_LEDGER || DEFAULT_LEDGER_PATH;
+    return res.json({ data: readLedger(ledgerPath) });
+  });
+
+  // GET /metrics -> Prometheus text
+  server.get("/metrics", (_req, res) => {
+    res.type("text/plain; version=0.0.4");
+    return res.send(
+      formatPrometheus(processMetrics.summary(), processMetrics.latencyTotalMs)
+    );
+  });
+
+  // GET /patients/:id/history -> recorded runs for one patient
+  server.get("/patients/:id/history", (req, res) => {
+    let scoring: ScoringOptions;
+    try {
+      scoring = getScoringOptions(req);
     } catch (err: any) {
       return res
-        .status(502)
-        .json({ error: err?.message || "Failed to submit assessment" });
+        .status(400)
+        .json({ error: err?.message || "Invalid scoring options" });
     }
+    const read = normalizePatientId(req.params.id, scoring.patientIds);
+    if (read.id === null)
+      return res.status(400).json({ error: read.rejection.message });
+
+    const historyPath = process.env.DEMOMED_HISTORY || DEFAULT_HISTORY_PATH;
+    const h = patientHistory(readHistory(historyPath), read.id);
+    if (h.points.length === 0)
+      return res
+        .status(404)
+        .json({ error: `No history recorded for ${h.patientId}.` });
+    return res.json(h);
   });
 
   // Let Next handle everything else
@@ -0,0 +1,81 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, test } from "vitest";
+import { ApiClient } from "./api";
+import {
+  fetchWithSnapshot,
+  patientsFromSnapshot,
+  readSnapshot,
+  writeSnapshot,
+} from "./snapshot";
+
+let dir: string | null = null;
+
+afterEach(() => {
+  if (dir) rmSync(dir, { recursive: true, force: true });
+  dir = null;
+});
+
+/**
+ * Serves two pages; page 2 comes back empty once before succeeding.
+ */
+function pagedFetch(): () => Promise<Response> {
+  let page2Calls = 0;
+  return async (input?: unknown) => {
+    const url = new URL(String(input));
+    const page = url.searchParams.get("page");
+    const pagination = { total: 3, totalPages: 2 };
+    if (page === "1") {
+      return Response.json({
+        data: [{ patient_id: "DEMO001" }, { patient_id: "DEMO002" }],
+        pagination,
+      });
+    }
+    page2Calls += 1;
+    if (page === "2" && page2Calls > 1) {
+      return Response.json({
+        patients: [{ patient_id: "DEMO003", age: 70 }],
+        pagination,
+      });
+    }
+    return Response.json({ data: [], pagination });
+  };
+}
+
+describe("snapshots", () => {
+  test("round-trips pages and rebuilds the same patients", async () => {
+    dir = mkdtempSync(join(tmpdir(), "snapshot-test-"));
+    const client = new ApiClient({
+      baseUrl: "https://example.test/api",
+      apiKey: "ak_test",
+      fetchImpl: pagedFetch() as any,
+      sleepImpl: async () => {},
+    });
+
+    const live = await fetchWithSnapshot(
+      client,
+      "https://example.test/api",
+      2,
+      {
+        sleepBetweenPagesMs: 0,
+        sleepBetweenAttemptsMs: 0,
+      }
+    );
+    expect(live.meta.complete).toBe(true);
+
+    const path = join(dir, "nested", "snap.json");
+    writeSnapshot(path, live.snapshot);
+    const replayed = patientsFromSnapshot(readSnapshot(path));
+
+    expect(replayed.patients).toEqual(live.patients);
+    expect(replayed.meta).toEqual(live.meta);
+  });
+
+  test("rejects unsupported formats", () => {
+    dir = mkdtempSync(join(tmpdir(), "snapshot-test-"));
+    const path = join(dir, "old.json");
+    writeFileSync(path, JSON.stringify({ formatVersion: 99, pages: [] }));
+    expect(() => readSnapshot(path)).toThrow(/Unsupported snapshot format/);
+  });
+});
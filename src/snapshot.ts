@@ -0,0 +1,132 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import {
+  ApiClient,
+  dedupeByPatientId,
+  getAllPatientsWithMeta,
+  normalizePatientsData,
+} from "./api";
+import type { DedupeOptions, PatientsFetchMeta } from "./api";
+
+type FetchOptions = NonNullable<Parameters<typeof getAllPatientsWithMeta>[2]>;
+
+/**
+ * Bumped whenever the on-disk snapshot shape changes incompatibly.
+ */
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+/**
+ * A saved fetch: every raw page body plus the fetch metadata.
+ *
+ * Pages are stored exactly as the API returned them (before normalization), in
+ * the order they were read. A page can appear more than once when recovery
+ * passes re-read it.
+ */
+export type PatientsSnapshot = {
+  formatVersion: number;
+  createdAt: string;
+  baseUrl: string;
+  limit: number;
+  meta: PatientsFetchMeta;
+  pages: { page: number; body: unknown }[];
+};
+
+/**
+ * Fetches all patients like `getAllPatientsWithMeta(...)` and also captures
+ * a snapshot of the raw pages.
+ *
+ * @param opts Passed through to `getAllPatientsWithMeta(...)`.
+ */
+export async function fetchWithSnapshot(
+  client: ApiClient,
+  baseUrl: string,
+  limit = 20,
+  opts: Omit<FetchOptions, "onPage"> = {}
+): Promise<{
+  patients: Record<string, unknown>[];
+  meta: PatientsFetchMeta;
+  snapshot: PatientsSnapshot;
+}> {
+  const pages: PatientsSnapshot["pages"] = [];
+  const { patients, meta } = await getAllPatientsWithMeta(client, limit, {
+    ...opts,
+    onPage: (page, body) => pages.push({ page, body }),
+  });
+
+  return {
+    patients,
+    meta,
+    snapshot: {
+      formatVersion: SNAPSHOT_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      baseUrl,
+      limit,
+      meta,
+      pages,
+    },
+  };
+}
+
+/**
+ * Writes a snapshot as pretty-printed JSON, creating parent directories.
+ */
+export function writeSnapshot(path: string, snapshot: PatientsSnapshot): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(snapshot, null, 2), "utf8");
+}
+
+/**
+ * Reads and validates a snapshot file.
+ *
+ * Throws when the file is missing, isn't JSON, or has an unsupported
+ * `formatVersion`.
+ */
+export function readSnapshot(path: string): PatientsSnapshot {
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err: any) {
+    throw new Error(`Failed to read snapshot ${path}: ${err?.message || err}`);
+  }
+
+  if (!raw || typeof raw !== "object" || !Array.isArray(raw.pages)) {
+    throw new Error(`Invalid snapshot ${path}: missing pages`);
+  }
+  if (raw.formatVersion !== SNAPSHOT_FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported snapshot format ${raw.formatVersion} in ${path} (expected ${SNAPSHOT_FORMAT_VERSION})`
+    );
+  }
+  return raw as PatientsSnapshot;
+}
+
+/**
+ * Rebuilds the patient list from a snapshot without touching the network.
+ *
+ * Pages are normalized and deduplicated exactly as the live fetch does, so
+ * scoring a snapshot gives the same result as scoring the original fetch
+ * (with the same duplicate policy and id rules). `meta.duplicates` and
+ * `meta.rejectedIds` are recomputed for `opts`; the rest of the meta is the
+ * fetch's.
+ */
+export function patientsFromSnapshot(
+  snapshot: PatientsSnapshot,
+  opts: DedupeOptions = {}
+): {
+  patients: Record<string, unknown>[];
+  meta: PatientsFetchMeta;
+} {
+  const all: Record<string, unknown>[] = [];
+  for (const { body } of snapshot.pages) {
+    all.push(...normalizePatientsData(body));
+  }
+  const { patients, duplicates, rejectedIds } = dedupeByPatientId(all, opts);
+  return { patients, meta: { ...snapshot.meta, duplicates, rejectedIds } };
+}
+
+/**
+ * Default snapshot path: `snapshots/snapshot-<timestamp>.json`.
+ */
+export function defaultSnapshotPath(createdAt: string): string {
+  return `snapshots/snapshot-${createdAt.replace(/[:.]/g, "-")}.json`;
+}
@@ -0,0 +1,178 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, test } from "vitest";
+import { buildAlertLists } from "./alerts";
+import { ApiClient } from "./api";
+import { computePatientRisk } from "./scoring";
+import {
+  ApiPatientSource,
+  CsvPatientSource,
+  JsonFilePatientSource,
+  createPatientSource,
+  csvRecords,
+  parseColumnMapping,
+  parseCsv,
+  parseSourceSpec,
+} from "./sources";
+import type { ComputedPatientRisk } from "./types";
+
+let dir: string | null = null;
+
+afterEach(() => {
+  if (dir) rmSync(dir, { recursive: true, force: true });
+  dir = null;
+});
+
+/**
+ * Writes `text` to a file in this test's temp directory.
+ */
+function tempFile(name: string, text: string): string {
+  if (!dir) dir = mkdtempSync(join(tmpdir(), "source-"));
+  const path = join(dir, name);
+  writeFileSync(path, text, "utf8");
+  return path;
+}
+
+/**
+ * The alert lists a source's patients produce.
+ */
+function alertsFor(patients: Record<string, unknown>[]) {
+  return buildAlertLists(
+    patients
+      .map((p) => computePatientRisk(p))
+      .filter((c): c is ComputedPatientRisk => c !== null)
+  );
+}
+
+const records = [
+  { patient_id: "B", blood_pressure: "150/95", temperature: 101.2, age: 70 },
+  { patient_id: "A", blood_pressure: "N/A", temperature: 98.6, age: 40 },
+  { patient_id: "A", blood_pressure: "120/80", temperature: 98.6, age: 40 },
+];
+
+describe("parseSourceSpec", () => {
+  test("reads api, prefixes and extensions", () => {
+    expect(parseSourceSpec(undefined)).toEqual({ kind: "api" });
+    expect(parseSourceSpec("API")).toEqual({ kind: "api" });
+    expect(parseSourceSpec("clinic.csv")).toEqual({
+      kind: "csv",
+      path: "clinic.csv",
+    });
+    expect(parseSourceSpec("export.jsonl")).toEqual({
+      kind: "ndjson",
+      path: "export.jsonl",
+    });
+    expect(parseSourceSpec("csv:export.txt")).toEqual({
+      kind: "csv",
+      path: "export.txt",
+    });
+    expect(() => parseSourceSpec("export.xlsx")).toThrow(/Unknown source/);
+  });
+});
+
+describe("parseColumnMapping", () => {
+  test("reads inline pairs and JSON files", () => {
+    expect(parseColumnMapping("patient_id=MRN, age = Age (y)")).toEqual({
+      patient_id: "MRN",
+      age: "Age (y)",
+    });
+    const path = tempFile("map.json", JSON.stringify({ patient_id: "MRN" }));
+    expect(parseColumnMapping(path)).toEqual({ patient_id: "MRN" });
+    expect(() => parseColumnMapping("patient_id")).toThrow(/field=Header/);
+  });
+});
+
+describe("parseCsv", () => {
+  test("handles quotes, embedded separators, CRLF and a BOM", () => {
+    expect(parseCsv('\uFEFFid,note\r\n1,"a, ""b""\nc"\r\n\r\n2,\n')).toEqual([
+      ["id", "note"],
+      ["1", 'a, "b"\nc'],
+      ["2", ""],
+    ]);
+    expect(() => parseCsv('id\n"open')).toThrow(/Unterminated/);
+  });
+});
+
+describe("csvRecords", () => {
+  test("maps columns, keeps the rest and joins split BP", () => {
+    const rows = parseCsv("MRN,SBP,DBP,temperature,Age\nX1,150,95,99.1,70\n");
+    expect(
+      csvRecords(rows, {
+        patient_id: "MRN",
+        blood_pressure: "SBP/DBP",
+        age: "Age",
+      })
+    ).toEqual([
+      {
+        patient_id: "X1",
+        blood_pressure: "150/95",
+        temperature: "99.1",
+        age: "70",
+      },
+    ]);
+  });
+
+  test("rejects a mapping to a missing column", () => {
+    expect(() => csvRecords([["id"], ["1"]], { patient_id: "MRN" })).toThrow(
+      /no column "MRN"/
+    );
+  });
+});
+
+describe("file sources", () => {
+  test("JSON, NDJSON and CSV feed the same pipeline", async () => {
+    const json = await new JsonFilePatientSource(
+      tempFile("p.json", JSON.stringify({ data: records }))
+    ).load();
+    const ndjson = await new JsonFilePatientSource(
+      tempFile("p.ndjson", records.map((r) => JSON.stringify(r)).join("\n")),
+      "ndjson"
+    ).load();
+    const csv = await new CsvPatientSource(
+      tempFile(
+        "p.csv",
+        "ID,BP,temperature,age\nB,150/95,101.2,70\nA,N/A,98.6,40\nA,120/80,98.6,40\n"
+      ),
+      { patient_id: "ID", blood_pressure: "BP" }
+    ).load();
+
+    for (const loaded of [json, ndjson, csv]) {
+      expect(loaded.patients.map((p) => p.patient_id)).toEqual(["A", "B"]);
+      expect(loaded.meta).toMatchObject({
+        expectedTotal: 3,
+        uniquePatientIds: 2,
+        totalPages: 1,
+        missingPages: [],
+        complete: true,
+      });
+      expect(loaded.pages).toHaveLength(1);
+    }
+    expect(csv.meta.source?.kind).toBe("csv");
+    expect(alertsFor(csv.patients)).toEqual(alertsFor(json.patients));
+    expect(alertsFor(ndjson.patients)).toEqual(alertsFor(json.patients));
+  });
+
+  test("reports the line of invalid NDJSON", async () => {
+    const path = tempFile("bad.ndjson", '{"patient_id":"A"}\n{oops\n');
+    await expect(
+      new JsonFilePatientSource(path, "ndjson").load()
+    ).rejects.toThrow(/line 2/);
+  });
+});
+
+describe("createPatientSource", () => {
+  test("builds the source a spec names", () => {
+    const client = new ApiClient({ baseUrl: "http://x", apiKey: "k" });
+    const opts = { client, baseUrl: "http://x" };
+    expect(createPatientSource({ kind: "api" }, opts)).toBeInstanceOf(
+      ApiPatientSource
+    );
+    expect(
+      createPatientSource({ kind: "ndjson", path: "p.ndjson" }, opts).kind
+    ).toBe("ndjson");
+    expect(
+      createPatientSource({ kind: "csv", path: "p.csv" }, opts)
+    ).toBeInstanceOf(CsvPatientSource);
+  });
+});
@@ -0,0 +1,441 @@
+import { existsSync, readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { ApiClient, dedupeByPatientId, normalizePatientsData } from "./api";
+import type {
+  DedupeOptions,
+  FetchResumeOptions,
+  PatientsFetchMeta,
+} from "./api";
+import { fetchWithSnapshot } from "./snapshot";
+import type { PatientsSnapshot } from "./snapshot";
+
+/**
+ * Where patients come from.
+ *
+ * Every source returns the same thing: deduplicated patient records (the
+ * input to `computePatientRisk(...)` / `buildAlertLists(...)`), completeness
+ * metadata shaped like an API fetch's, and raw page bodies (for the
+ * data-quality report and schema drift).
+ *
+ * - `api`: the DemoMed API (`getAllPatientsWithMeta(...)`)
+ * - `json`: a file holding a patient array or any page envelope the API uses
+ * - `ndjson`: one patient object per line
+ * - `csv`: a header row plus one patient per row, with optional column mapping
+ */
+export type PatientSourceKind = "api" | "json" | "ndjson" | "csv";
+
+/**
+ * A parsed `--source` / `DEMOMED_SOURCE` value.
+ */
+export type PatientSourceSpec =
+  | { kind: "api" }
+  | { kind: Exclude<PatientSourceKind, "api">; path: string };
+
+export type PatientSourceResult = {
+  patients: Record<string, unknown>[];
+  meta: PatientsFetchMeta;
+  /** Raw page bodies (file sources report one `{ data: [...] }` page). */
+  pages: unknown[];
+  /** The raw fetch, for `--snapshot` (API source only). */
+  snapshot?: PatientsSnapshot;
+};
+
+export type PatientSource = {
+  readonly kind: PatientSourceKind;
+  /** Base URL or file path, for messages and `meta.source`. */
+  readonly location: string;
+  load(): Promise<PatientSourceResult>;
+};
+
+/**
+ * Maps canonical field names (`patient_id`, `blood_pressure`, ...) to CSV
+ * header names. A value of `"<systolic>/<diastolic>"` naming two headers
+ * joins them into one `"120/80"` reading.
+ */
+export type CsvColumnMapping = Record<string, string>;
+
+const FILE_KINDS: Record<string, Exclude<PatientSourceKind, "api">> = {
+  ".json": "json",
+  ".ndjson": "ndjson",
+  ".jsonl": "ndjson",
+  ".csv": "csv",
+};
+
+/**
+ * Parses a source selector.
+ *
+ * - empty or `api`: the DemoMed API
+ * - `csv:<path>`, `json:<path>`, `ndjson:<path>`: a file of that kind
+ * - `<path>`: a file, kind taken from the extension (`.csv`, `.json`,
+ *   `.ndjson` / `.jsonl`)
+ */
+export function parseSourceSpec(value?: string | null): PatientSourceSpec {
+  const v = (value ?? "").trim();
+  if (!v || v.toLowerCase() === "api") return { kind: "api" };
+
+  const prefixed = /^(csv|json|ndjson):(.+)$/i.exec(v);
+  if (prefixed) {
+    return {
+      kind: prefixed[1].toLowerCase() as Exclude<PatientSourceKind, "api">,
+      path: prefixed[2],
+    };
+  }
+
+  const kind = FILE_KINDS[extname(v).toLowerCase()];
+  if (!kind) {
+    throw new Error(
+      `Unknown source "${value}" (expected "api", a .csv/.json/.ndjson file, or csv:|json:|ndjson:<path>)`
+    );
+  }
+  return { kind, path: v };
+}
+
+/**
+ * Parses a CSV column mapping: a JSON file path, or inline
+ * `field=Header,field=Header` pairs. Empty means no mapping.
+ */
+export function parseColumnMapping(value?: string | null): CsvColumnMapping {
+  const v = (value ?? "").trim();
+  if (!v) return {};
+
+  if (v.toLowerCase().endsWith(".json")) {
+    if (!existsSync(v)) throw new Error(`Column mapping file not found: ${v}`);
+    const raw = JSON.parse(readFileSync(v, "utf8"));
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      throw new Error(`Column mapping ${v} must be a JSON object`);
+    }
+    return Object.fromEntries(
+      Object.entries(raw).map(([field, header]) => [field, String(header)])
+    );
+  }
+
+  const mapping: CsvColumnMapping = {};
+  for (const pair of v.split(",")) {
+    const eq = pair.indexOf("=");
+    if (eq <= 0 || eq === pair.length - 1) {
+      throw new Error(
+        `Invalid column mapping "${pair}" (expected field=Header)`
+      );
+    }
+    mapping[pair.slice(0, eq).trim()] = pair.slice(eq + 1).trim();
+  }
+  return mapping;
+}
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180: quoted cells may contain
+ * commas, doubled quotes and line breaks; CRLF or LF line endings; a leading
+ * BOM is dropped). Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < src.length; i += 1) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i += 1;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  if (quoted) throw new Error("Unterminated quoted CSV cell");
+  if (cell !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Turns CSV rows into patient records.
+ *
+ * Mapped fields take their value from the mapped header; every other column
+ * keeps its header as the key, so files already using the API's names (or any
+ * alias the scorer accepts) need no mapping. Empty cells stay `""`, which the
+ * scorer reports as a data-quality issue like a blank API value.
+ */
+export function csvRecords(
+  rows: string[][],
+  mapping: CsvColumnMapping = {}
+): Record<string, unknown>[] {
+  const [header, ...body] = rows;
+  if (!header) return [];
+  const index = new Map(header.map((h, i) => [h.trim(), i]));
+
+  const sources: [string, number[]][] = [];
+  const mappedColumns = new Set<number>();
+  for (const [field, column] of Object.entries(mapping)) {
+    const direct = index.get(column);
+    const split = column.split("/").map((c) => index.get(c.trim()));
+    const cols =
+      direct !== undefined
+        ? [direct]
+        : split.length === 2 && split.every((c) => c !== undefined)
+        ? (split as number[])
+        : null;
+    if (!cols) {
+      throw new Error(
+        `CSV has no column "${column}" (mapped to ${field}); columns: ${header.join(
+          ", "
+        )}`
+      );
+    }
+    sources.push([field, cols]);
+    cols.forEach((c) => mappedColumns.add(c));
+  }
+
+  return body.map((cells) => {
+    const record: Record<string, unknown> = {};
+    header.forEach((h, i) => {
+      if (!mappedColumns.has(i)) record[h.trim()] = cells[i] ?? "";
+    });
+    for (const [field, cols] of sources) {
+      const values = cols.map((c) => (cells[c] ?? "").trim());
+      record[field] =
+        values.length === 2
+          ? values.every((x) => x === "")
+            ? ""
+            : values.join("/")
+          : cells[cols[0]] ?? "";
+    }
+    return record;
+  });
+}
+
+/**
+ * Shared result for file sources: deduplicated like a fetch, one page.
+ *
+ * The whole file was read, so the meta is `complete`, with `expectedTotal`
+ * the number of records in it (`uniquePatientIds` is lower when records
+ * repeat an id or lack one).
+ */
+function fileResult(
+  records: Record<string, unknown>[],
+  kind: PatientSourceKind,
+  location: string,
+  dedupe: DedupeOptions
+): PatientSourceResult {
+  const { patients, uniquePatientIds, duplicates, rejectedIds } =
+    dedupeByPatientId(records, dedupe);
+  return {
+    patients,
+    meta: {
+      expectedTotal: records.length,
+      totalPages: 1,
+      missingPages: [],
+      uniquePatientIds,
+      complete: true,
+      source: { kind, location },
+      duplicates,
+      rejectedIds,
+    },
+    pages: [{ data: records }],
+  };
+}
+
+/**
+ * Reads a source file, with the path in the error message.
+ */
+function readSourceFile(path: string): string {
+  try {
+    return readFileSync(path, "utf8");
+  } catch (err: any) {
+    throw new Error(`Failed to read source ${path}: ${err?.message || err}`);
+  }
+}
+
+/**
+ * The DemoMed API, fetched with `fetchWithSnapshot(...)`.
+ */
+export class ApiPatientSource implements PatientSource {
+  readonly kind = "api";
+  readonly location: string;
+  private readonly client: ApiClient;
+  private readonly limit: number;
+  private readonly dedupe: DedupeOptions;
+  private readonly checkpoint: FetchResumeOptions;
+
+  /**
+   * @param limit page size (capped to 1..20)
+   * @param dedupe duplicate policy and patient id rules
+   * @param checkpoint progress to resume and/or save (see
+   *   `checkpointFetchOptions(...)`)
+   */
+  constructor(
+    client: ApiClient,
+    baseUrl: string,
+    limit = 20,
+    dedupe: DedupeOptions = {},
+    checkpoint: FetchResumeOptions = {}
+  ) {
+    this.client = client;
+    this.location = baseUrl;
+    this.limit = Math.min(Math.max(limit, 1), 20);
+    this.dedupe = dedupe;
+    this.checkpoint = checkpoint;
+  }
+
+  async load(): Promise<PatientSourceResult> {
+    const fetched = await fetchWithSnapshot(
+      this.client,
+      this.location,
+      this.limit,
+      { ...this.dedupe, ...this.checkpoint }
+    );
+    return {
+      patients: fetched.patients,
+      meta: {
+        ...fetched.meta,
+        source: { kind: "api", location: this.location },
+      },
+      pages: fetched.snapshot.pages.map((p) => p.body),
+      snapshot: fetched.snapshot,
+    };
+  }
+}
+
+/**
+ * A JSON file (a patient array, or a `{ data }` / `{ data: { patients } }` /
+ * `{ patients }` envelope) or an NDJSON file (one patient per line).
+ */
+export class JsonFilePatientSource implements PatientSource {
+  readonly kind: "json" | "ndjson";
+  readonly location: string;
+  private readonly dedupe: DedupeOptions;
+
+  constructor(
+    path: string,
+    kind: "json" | "ndjson" = "json",
+    dedupe: DedupeOptions = {}
+  ) {
+    this.location = path;
+    this.kind = kind;
+    this.dedupe = dedupe;
+  }
+
+  async load(): Promise<PatientSourceResult> {
+    const text = readSourceFile(this.location);
+    const records: Record<string, unknown>[] = [];
+
+    if (this.kind === "ndjson") {
+      text.split(/\r?\n/).forEach((line, i) => {
+        if (!line.trim()) return;
+        let value: unknown;
+        try {
+          value = JSON.parse(line);
+        } catch (err: any) {
+          throw new Error(
+            `Invalid JSON on line ${i + 1} of ${this.location}: ${
+              err?.message || err
+            }`
+          );
+        }
+        if (value && typeof value === "object" && !Array.isArray(value))
+          records.push(value as Record<string, unknown>);
+      });
+    } else {
+      let body: unknown;
+      try {
+        body = JSON.parse(text);
+      } catch (err: any) {
+        throw new Error(
+          `Invalid JSON in ${this.location}: ${err?.message || err}`
+        );
+      }
+      records.push(
+        ...normalizePatientsData(Array.isArray(body) ? { data: body } : body)
+      );
+    }
+
+    return fileResult(records, this.kind, this.location, this.dedupe);
+  }
+}
+
+/**
+ * A CSV file with a header row (see `csvRecords(...)` for the mapping).
+ */
+export class CsvPatientSource implements PatientSource {
+  readonly kind = "csv";
+  readonly location: string;
+  private readonly mapping: CsvColumnMapping;
+  private readonly dedupe: DedupeOptions;
+
+  constructor(
+    path: string,
+    mapping: CsvColumnMapping = {},
+    dedupe: DedupeOptions = {}
+  ) {
+    this.location = path;
+    this.mapping = mapping;
+    this.dedupe = dedupe;
+  }
+
+  async load(): Promise<PatientSourceResult> {
+    const rows = parseCsv(readSourceFile(this.location));
+    return fileResult(
+      csvRecords(rows, this.mapping),
+      this.kind,
+      this.location,
+      this.dedupe
+    );
+  }
+}
+
+/**
+ * Builds the source a spec names.
+ *
+ * @param opts.client / opts.baseUrl / opts.limit used by the `api` source
+ * @param opts.columns CSV column mapping (ignored by other sources)
+ * @param opts.dedupe duplicate policy and patient id rules
+ * @param opts.checkpoint progress to resume and/or save (`api` only)
+ */
+export function createPatientSource(
+  spec: PatientSourceSpec,
+  opts: {
+    client: ApiClient;
+    baseUrl: string;
+    limit?: number;
+    columns?: CsvColumnMapping;
+    dedupe?: DedupeOptions;
+    checkpoint?: FetchResumeOptions;
+  }
+): PatientSource {
+  switch (spec.kind) {
+    case "api":
+      return new ApiPatientSource(
+        opts.client,
+        opts.baseUrl,
+        opts.limit,
+        opts.dedupe,
+        opts.checkpoint
+      );
+    case "json":
+    case "ndjson":
+      return new JsonFilePatientSource(spec.path, spec.kind, opts.dedupe);
+    case "csv":
+      return new CsvPatientSource(spec.path, opts.columns, opts.dedupe);
+  }
+}
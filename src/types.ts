@@ -5,6 +5,24 @@
  */
 export type PatientId = string;
 
+/**
+ * Case applied to patient ids before they are checked and used.
+ */
+export type PatientIdCase = "upper" | "lower" | "preserve";
+
+/**
+ * What counts as a valid patient id (see `src/patient-id.ts`).
+ *
+ * Every id is trimmed and has inner whitespace removed, integer numbers are
+ * read as strings (`7` -> `"7"`), then `case` is applied. With a `pattern`,
+ * the result must match it (e.g. `^DEMO\d{3}$`).
+ */
+export type PatientIdRules = {
+  /** Regular expression source the normalized id must match (`null`: any). */
+  pattern: string | null;
+  case: PatientIdCase;
+};
+
 /**
  * Generic patient record shape.
  *
@@ -31,6 +49,8 @@ export type ComputedPatientRisk = {
     bp: number;
     temp: number;
     age: number;
+    /** Diagnosis/medication points; always 0 unless the rule set enables it. */
+    comorbidity: number;
     total: number;
   };
   flags: {
@@ -53,5 +73,265 @@ export type ComputedPatientRiskDetails = ComputedPatientRisk & {
     bloodPressure: unknown;
     temperature: unknown;
     age: unknown;
+    diagnosis: unknown;
+    medications: unknown;
+    visitDate: unknown;
+  };
+  /** Parsed diagnosis codes and medications (see `src/clinical.ts`). */
+  clinical: {
+    diagnoses: string[];
+    medications: Medication[];
+  };
+  /** Unit-normalized inputs (`null` when the input was invalid). */
+  normalized: {
+    bloodPressure: BloodPressureReading | null;
+    temperature: TemperatureReading | null;
+  };
+  /** Why each input was rejected (`null` when it was valid). */
+  issues: {
+    bloodPressure: ValidationIssue | null;
+    temperature: ValidationIssue | null;
+    age: ValidationIssue | null;
+  };
+  /** How each component score was reached (see `src/explain.ts`). */
+  explanation: RiskExplanation;
+};
+
+/**
+ * One range of a BP stage checked against a reading.
+ */
+export type StageCheck = {
+  reading: "systolic" | "diastolic";
+  value: number;
+  range: RangeRule;
+  matched: boolean;
+};
+
+/**
+ * The rules that produced a patient's score, step by step.
+ *
+ * `key` is the alias each input was read from (`null` when the record has
+ * none of them). Rejected inputs have no stage/band and score 0; the reason
+ * is in `ComputedPatientRiskDetails.issues`.
+ */
+export type RiskExplanation = {
+  /** `id@version` of the rule set. */
+  ruleSet: string;
+  bloodPressure: {
+    key: string | null;
+    systolic: number | null;
+    diastolic: number | null;
+    stage: string | null;
+    /** `all`: every range had to match; `any`: one was enough. */
+    match: "all" | "any" | null;
+    /** The matched stage's ranges and whether each reading fell inside. */
+    checks: StageCheck[];
+    /**
+     * Which reading put the patient in `stage`: the one whose range matched,
+     * or `both` (an `all` stage, or an `any` stage both readings reached).
+     */
+    drivenBy: "systolic" | "diastolic" | "both" | null;
+    points: number;
+  };
+  temperature: {
+    key: string | null;
+    /** Unit detection and °F conversion (`null` when invalid). */
+    reading: TemperatureReading | null;
+    band: BandRule | null;
+    fever: boolean;
+    feverThreshold: number;
+    points: number;
+  };
+  age: {
+    key: string | null;
+    /** Whole years used for the band (`null` when invalid). */
+    value: number | null;
+    band: BandRule | null;
+    points: number;
+  };
+  comorbidity: { enabled: boolean; points: number };
+  total: number;
+  threshold: number;
+  highRisk: boolean;
+};
+
+/**
+ * One entry of a medication list ("TestDrug_B 500mg").
+ *
+ * `dose`/`unit` are `null` when the entry has no parseable dose.
+ */
+export type Medication = {
+  raw: string;
+  name: string;
+  dose: number | null;
+  unit: string | null;
+};
+
+/**
+ * A parsed blood pressure and the rule-set stage it matched.
+ *
+ * `stageIndex` is the stage's position in `rules.bloodPressure.stages`
+ * (lowest risk first), so it can be compared across rule sets.
+ */
+export type BloodPressureReading = {
+  systolic: number;
+  diastolic: number;
+  stage: string;
+  stageIndex: number;
+};
+
+/**
+ * Temperature unit.
+ */
+export type TemperatureUnit = "F" | "C";
+
+/**
+ * A parsed temperature and how it was converted to °F for scoring.
+ *
+ * `detectedBy` says how the unit was decided, most specific first:
+ * - `suffix`: the value carried a unit ("38.5C", "101 °F")
+ * - `field`: it was read from a unit-specific key (`temp_c`, `temp_f`, …)
+ * - `heuristic`: a bare value in the Celsius-plausible range, with the
+ *   Celsius heuristic enabled
+ * - `default`: none of the above; assumed °F
+ */
+export type TemperatureReading = {
+  unit: TemperatureUnit;
+  detectedBy: "suffix" | "field" | "heuristic" | "default";
+  /** Value as parsed, in `unit`. */
+  value: number;
+  /** Value used for scoring. */
+  fahrenheit: number;
+};
+
+/**
+ * Machine-readable reason an input was rejected.
+ *
+ * - `MISSING` / `NULL` / `EMPTY`: the field is absent, `null`, or blank
+ * - `BP_*`: blood pressure could not be parsed or matched no stage
+ * - `TEMP_NON_NUMERIC`: temperature has no number in it
+ * - `AGE_WORD_NUMBER`: age is spelled out ("fifty-three")
+ * - `AGE_NON_NUMERIC`: any other unparseable age
+ * - `*_MALFORMED` / `*_OUT_OF_RANGE`: rejected by strict parsing only
+ */
+export type ValidationCode =
+  | "MISSING"
+  | "NULL"
+  | "EMPTY"
+  | "BP_MISSING_SYSTOLIC"
+  | "BP_MISSING_DIASTOLIC"
+  | "BP_NON_NUMERIC"
+  | "BP_MALFORMED"
+  | "BP_OUT_OF_STAGES"
+  | "BP_OUT_OF_RANGE"
+  | "TEMP_NON_NUMERIC"
+  | "TEMP_MALFORMED"
+  | "TEMP_OUT_OF_RANGE"
+  | "AGE_WORD_NUMBER"
+  | "AGE_NON_NUMERIC"
+  | "AGE_MALFORMED"
+  | "AGE_OUT_OF_RANGE";
+
+/**
+ * A rejected input: reason code plus a human-readable message.
+ */
+export type ValidationIssue = {
+  code: ValidationCode;
+  message: string;
+};
+
+/**
+ * How raw inputs are parsed.
+ *
+ * - `lenient` (default): take the first number found ("98.6F", "abc 37 xyz")
+ * - `strict`: anchored formats with explicit unit suffixes, and values outside
+ *   plausible ranges are data-quality issues instead of being scored
+ */
+export type ParseMode = "lenient" | "strict";
+
+/**
+ * Options for the scoring functions that aren't part of a rule set.
+ */
+export type ScoringOptions = {
+  mode?: ParseMode;
+  /**
+   * Treat bare temperatures in the Celsius-plausible range (30–45) as °C.
+   * Off by default; explicit suffixes and `temp_c`-style keys always apply.
+   */
+  celsiusHeuristic?: boolean;
+  /** Patient id rules (default `DEFAULT_PATIENT_ID_RULES`). */
+  patientIds?: PatientIdRules;
+};
+
+/**
+ * Inclusive numeric range used by rule-set bands. Omitted bounds are open.
+ */
+export type RangeRule = {
+  min?: number;
+  max?: number;
+};
+
+/**
+ * A blood pressure stage.
+ *
+ * `match: "all"` requires every declared range to match (e.g. Normal needs
+ * systolic AND diastolic in range); `match: "any"` requires at least one
+ * (e.g. Stage 2 is systolic OR diastolic).
+ */
+export type BloodPressureStageRule = {
+  name: string;
+  points: number;
+  match: "all" | "any";
+  systolic?: RangeRule;
+  diastolic?: RangeRule;
+};
+
+/**
+ * A named scoring band for a single numeric input (temperature, age).
+ */
+export type BandRule = RangeRule & {
+  name: string;
+  points: number;
+};
+
+/**
+ * Declarative, versioned scoring rules.
+ *
+ * Built-in rule sets live in `src/rulesets/*.json`; callers can also load a
+ * rule set from any JSON file with the same shape.
+ */
+export type RiskRuleSet = {
+  id: string;
+  version: string;
+  description?: string;
+  bloodPressure: {
+    /**
+     * Stages ordered from lowest to highest risk. When `higherStageWins` is
+     * true, stages are checked from the end so a reading that straddles two
+     * stages (e.g. 150/85) gets the higher one.
+     */
+    stages: BloodPressureStageRule[];
+    higherStageWins: boolean;
+  };
+  temperature: {
+    feverThreshold: number;
+    bands: BandRule[];
+  };
+  age: {
+    bands: BandRule[];
+  };
+  /**
+   * Optional diagnosis/medication component. Scores 0 unless `enabled`, so
+   * the assessment totals are unchanged by default.
+   */
+  comorbidity?: {
+    enabled: boolean;
+    /** Points per normalized diagnosis code (e.g. `hypertension`). */
+    diagnoses: { code: string; points: number }[];
+    /** Points by number of listed medications. */
+    medicationCount: BandRule[];
+    /** Cap on the component; omitted means uncapped. */
+    maxPoints?: number;
   };
+  highRiskThreshold: number;
 };
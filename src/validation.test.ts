@@ -0,0 +1,56 @@
+import { describe, expect, test } from "vitest";
+import { computePatientRiskDetails, scoreAge } from "./scoring";
+import {
+  absentValueIssue,
+  ageIssue,
+  bloodPressureIssue,
+  temperatureIssue,
+} from "./validation";
+
+describe("validation reason codes", () => {
+  test("absent values", () => {
+    expect(absentValueIssue(undefined, "Age")?.code).toBe("MISSING");
+    expect(absentValueIssue(null, "Age")?.code).toBe("NULL");
+    expect(absentValueIssue("  ", "Age")?.code).toBe("EMPTY");
+    expect(absentValueIssue(42, "Age")).toBeNull();
+  });
+
+  test("blood pressure", () => {
+    expect(bloodPressureIssue("150/").code).toBe("BP_MISSING_DIASTOLIC");
+    expect(bloodPressureIssue("/90").code).toBe("BP_MISSING_SYSTOLIC");
+    expect(bloodPressureIssue("N/A").code).toBe("BP_NON_NUMERIC");
+    expect(bloodPressureIssue("INVALID").code).toBe("BP_NON_NUMERIC");
+    expect(bloodPressureIssue("120-80").code).toBe("BP_MALFORMED");
+    expect(bloodPressureIssue("").code).toBe("EMPTY");
+    expect(bloodPressureIssue(null).code).toBe("NULL");
+  });
+
+  test("temperature", () => {
+    expect(temperatureIssue("TEMP_ERROR").code).toBe("TEMP_NON_NUMERIC");
+    expect(temperatureIssue(undefined).code).toBe("MISSING");
+  });
+
+  test("age", () => {
+    expect(ageIssue("fifty-three").code).toBe("AGE_WORD_NUMBER");
+    expect(ageIssue("Sixty Two").code).toBe("AGE_WORD_NUMBER");
+    expect(ageIssue("unknown").code).toBe("AGE_NON_NUMERIC");
+    expect(ageIssue("one hundred and five").code).toBe("AGE_WORD_NUMBER");
+    expect(ageIssue("and").code).toBe("AGE_NON_NUMERIC");
+    expect(ageIssue("fifty and").code).toBe("AGE_NON_NUMERIC");
+    expect(scoreAge("fifty-three").issue?.code).toBe("AGE_WORD_NUMBER");
+  });
+
+  test("valid inputs carry no issue", () => {
+    const r = computePatientRiskDetails({
+      patient_id: "DEMO1",
+      blood_pressure: "120/80",
+      temperature: 98.6,
+      age: 40,
+    });
+    expect(r?.issues).toEqual({
+      bloodPressure: null,
+      temperature: null,
+      age: null,
+    });
+  });
+});
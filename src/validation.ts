@@ -0,0 +1,253 @@
+import type {
+  ParseMode,
+  RangeRule,
+  ValidationCode,
+  ValidationIssue,
+} from "./types";
+
+/**
+ * English number words accepted as "the value was spelled out" (e.g.
+ * "fifty-three"). These are still invalid; the code just tells upstream data
+ * owners what went wrong.
+ */
+const NUMBER_WORDS = new Set([
+  "zero",
+  "one",
+  "two",
+  "three",
+  "four",
+  "five",
+  "six",
+  "seven",
+  "eight",
+  "nine",
+  "ten",
+  "eleven",
+  "twelve",
+  "thirteen",
+  "fourteen",
+  "fifteen",
+  "sixteen",
+  "seventeen",
+  "eighteen",
+  "nineteen",
+  "twenty",
+  "thirty",
+  "forty",
+  "fifty",
+  "sixty",
+  "seventy",
+  "eighty",
+  "ninety",
+  "hundred",
+]);
+
+/**
+ * Whether every word is a number word, allowing "and" only between two of
+ * them ("one hundred and five", but not "and" on its own).
+ */
+function isSpelledNumber(words: string[]): boolean {
+  return (
+    words.length > 0 &&
+    words.every(
+      (w, i) =>
+        NUMBER_WORDS.has(w) ||
+        (w === "and" &&
+          i > 0 &&
+          i < words.length - 1 &&
+          NUMBER_WORDS.has(words[i - 1]) &&
+          NUMBER_WORDS.has(words[i + 1]))
+    )
+  );
+}
+
+/**
+ * Renders a raw value for an issue message.
+ */
+function show(value: unknown): string {
+  return value === undefined ? "undefined" : JSON.stringify(value);
+}
+
+/**
+ * Classifies absent values (`undefined`, `null`, blank strings).
+ *
+ * Returns `null` when the value is present, so callers can fall through to
+ * field-specific checks.
+ */
+export function absentValueIssue(
+  value: unknown,
+  label: string
+): ValidationIssue | null {
+  if (value === undefined)
+    return { code: "MISSING", message: `${label} field is missing` };
+  if (value === null) return { code: "NULL", message: `${label} is null` };
+  if (typeof value === "string" && !value.trim())
+    return { code: "EMPTY", message: `${label} is an empty string` };
+  return null;
+}
+
+/**
+ * Explains why a blood pressure value failed to parse.
+ *
+ * Only call this for values the parser for `mode` rejected. In strict mode a
+ * reading with digits in both halves but extra text ("120mmHg/80garbage") is
+ * `BP_MALFORMED` rather than `BP_NON_NUMERIC`.
+ */
+export function bloodPressureIssue(
+  value: unknown,
+  mode: ParseMode = "lenient"
+): ValidationIssue {
+  const absent = absentValueIssue(value, "Blood pressure");
+  if (absent) return absent;
+
+  if (value && typeof value === "object") {
+    return {
+      code: "BP_NON_NUMERIC",
+      message: `Blood pressure ${show(
+        value
+      )} does not hold numeric systolic and diastolic values`,
+    };
+  }
+
+  const s = String(value).trim();
+  if (!/\d/.test(s)) {
+    return {
+      code: "BP_NON_NUMERIC",
+      message: `Blood pressure ${show(value)} is not numeric`,
+    };
+  }
+
+  const parts = s.split("/");
+  if (parts.length !== 2) {
+    return {
+      code: "BP_MALFORMED",
+      message: `Blood pressure ${show(
+        value
+      )} is not in "systolic/diastolic" form`,
+    };
+  }
+
+  const [left, right] = parts.map((x) => x.trim());
+  if (!left)
+    return {
+      code: "BP_MISSING_SYSTOLIC",
+      message: `Blood pressure ${show(value)} is missing the systolic value`,
+    };
+  if (!right)
+    return {
+      code: "BP_MISSING_DIASTOLIC",
+      message: `Blood pressure ${show(value)} is missing the diastolic value`,
+    };
+
+  if (mode === "strict") {
+    return {
+      code: "BP_MALFORMED",
+      message: `Blood pressure ${show(
+        value
+      )} is not "systolic/diastolic" with an optional mmHg suffix`,
+    };
+  }
+
+  return {
+    code: "BP_NON_NUMERIC",
+    message: `Blood pressure ${show(value)} has a non-numeric component`,
+  };
+}
+
+/**
+ * Checks whether a present value has digits (or is a number, e.g. a
+ * fractional age) but was still rejected, which in strict mode means "wrong
+ * format" rather than "not a number".
+ */
+function isMalformedNumber(value: unknown, mode: ParseMode): boolean {
+  if (mode !== "strict") return false;
+  if (typeof value === "number") return Number.isFinite(value);
+  return typeof value === "string" && /\d/.test(value);
+}
+
+/**
+ * Explains why a temperature value failed to parse.
+ */
+export function temperatureIssue(
+  value: unknown,
+  mode: ParseMode = "lenient"
+): ValidationIssue {
+  const absent = absentValueIssue(value, "Temperature");
+  if (absent) return absent;
+
+  if (isMalformedNumber(value, mode)) {
+    return {
+      code: "TEMP_MALFORMED",
+      message: `Temperature ${show(
+        value
+      )} is not a plain number with an optional °F/°C suffix`,
+    };
+  }
+
+  return {
+    code: "TEMP_NON_NUMERIC",
+    message: `Temperature ${show(value)} is not numeric`,
+  };
+}
+
+/**
+ * Explains why an age value failed to parse.
+ *
+ * Spelled-out numbers ("fifty-three") get their own code so they can be
+ * told apart from junk like "unknown".
+ */
+export function ageIssue(
+  value: unknown,
+  mode: ParseMode = "lenient"
+): ValidationIssue {
+  const absent = absentValueIssue(value, "Age");
+  if (absent) return absent;
+
+  if (typeof value === "string") {
+    const words = value
+      .trim()
+      .toLowerCase()
+      .split(/[\s-]+/);
+    if (isSpelledNumber(words)) {
+      return {
+        code: "AGE_WORD_NUMBER",
+        message: `Age ${show(value)} is spelled out instead of numeric`,
+      };
+    }
+  }
+
+  if (isMalformedNumber(value, mode)) {
+    return {
+      code: "AGE_MALFORMED",
+      message: `Age ${show(value)} is not a plain whole number`,
+    };
+  }
+
+  return {
+    code: "AGE_NON_NUMERIC",
+    message: `Age ${show(value)} is not numeric`,
+  };
+}
+
+/**
+ * Builds the issue for a parsed value outside its plausible range (strict
+ * mode only).
+ *
+ * @param code `*_OUT_OF_RANGE` code for the field
+ * @param label field name for the message
+ * @param value parsed value (e.g. `"250/80"` or `150`)
+ * @param range the plausible range it missed
+ */
+export function outOfRangeIssue(
+  code: Extract<ValidationCode, `${string}_OUT_OF_RANGE`>,
+  label: string,
+  value: string | number,
+  range: RangeRule
+): ValidationIssue {
+  return {
+    code,
+    message: `${label} ${value} is outside the plausible range ${
+      range.min ?? "-∞"
+    }–${range.max ?? "∞"}`,
+  };
+}